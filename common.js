@@ -126,6 +126,31 @@ var Common = (function() {
       case 'opt':
         P.config.experimentalOptimizations = true;
         break;
+      case 'interpreter':
+        P.config.useInterpreter = true;
+        break;
+      case 'optimize':
+        P.config.optimizeScripts = true;
+        break;
+      case 'lazy':
+        P.config.lazyCompilation = true;
+        break;
+      case 'cache':
+        P.config.cacheCompiledProjects = true;
+        break;
+      case 'integrity':
+        P.config.assetIntegrity = value === 'placeholder' ? 'placeholder' : 'warn';
+        break;
+      case 'progressive':
+        P.config.progressiveLoading = true;
+        break;
+      case 'repair':
+        P.config.repairProjects = true;
+        break;
+      case 'offline':
+        // ?offline saves downloaded projects and assets, ?offline=first also skips downloading projects that were saved.
+        P.io.setAssetManager(new P.offline.CachingAssetManager({ offlineFirst: value === 'first' }));
+        break;
     }
   });
 
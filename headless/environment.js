@@ -0,0 +1,275 @@
+'use strict';
+
+// Headless stand-ins for the browser APIs that forkphorus uses.
+// They implement just enough for a project to load and run: elements remember their
+// attributes and children but never lay anything out, canvases never draw, and images
+// only read their dimensions from the image headers.
+// There is no AudioContext, so P.audio.context is null and sound blocks do nothing.
+
+const { resolveObjectURL } = require('buffer');
+
+function noop() {}
+
+class HeadlessClassList {
+  constructor() {
+    this.classes = new Set();
+  }
+  add(...names) { names.forEach((i) => this.classes.add(i)); }
+  remove(...names) { names.forEach((i) => this.classes.delete(i)); }
+  contains(name) { return this.classes.has(name); }
+  toggle(name, force) {
+    const enabled = force === undefined ? !this.classes.has(name) : force;
+    if (enabled) this.add(name);
+    else this.remove(name);
+    return enabled;
+  }
+}
+
+class HeadlessNode {
+  constructor() {
+    this.parentNode = null;
+    this.childNodes = [];
+  }
+  get children() { return this.childNodes.filter((i) => i instanceof HeadlessElement); }
+  get firstChild() { return this.childNodes[0] || null; }
+  get firstElementChild() { return this.children[0] || null; }
+  appendChild(child) {
+    if (child.parentNode) child.parentNode.removeChild(child);
+    child.parentNode = this;
+    this.childNodes.push(child);
+    return child;
+  }
+  insertBefore(child, reference) {
+    if (!reference) return this.appendChild(child);
+    if (child.parentNode) child.parentNode.removeChild(child);
+    child.parentNode = this;
+    this.childNodes.splice(this.childNodes.indexOf(reference), 0, child);
+    return child;
+  }
+  removeChild(child) {
+    const index = this.childNodes.indexOf(child);
+    if (index !== -1) this.childNodes.splice(index, 1);
+    child.parentNode = null;
+    return child;
+  }
+  addEventListener() {}
+  removeEventListener() {}
+  dispatchEvent() { return true; }
+}
+
+class HeadlessText extends HeadlessNode {
+  constructor(text) {
+    super();
+    this.nodeValue = text;
+  }
+  get textContent() { return this.nodeValue; }
+  set textContent(text) { this.nodeValue = '' + text; }
+}
+
+class HeadlessElement extends HeadlessNode {
+  constructor(tagName) {
+    super();
+    this.tagName = tagName.toUpperCase();
+    this.style = {};
+    this.dataset = {};
+    this.classList = new HeadlessClassList();
+    this.attributes = new Map();
+    this.value = '';
+    this.offsetWidth = 0;
+    this.offsetHeight = 0;
+  }
+  get textContent() { return this.childNodes.map((i) => i.textContent).join(''); }
+  set textContent(text) {
+    this.childNodes = [];
+    this.appendChild(new HeadlessText('' + text));
+  }
+  setAttribute(name, value) { this.attributes.set(name, '' + value); }
+  getAttribute(name) { return this.attributes.has(name) ? this.attributes.get(name) : null; }
+  hasAttribute(name) { return this.attributes.has(name); }
+  removeAttribute(name) { this.attributes.delete(name); }
+  querySelector() { return null; }
+  querySelectorAll() { return []; }
+  getBoundingClientRect() { return { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 }; }
+  focus() {}
+  blur() {}
+}
+
+// Every method of a 2D context does nothing, except for the few that must return something.
+function createContext2D(canvas) {
+  const properties = {
+    canvas,
+    getImageData(x, y, width, height) {
+      return { width, height, data: new Uint8ClampedArray(Math.max(0, width * height * 4)) };
+    },
+    createImageData(width, height) {
+      return { width, height, data: new Uint8ClampedArray(Math.max(0, width * height * 4)) };
+    },
+    measureText(text) {
+      return { width: 0 };
+    },
+  };
+  return new Proxy(properties, {
+    get(target, name) {
+      return name in target ? target[name] : noop;
+    },
+  });
+}
+
+class HeadlessCanvas extends HeadlessElement {
+  constructor() {
+    super('canvas');
+    this.width = 300;
+    this.height = 150;
+    this.context = null;
+  }
+  getContext(type) {
+    if (type !== '2d') return null;
+    if (!this.context) this.context = createContext2D(this);
+    return this.context;
+  }
+}
+
+function decodeDataURL(url) {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),/.exec(url);
+  if (!match) return null;
+  const data = url.substr(match[0].length);
+  const isBase64 = match[2].split(';').indexOf('base64') !== -1;
+  return {
+    type: match[1],
+    buffer: isBase64 ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data), 'utf8'),
+  };
+}
+
+function getSVGSize(source) {
+  const match = /<svg\b[^>]*>/i.exec(source);
+  if (!match) return null;
+  const tag = match[0];
+  const attribute = (name) => {
+    const value = new RegExp('\\s' + name + '\\s*=\\s*["\']([^"\']*)["\']', 'i').exec(tag);
+    return value ? value[1] : null;
+  };
+  const viewBox = (attribute('viewBox') || '').split(/[ ,]+/).filter((i) => i).map((i) => +i);
+  if (viewBox.length === 4 && viewBox.every((i) => !isNaN(i))) {
+    // The viewBox takes precedence in the same way as in the loaders, which includes its min x/y in the size.
+    const [ x, y, w, h ] = viewBox;
+    return { width: Math.max(1, w + x), height: Math.max(1, h + y) };
+  }
+  return { width: parseFloat(attribute('width')) || 0, height: parseFloat(attribute('height')) || 0 };
+}
+
+function getJPEGSize(buffer) {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    // SOF markers hold the size. 0xc4, 0xc8 and 0xcc are other markers in the same range.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Reads the dimensions of a PNG, GIF, JPEG or SVG image without decoding it.
+ * Returns null if the image is not understood.
+ */
+function getImageSize(buffer) {
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer.length >= 10 && buffer.toString('latin1', 0, 4) === 'GIF8') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return getJPEGSize(buffer);
+  }
+  return getSVGSize(buffer.toString('utf8'));
+}
+
+class HeadlessImage extends HeadlessElement {
+  constructor(width = 0, height = 0) {
+    super('img');
+    this.width = this.naturalWidth = width;
+    this.height = this.naturalHeight = height;
+    this.onload = null;
+    this.onerror = null;
+    this._src = '';
+  }
+  get src() { return this._src; }
+  set src(src) {
+    this._src = src;
+    // blob: URLs may be revoked as soon as the image has loaded, so they are resolved right away.
+    const blob = src.startsWith('blob:') ? resolveObjectURL(src) : null;
+    setTimeout(async () => {
+      const data = blob ? { buffer: Buffer.from(await blob.arrayBuffer()) } : decodeDataURL(src);
+      const size = data && getImageSize(data.buffer);
+      if (!size) {
+        if (this.onerror) this.onerror(new Error('Cannot load image in a headless environment: ' + src.substr(0, 40)));
+        return;
+      }
+      this.width = this.naturalWidth = size.width;
+      this.height = this.naturalHeight = size.height;
+      if (this.onload) this.onload();
+    });
+  }
+}
+
+class HeadlessDocument extends HeadlessNode {
+  constructor() {
+    super();
+    this.documentElement = this.appendChild(this.createElement('html'));
+    this.head = this.documentElement.appendChild(this.createElement('head'));
+    this.body = this.documentElement.appendChild(this.createElement('body'));
+  }
+  createElement(tagName) {
+    switch (tagName.toLowerCase()) {
+      case 'canvas': return new HeadlessCanvas();
+      case 'img': return new HeadlessImage();
+      default: return new HeadlessElement(tagName);
+    }
+  }
+  createElementNS(namespace, tagName) {
+    return this.createElement(tagName);
+  }
+  createTextNode(text) {
+    return new HeadlessText('' + text);
+  }
+  querySelector() { return null; }
+  querySelectorAll() { return []; }
+}
+
+/**
+ * Installs the stand-ins on the global object. This must happen before phosphorus.dist.js is evaluated.
+ */
+function install(global) {
+  global.window = global;
+  global.self = global;
+  global.devicePixelRatio = 1;
+  global.document = new HeadlessDocument();
+  global.Image = HeadlessImage;
+  global.HTMLElement = HeadlessElement;
+  global.HTMLCanvasElement = HeadlessCanvas;
+  global.HTMLImageElement = HeadlessImage;
+  global.addEventListener = noop;
+  global.removeEventListener = noop;
+  global.requestAnimationFrame = (callback) => setTimeout(() => callback(Date.now()), 0);
+  // Node 21+ has a navigator with a read-only getter, so it is replaced rather than assigned.
+  Object.defineProperty(global, 'navigator', {
+    value: { userAgent: 'forkphorus-headless', language: 'en' },
+    configurable: true,
+    writable: true,
+  });
+  global.location = {
+    protocol: 'file:',
+    href: 'file:///',
+    search: '',
+    hash: '',
+  };
+}
+
+module.exports = {
+  install,
+  getImageSize,
+};
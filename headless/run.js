@@ -0,0 +1,214 @@
+'use strict';
+
+// Runs a Scratch project in Node without a browser.
+// The project runs on a virtual clock until all of its threads finish or the frame limit is reached.
+// Afterwards, everything that was said or thought, the final values of all variables and lists, the
+// compatibility report, and the warnings and substitutions of the loader are printed as JSON.
+//
+// Usage: node headless/run.js <project.sb3 | project.sb2> [--frames N] [--framerate N] [--seed N] [--interpreter] [--optimize] [--lazy]
+//   [--save-bundle bundle.json] [--bundle bundle.json] [--asset-integrity warn|placeholder] [--repair] [--progressive]
+//
+// --seed sets the seed of the random numbers, which are the same every run otherwise.
+//
+// --save-bundle writes the compiled scripts of a .sb3 project to a file, and --bundle loads a .sb3 project with
+// scripts from such a file instead of compiling them. See P.sb3.bundle.
+//
+// --asset-integrity checks the assets of a .sb3 project against their MD5 hashes. See P.config.assetIntegrity.
+//
+// --repair replaces costumes and sounds that cannot be loaded with placeholders. See P.config.repairProjects.
+//
+// --progressive starts a .sb3 project before all of its costumes and sounds have loaded. See P.config.progressiveLoading.
+//
+// This runs phosphorus.dist.js as it is. npm run headless builds it first; otherwise, build it with npm run build.
+
+const fs = require('fs');
+const pathUtil = require('path');
+const vm = require('vm');
+const environment = require('./environment');
+
+const root = pathUtil.join(__dirname, '..');
+
+function parseArguments(args) {
+  const options = {
+    path: null,
+    frames: 1800,
+    framerate: 30,
+    seed: 0,
+    interpreter: false,
+    optimize: false,
+    lazy: false,
+    saveBundle: null,
+    bundle: null,
+    assetIntegrity: 'off',
+    repair: false,
+    progressive: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--interpreter') {
+      options.interpreter = true;
+    } else if (arg === '--optimize') {
+      options.optimize = true;
+    } else if (arg === '--lazy') {
+      options.lazy = true;
+    } else if (arg === '--repair') {
+      options.repair = true;
+    } else if (arg === '--progressive') {
+      options.progressive = true;
+    } else if (arg === '--save-bundle' || arg === '--bundle') {
+      const value = args[++i];
+      if (!value) {
+        throw new Error(`${arg} requires a file`);
+      }
+      options[arg === '--bundle' ? 'bundle' : 'saveBundle'] = value;
+    } else if (arg === '--asset-integrity') {
+      const value = args[++i];
+      if (value !== 'warn' && value !== 'placeholder') {
+        throw new Error(`${arg} must be warn or placeholder`);
+      }
+      options.assetIntegrity = value;
+    } else if (arg === '--seed') {
+      const value = +args[++i];
+      if (!Number.isInteger(value)) {
+        throw new Error(`${arg} must be an integer`);
+      }
+      options.seed = value;
+    } else if (arg === '--frames' || arg === '--framerate') {
+      const value = +args[++i];
+      if (!(value > 0)) {
+        throw new Error(`${arg} must be a positive number`);
+      }
+      options[arg.substr(2)] = value;
+    } else if (options.path === null) {
+      options.path = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (options.path === null) {
+    throw new Error('Usage: node headless/run.js <project.sb3 | project.sb2> [--frames N] [--framerate N] [--seed N] [--interpreter] [--optimize] [--lazy] [--save-bundle bundle.json] [--bundle bundle.json] [--asset-integrity warn|placeholder] [--repair] [--progressive]');
+  }
+  return options;
+}
+
+function loadScript(path) {
+  vm.runInThisContext(fs.readFileSync(path, 'utf8'), { filename: path });
+}
+
+function createLoader(options) {
+  const path = options.path;
+  const data = fs.readFileSync(path);
+  const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+  const extension = pathUtil.extname(path).toLowerCase();
+  if ((options.bundle || options.saveBundle) && extension !== '.sb3') {
+    throw new Error('Bundles can only be used with .sb3 projects');
+  }
+  switch (extension) {
+    case '.sb2': return new P.sb2.SB2FileLoader(buffer);
+    case '.sb3': {
+      if (options.bundle) {
+        const bundle = JSON.parse(fs.readFileSync(options.bundle, 'utf8'));
+        return new P.sb3.bundle.CompiledSB3FileLoader(buffer, bundle);
+      }
+      const loader = new P.sb3.SB3FileLoader(buffer);
+      loader.createBundle = !!options.saveBundle;
+      return loader;
+    }
+    default: throw new Error(`Unrecognized file extension: ${extension}`);
+  }
+}
+
+function listToArray(list) {
+  const result = [];
+  for (let i = 0; i < list.length; i++) {
+    result.push(list[i]);
+  }
+  return result;
+}
+
+function getTargetData(target) {
+  const lists = {};
+  for (const name of Object.keys(target.lists)) {
+    lists[name] = listToArray(target.lists[name]);
+  }
+  return {
+    variables: Object.assign({}, target.vars),
+    lists,
+  };
+}
+
+async function run(options) {
+  const loader = createLoader(options);
+  const stage = await loader.load();
+  if (options.saveBundle) {
+    fs.writeFileSync(options.saveBundle, JSON.stringify(loader.bundle));
+  }
+  const runtime = stage.runtime;
+  const speech = [];
+  const errors = [];
+
+  runtime.handleSay = (target, text, thinking) => {
+    speech.push({
+      frame: runtime.frameCount,
+      target: target.isStage ? 'Stage' : target.name,
+      type: thinking ? 'think' : 'say',
+      text,
+    });
+  };
+  runtime.handleError = (error) => {
+    errors.push(error && error.message || '' + error);
+  };
+
+  runtime.framerate = options.framerate;
+  runtime.useVirtualClock(undefined, options.seed);
+  runtime.triggerGreenFlag();
+  while (runtime.frameCount < options.frames && runtime.getThreads().length > 0) {
+    runtime.stepFrames(1);
+  }
+
+  const targets = {
+    Stage: getTargetData(stage),
+  };
+  for (const sprite of stage.children) {
+    if (!sprite.isClone) {
+      targets[sprite.name] = getTargetData(sprite);
+    }
+  }
+
+  return {
+    frames: runtime.frameCount,
+    finished: runtime.getThreads().length === 0,
+    speech,
+    targets,
+    errors,
+    compatibility: stage.compatibility.entries,
+    warnings: loader.warnings,
+    substitutions: loader.substitutions,
+  };
+}
+
+(async function() {
+  try {
+    const options = parseArguments(process.argv.slice(2));
+    // Output from the project's code goes to stderr so that stdout only contains the result.
+    console.log = console.info = console.error;
+    environment.install(global);
+    loadScript(pathUtil.join(root, 'lib/jszip.min.js'));
+    loadScript(pathUtil.join(root, 'phosphorus.dist.js'));
+    P.config.headless = true;
+    P.config.useInterpreter = options.interpreter;
+    P.config.optimizeScripts = options.optimize;
+    P.config.lazyCompilation = options.lazy;
+    P.config.assetIntegrity = options.assetIntegrity;
+    P.config.repairProjects = options.repair;
+    P.config.progressiveLoading = options.progressive;
+    const result = await run(options);
+    // Exiting before the output is flushed would truncate it when stdout is a pipe.
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n', () => {
+      process.exit(result.errors.length ? 1 : 0);
+    });
+  } catch (e) {
+    console.error(e.stack || e);
+    process.exit(1);
+  }
+}());
@@ -212,6 +212,108 @@ namespace P.audio {
     ]
   ];
 
+  /**
+   * Maps General MIDI program numbers, starting at 0, to indexes of instruments.
+   * Used by the MIDI blocks of Scratch 1 and 2. The mapping is the same as in scratch-vm.
+   */
+  export const midiInstruments: number[] = [
+    // Acoustic Grand, Bright Acoustic, Electric Grand, Honky-Tonk
+    0, 0, 0, 0,
+    // Electric Piano 1, Electric Piano 2, Harpsichord, Clavinet
+    1, 1, 3, 3,
+    // Celesta, Glockenspiel, Music Box, Vibraphone
+    16, 16, 16, 15,
+    // Marimba, Xylophone, Tubular Bells, Dulcimer
+    18, 15, 16, 16,
+    // Drawbar Organ, Percussive Organ, Rock Organ, Church Organ
+    2, 2, 2, 2,
+    // Reed Organ, Accordion, Harmonica, Tango Accordion
+    2, 2, 2, 2,
+    // Nylon String Guitar, Steel String Guitar, Electric Jazz Guitar, Electric Clean Guitar
+    3, 3, 4, 4,
+    // Electric Muted Guitar, Overdriven Guitar, Distortion Guitar, Guitar Harmonics
+    4, 4, 4, 4,
+    // Acoustic Bass, Electric Bass (finger), Electric Bass (pick), Fretless Bass
+    5, 5, 5, 5,
+    // Slap Bass 1, Slap Bass 2, Synth Bass 1, Synth Bass 2
+    5, 5, 5, 5,
+    // Violin, Viola, Cello, Contrabass
+    7, 7, 7, 7,
+    // Tremolo Strings, Pizzicato Strings, Orchestral Strings, Timpani
+    7, 6, 7, 18,
+    // String Ensemble 1, String Ensemble 2, SynthStrings 1, SynthStrings 2
+    7, 7, 7, 7,
+    // Choir Aahs, Voice Oohs, Synth Voice, Orchestra Hit
+    14, 14, 14, 18,
+    // Trumpet, Trombone, Tuba, Muted Trumpet
+    8, 8, 8, 8,
+    // French Horn, Brass Section, SynthBrass 1, SynthBrass 2
+    8, 8, 8, 8,
+    // Soprano Sax, Alto Sax, Tenor Sax, Baritone Sax
+    10, 10, 10, 10,
+    // Oboe, English Horn, Bassoon, Clarinet
+    13, 13, 13, 9,
+    // Piccolo, Flute, Recorder, Pan Flute
+    11, 11, 12, 12,
+    // Blown Bottle, Shakuhachi, Whistle, Ocarina
+    12, 12, 11, 11,
+    // Lead 1 (square), Lead 2 (sawtooth), Lead 3 (calliope), Lead 4 (chiff)
+    19, 19, 19, 19,
+    // Lead 5 (charang), Lead 6 (voice), Lead 7 (fifths), Lead 8 (bass+lead)
+    19, 19, 19, 19,
+    // Pad 1 (new age), Pad 2 (warm), Pad 3 (polysynth), Pad 4 (choir)
+    20, 20, 20, 20,
+    // Pad 5 (bowed), Pad 6 (metallic), Pad 7 (halo), Pad 8 (sweep)
+    20, 20, 20, 20,
+    // FX 1 (rain), FX 2 (soundtrack), FX 3 (crystal), FX 4 (atmosphere)
+    20, 20, 20, 20,
+    // FX 5 (brightness), FX 6 (goblins), FX 7 (echoes), FX 8 (sci-fi)
+    20, 20, 20, 20,
+    // Sitar, Banjo, Shamisen, Koto
+    3, 3, 3, 3,
+    // Kalimba, Bagpipe, Fiddle, Shanai
+    16, 13, 7, 9,
+    // Tinkle Bell, Agogo, Steel Drums, Woodblock
+    16, 16, 17, 18,
+    // Taiko Drum, Melodic Tom, Synth Drum, Reverse Cymbal
+    0, 0, 0, 0,
+    // Guitar Fret Noise, Breath Noise, Seashore, Bird Tweet
+    20, 20, 20, 20,
+    // Telephone Ring, Helicopter, Applause, Gunshot
+    20, 20, 20, 20,
+  ];
+
+  /**
+   * Maps General MIDI percussion keys, starting at 35, to indexes of drums.
+   * Used by the MIDI blocks of Scratch 1 and 2. The mapping is the same as in scratch-vm.
+   */
+  export const midiDrums: number[] = [
+    // Acoustic Bass Drum, Bass Drum 1, Side Stick, Acoustic Snare
+    1, 1, 2, 0,
+    // Hand Clap, Electric Snare, Low Floor Tom, Closed Hi-Hat
+    7, 0, 1, 5,
+    // High Floor Tom, Pedal Hi-Hat, Low Tom, Open Hi-Hat
+    1, 5, 1, 4,
+    // Low-Mid Tom, Hi-Mid Tom, Crash Cymbal 1, High Tom
+    1, 1, 3, 1,
+    // Ride Cymbal 1, Chinese Cymbal, Ride Bell, Tambourine
+    4, 3, 4, 6,
+    // Splash Cymbal, Cowbell, Crash Cymbal 2, Vibraslap
+    3, 10, 3, 16,
+    // Ride Cymbal 2, Hi Bongo, Low Bongo, Mute Hi Conga
+    4, 12, 12, 13,
+    // Open Hi Conga, Low Conga, High Timbale, Low Timbale
+    13, 13, 12, 12,
+    // High Agogo, Low Agogo, Cabasa, Maracas
+    10, 10, 14, 14,
+    // Short Whistle, Long Whistle, Short Guiro, Long Guiro
+    17, 17, 15, 15,
+    // Claves, Hi Wood Block, Low Wood Block, Mute Cuica
+    8, 9, 9, 17,
+    // Open Cuica, Mute Triangle, Open Triangle
+    17, 11, 11,
+  ];
+
   const SB2_SOUNDBANK_FILES = {
     'AcousticGuitar_F3': 'sb2/instruments/AcousticGuitar_F3_22k.wav',
     'AcousticPiano_As3': 'sb2/instruments/AcousticPiano(5)_A%233_22k.wav',
@@ -313,6 +415,13 @@ namespace P.audio {
       .then((sound) => soundbank[name] = sound);
   }
 
+  /**
+   * Determines whether the soundbank file that a span plays has loaded.
+   */
+  export function isSpanLoaded(span: Span): boolean {
+    return !!soundbank[span.name];
+  }
+
   export function playSpan(span: Span, key: number, duration: number, connection: AudioNode): AudioNode {
     if (!context) {
       throw new Error('Cannot playSpan without an AudioContext');
@@ -460,6 +569,19 @@ namespace P.audio {
     cb(new Error('Unrecognized WAV format ' + format));
   }
 
+  /**
+   * Creates a buffer of silence, to use instead of a sound that cannot be used.
+   * @returns null if there is no audio context
+   */
+  export function createSilentBuffer(sampleCount: number, sampleRate: number): AudioBuffer | null {
+    if (!context) {
+      return null;
+    }
+    // Buffers cannot be empty, and their sample rate must be one that the browser supports.
+    const rate = sampleRate >= 8000 && sampleRate <= 96000 ? sampleRate : context.sampleRate;
+    return context.createBuffer(1, Math.max(1, Math.round(sampleCount) || 0), rate);
+  }
+
   export function decodeAudio(ab: ArrayBuffer): Promise<AudioBuffer> {
     if (!context) {
       return Promise.reject(new Error('No audio context'));
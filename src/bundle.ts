@@ -0,0 +1,293 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="sb3.ts" />
+/// <reference path="runtime.ts" />
+/// <reference path="compatibility.ts" />
+
+/**
+ * Bundles of precompiled Scratch 3 projects.
+ *
+ * A bundle contains the generated functions of every target and everything that compiling a project sets up,
+ * such as listeners and procedures. It can be serialized with JSON.stringify() and given to a
+ * CompiledSB3FileLoader along with the project to load the project without compiling it again.
+ *
+ * A bundle is only valid for the project it was created from and the version of forkphorus that created it.
+ */
+namespace P.sb3.bundle {
+  /**
+   * Changes whenever the generated code or the structure of bundles changes in an incompatible way.
+   */
+  export const VERSION = 8;
+
+  export interface CompiledFunction {
+    /** The source of the function, from P.runtime.transformContinuation */
+    source: string;
+    /** Used to trace errors back to blocks. */
+    entries: P.runtime.SourceMapEntry[];
+  }
+
+  export interface CompiledScript {
+    /** The index of the first function of the script. */
+    fn: number;
+    opcode: string;
+    blockId: string | null;
+  }
+
+  export interface CompiledProcedure {
+    fn: number;
+    warp: boolean;
+    inputs: string[];
+  }
+
+  /**
+   * Listeners of a target, with indexes of functions in place of the functions.
+   */
+  export interface CompiledListeners {
+    whenClicked: number[];
+    whenCloned: number[];
+    whenGreenFlag: number[];
+    whenIReceive: ObjectMap<number[]>;
+    whenKeyPressed: ObjectMap<number[]>;
+    whenSceneStarts: ObjectMap<number[]>;
+    edgeActivated: number[];
+  }
+
+  export interface CompiledTarget {
+    /** The name of the target, used to check that the bundle matches the project. */
+    name: string;
+    /** Indexed like target.fns. null for unused indexes. */
+    functions: (CompiledFunction | null)[];
+    scripts: CompiledScript[];
+    listeners: CompiledListeners;
+    procedures: ObjectMap<CompiledProcedure>;
+    /** Maps variable IDs to names, including variables that the compiler created because they were missing. */
+    variables: ObjectMap<string>;
+    /** Maps list IDs to names, including lists that the compiler created because they were missing. */
+    lists: ObjectMap<string>;
+  }
+
+  export interface CompiledProject {
+    format: 'forkphorus-bundle';
+    version: number;
+    /** In the same order as the targets of the project, which are sorted by layer. */
+    targets: CompiledTarget[];
+    needsMusic: boolean;
+    usesMicrophone: boolean;
+    usesTextToSpeech: boolean;
+    usesVideoSensing: boolean;
+    usesTranslate: boolean;
+    compatibility: P.compatibility.ReportEntry[];
+  }
+
+  function indexListeners(fns: P.runtime.Fn[], indexes: Map<P.runtime.Fn, number>): number[] {
+    return fns.map((fn) => indexes.get(fn)!);
+  }
+
+  function indexListenerMap(map: ObjectMap<P.runtime.Fn[]>, indexes: Map<P.runtime.Fn, number>): ObjectMap<number[]> {
+    const result: ObjectMap<number[]> = {};
+    for (const key of Object.keys(map)) {
+      result[key] = indexListeners(map[key], indexes);
+    }
+    return result;
+  }
+
+  function createTarget(compiler: P.sb3.compiler.Compiler): CompiledTarget {
+    const target = compiler.target;
+    const sources = compiler.functionSources;
+    if (!sources) {
+      throw new Error('Compiler did not record function sources');
+    }
+
+    const indexes: Map<P.runtime.Fn, number> = new Map();
+    const functions: (CompiledFunction | null)[] = [];
+    const scripts: CompiledScript[] = [];
+    for (let i = 0; i < target.fns.length; i++) {
+      const fn = target.fns[i];
+      if (!fn) {
+        functions.push(null);
+        continue;
+      }
+      indexes.set(fn, i);
+      functions.push(sources[i]);
+      const info = P.runtime.getScriptInfo(fn);
+      if (info) {
+        scripts.push({ fn: i, opcode: info.opcode, blockId: info.blockId });
+      }
+    }
+
+    const listeners = target.listeners;
+    const procedures: ObjectMap<CompiledProcedure> = {};
+    for (const proccode of Object.keys(target.procedures)) {
+      const procedure = target.procedures[proccode];
+      procedures[proccode] = {
+        fn: indexes.get(procedure.fn)!,
+        warp: procedure.warp,
+        inputs: procedure.inputs,
+      };
+    }
+
+    return {
+      name: target.name,
+      functions,
+      scripts,
+      listeners: {
+        whenClicked: indexListeners(listeners.whenClicked, indexes),
+        whenCloned: indexListeners(listeners.whenCloned, indexes),
+        whenGreenFlag: indexListeners(listeners.whenGreenFlag, indexes),
+        whenIReceive: indexListenerMap(listeners.whenIReceive, indexes),
+        whenKeyPressed: indexListenerMap(listeners.whenKeyPressed, indexes),
+        whenSceneStarts: indexListenerMap(listeners.whenSceneStarts, indexes),
+        edgeActivated: indexListeners(listeners.edgeActivated, indexes),
+      },
+      procedures,
+      variables: Object.assign({}, target.varIds),
+      lists: Object.assign({}, target.listIds),
+    };
+  }
+
+  /**
+   * Creates a bundle from compilers that have compiled their targets with functionSources enabled.
+   */
+  export function create(compilers: P.sb3.compiler.Compiler[], stage: P.core.Stage, needsMusic: boolean): CompiledProject {
+    return {
+      format: 'forkphorus-bundle',
+      version: VERSION,
+      targets: compilers.map((compiler) => createTarget(compiler)),
+      needsMusic,
+      usesMicrophone: !!stage.microphone,
+      usesTextToSpeech: !!stage.tts,
+      usesVideoSensing: !!stage.videoSensing,
+      usesTranslate: !!stage.translate,
+      compatibility: stage.compatibility.entries.slice(),
+    };
+  }
+
+  function restoreListeners(indexes: number[], fns: P.runtime.Fn[]): P.runtime.Fn[] {
+    return indexes.map((i) => fns[i]);
+  }
+
+  function restoreListenerMap(map: ObjectMap<number[]>, fns: P.runtime.Fn[]): ObjectMap<P.runtime.Fn[]> {
+    const result: ObjectMap<P.runtime.Fn[]> = {};
+    for (const key of Object.keys(map)) {
+      result[key] = restoreListeners(map[key], fns);
+    }
+    return result;
+  }
+
+  function restoreTarget(data: CompiledTarget, target: Target) {
+    // Variables and lists that the compiler created because they were missing from the project.
+    for (const id of Object.keys(data.variables)) {
+      if (!target.varIds.hasOwnProperty(id)) {
+        const name = data.variables[id];
+        target.varIds[id] = name;
+        target.vars[name] = 0;
+      }
+    }
+    for (const id of Object.keys(data.lists)) {
+      if (!target.listIds.hasOwnProperty(id)) {
+        const name = data.lists[id];
+        target.listIds[id] = name;
+        target.lists[name] = createList();
+      }
+    }
+
+    const fns: P.runtime.Fn[] = [];
+    for (let i = 0; i < data.functions.length; i++) {
+      const fn = data.functions[i];
+      if (fn) {
+        fns[i] = P.runtime.evaluateContinuation(fn.source, target.name, fn.entries);
+      }
+    }
+    target.fns = fns;
+
+    for (const script of data.scripts) {
+      P.runtime.registerScript(fns[script.fn], {
+        opcode: script.opcode,
+        blockId: script.blockId,
+      });
+    }
+
+    const listeners = data.listeners;
+    target.listeners = {
+      whenClicked: restoreListeners(listeners.whenClicked, fns),
+      whenCloned: restoreListeners(listeners.whenCloned, fns),
+      whenGreenFlag: restoreListeners(listeners.whenGreenFlag, fns),
+      whenIReceive: restoreListenerMap(listeners.whenIReceive, fns),
+      whenKeyPressed: restoreListenerMap(listeners.whenKeyPressed, fns),
+      whenSceneStarts: restoreListenerMap(listeners.whenSceneStarts, fns),
+      edgeActivated: restoreListeners(listeners.edgeActivated, fns),
+    };
+
+    for (const proccode of Object.keys(data.procedures)) {
+      const procedure = data.procedures[proccode];
+      target.procedures[proccode] = new P.sb3.Scratch3Procedure(fns[procedure.fn], procedure.warp, procedure.inputs);
+    }
+
+    // Like the compiler, remove data that is now unused
+    target.sb3data = null as any;
+  }
+
+  /**
+   * Sets up the targets of a project from a bundle, as if the project had been compiled.
+   * @throws If the bundle is invalid or was created from a different project.
+   */
+  export function restore(bundle: CompiledProject, targets: Target[], stage: P.core.Stage) {
+    if (!bundle || bundle.format !== 'forkphorus-bundle') {
+      throw new Error('Invalid bundle');
+    }
+    if (bundle.version !== VERSION) {
+      throw new Error('Bundle was created by an incompatible version: ' + bundle.version);
+    }
+    if (bundle.targets.length !== targets.length) {
+      throw new Error('Bundle does not match project: expected ' + bundle.targets.length + ' targets but found ' + targets.length);
+    }
+    for (let i = 0; i < targets.length; i++) {
+      const data = bundle.targets[i];
+      const target = targets[i];
+      if (data.name !== target.name) {
+        throw new Error('Bundle does not match project: expected target ' + data.name + ' but found ' + target.name);
+      }
+      for (const script of data.scripts) {
+        const block = script.blockId && target.sb3data.blocks[script.blockId];
+        if (script.blockId && (!block || block.opcode !== script.opcode)) {
+          throw new Error('Bundle does not match project: missing script ' + script.blockId + ' in ' + target.name);
+        }
+      }
+    }
+
+    for (let i = 0; i < targets.length; i++) {
+      restoreTarget(bundle.targets[i], targets[i]);
+    }
+    if (bundle.usesMicrophone) {
+      stage.initMicrophone();
+    }
+    if (bundle.usesTextToSpeech) {
+      stage.initTextToSpeech();
+    }
+    if (bundle.usesVideoSensing) {
+      stage.initVideoSensing();
+    }
+    if (bundle.usesTranslate) {
+      stage.initTranslate();
+    }
+    for (const entry of bundle.compatibility) {
+      stage.compatibility.addEntry(entry);
+    }
+  }
+
+  /**
+   * Loads a .sb3 file using a bundle instead of compiling its scripts.
+   */
+  export class CompiledSB3FileLoader extends P.sb3.SB3FileLoader {
+    private compiledProject: CompiledProject;
+
+    constructor(buffer: ArrayBuffer, compiledProject: CompiledProject) {
+      super(buffer);
+      this.compiledProject = compiledProject;
+    }
+
+    compileTargets(targets: Target[], stage: P.core.Stage): void {
+      restore(this.compiledProject, targets, stage);
+      this.needsMusic = this.compiledProject.needsMusic;
+    }
+  }
+}
@@ -0,0 +1,339 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="config.ts" />
+/// <reference path="audio.ts" />
+
+/**
+ * A cache of compiled projects, so that opening the same project again skips compiling its scripts and decoding its sounds.
+ * Costumes are not cached, so they are still loaded and decoded every time.
+ * Enabled with P.config.cacheCompiledProjects. Entries are stored in IndexedDB unless setStorage() is used.
+ *
+ * Projects are identified by a hash of their project.json, so a changed project is compiled again.
+ */
+namespace P.cache {
+  /**
+   * Increase this when the code generated by the Scratch 2 or Scratch 3 compiler changes or when the structure of
+   * entries changes. Entries saved by other versions are never used.
+   */
+  export const COMPILER_VERSION = 9;
+
+  /**
+   * The number of projects to keep. When more are saved, the oldest are removed.
+   */
+  const MAX_ENTRIES = 20;
+
+  /**
+   * Sounds are not saved if their decoded samples add up to more than this many bytes.
+   */
+  const MAX_SOUND_BYTES = 64 * 1024 * 1024;
+
+  export interface DecodedSound {
+    sampleRate: number;
+    channels: Float32Array[];
+  }
+
+  export interface CacheEntry {
+    key: string;
+    version: number;
+    /** When the entry was saved, in milliseconds since the epoch. */
+    savedAt: number;
+    scripts: P.sb3.bundle.CompiledProject | P.sb2.compiler.CompiledProject;
+    /** Decoded sounds, keyed by the file name of the sound in the project. Costumes are not saved. */
+    sounds: ObjectMap<DecodedSound>;
+  }
+
+  /**
+   * Where entries are stored.
+   */
+  export interface CacheStorage {
+    get(key: string): Promise<CacheEntry | null>;
+    put(entry: CacheEntry): Promise<void>;
+    /** Lists the keys of all entries, from the least recently saved to the most recently saved. */
+    keys(): Promise<string[]>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+  }
+
+  const DATABASE_NAME = 'forkphorus-cache';
+  const STORE_NAME = 'projects';
+
+  class IndexedDBStorage implements CacheStorage {
+    private database: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+      if (!this.database) {
+        this.database = new Promise((resolve, reject) => {
+          // The version of the database is the version of the compiler so that old entries are removed when it changes.
+          const request = indexedDB.open(DATABASE_NAME, COMPILER_VERSION);
+          request.onupgradeneeded = () => {
+            const database = request.result;
+            if (database.objectStoreNames.contains(STORE_NAME)) {
+              database.deleteObjectStore(STORE_NAME);
+            }
+            const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('savedAt', 'savedAt');
+          };
+          request.onsuccess = () => {
+            const database = request.result;
+            // Let pages with a newer version of the compiler upgrade the database.
+            database.onversionchange = () => database.close();
+            resolve(database);
+          };
+          request.onerror = () => reject(request.error);
+          request.onblocked = () => reject(new Error('Cache database is in use by an older version'));
+        });
+      }
+      return this.database;
+    }
+
+    private async transaction(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => void): Promise<void> {
+      const database = await this.open();
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, mode);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+        callback(transaction.objectStore(STORE_NAME));
+      });
+    }
+
+    async get(key: string): Promise<CacheEntry | null> {
+      let entry: CacheEntry | null = null;
+      await this.transaction('readonly', (store) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          entry = request.result || null;
+        };
+      });
+      return entry;
+    }
+
+    put(entry: CacheEntry): Promise<void> {
+      return this.transaction('readwrite', (store) => {
+        store.put(entry);
+      });
+    }
+
+    async keys(): Promise<string[]> {
+      const keys: string[] = [];
+      await this.transaction('readonly', (store) => {
+        const request = store.index('savedAt').openKeyCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            keys.push(cursor.primaryKey as string);
+            cursor.continue();
+          }
+        };
+      });
+      return keys;
+    }
+
+    delete(key: string): Promise<void> {
+      return this.transaction('readwrite', (store) => {
+        store.delete(key);
+      });
+    }
+
+    clear(): Promise<void> {
+      return this.transaction('readwrite', (store) => {
+        store.clear();
+      });
+    }
+  }
+
+  let storage: CacheStorage | null = null;
+
+  /**
+   * Changes where entries are stored, for example to use something other than IndexedDB.
+   * @param newStorage The new storage, or null to go back to IndexedDB.
+   */
+  export function setStorage(newStorage: CacheStorage | null) {
+    storage = newStorage;
+  }
+
+  function getStorage(): CacheStorage | null {
+    if (!storage && typeof indexedDB !== 'undefined') {
+      storage = new IndexedDBStorage();
+    }
+    return storage;
+  }
+
+  /**
+   * Removes all entries.
+   */
+  export function clear(): Promise<void> {
+    const storage = getStorage();
+    if (!storage) {
+      return Promise.resolve();
+    }
+    return storage.clear();
+  }
+
+  async function sha256(text: string): Promise<string> {
+    const data = new TextEncoder().encode(text);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    let hash = '';
+    for (let i = 0; i < digest.length; i++) {
+      hash += (digest[i] < 16 ? '0' : '') + digest[i].toString(16);
+    }
+    return hash;
+  }
+
+  /**
+   * Determines the key of a project.
+   * @param format 'sb2' or 'sb3'
+   * @param projectData The parsed project.json, before the loader changes anything in it
+   * @param extensions The custom extensions that the project uses
+   */
+  export async function getKey(format: string, projectData: unknown, extensions: P.ext.custom.ExtensionDefinition[]): Promise<string> {
+    let key = format + ':' + await sha256(JSON.stringify(projectData));
+    // Options that change the generated code must also change the key.
+    const options: string[] = [];
+    if (P.config.debug) {
+      options.push('debug');
+    }
+    if (P.config.enableDebugger) {
+      options.push('debugger');
+    }
+    if (P.config.experimentalOptimizations) {
+      options.push('experimental');
+    }
+    if (P.config.optimizeScripts) {
+      options.push('optimized');
+    }
+    if (P.config.useInterpreter) {
+      options.push('interpreter');
+    }
+    if (options.length) {
+      key += ':' + options.join(',');
+    }
+    if (extensions.length) {
+      // Changing the compilers of an extension changes the key, so code compiled by an older version is not used.
+      const fingerprints = extensions.map((i) => P.ext.custom.getFingerprint(i));
+      key += ':' + extensions.map((i) => i.id).join(',') + ':' + await sha256(fingerprints.join('\n'));
+    }
+    return key;
+  }
+
+  /**
+   * Removes the least recently saved entries until at most MAX_ENTRIES remain.
+   */
+  async function removeOldEntries(storage: CacheStorage): Promise<void> {
+    const keys = await storage.keys();
+    for (let i = 0; i < keys.length - MAX_ENTRIES; i++) {
+      await storage.delete(keys[i]);
+    }
+  }
+
+  function encodeSounds(buffers: ObjectMap<AudioBuffer>): ObjectMap<DecodedSound> {
+    const sounds: ObjectMap<DecodedSound> = {};
+    let bytes = 0;
+    for (const path of Object.keys(buffers)) {
+      const buffer = buffers[path];
+      bytes += buffer.length * buffer.numberOfChannels * 4;
+      if (bytes > MAX_SOUND_BYTES) {
+        return {};
+      }
+      const channels: Float32Array[] = [];
+      for (let i = 0; i < buffer.numberOfChannels; i++) {
+        channels.push(buffer.getChannelData(i));
+      }
+      sounds[path] = {
+        sampleRate: buffer.sampleRate,
+        channels,
+      };
+    }
+    return sounds;
+  }
+
+  function decodeSound(sound: DecodedSound): AudioBuffer | null {
+    const context = P.audio.context;
+    if (!context || sound.channels.length === 0) {
+      return null;
+    }
+    const buffer = context.createBuffer(sound.channels.length, sound.channels[0].length, sound.sampleRate);
+    for (let i = 0; i < sound.channels.length; i++) {
+      buffer.copyToChannel(sound.channels[i], i);
+    }
+    return buffer;
+  }
+
+  /**
+   * The cache of one project, used by a loader.
+   */
+  export class ProjectCache {
+    /**
+     * The entry of the project, if it was found in the cache.
+     */
+    public entry: CacheEntry | null = null;
+    private decodedSounds: ObjectMap<AudioBuffer> = {};
+
+    constructor(private storage: CacheStorage, public key: string) {
+
+    }
+
+    /**
+     * Finds a project in the cache.
+     * @returns null if the cache is disabled or does not work, otherwise a cache that may or may not have an entry.
+     * @see getKey
+     */
+    static async open(format: string, projectData: unknown, extensions: P.ext.custom.ExtensionDefinition[] = []): Promise<ProjectCache | null> {
+      // The interpreter does not generate code.
+      if (!P.config.cacheCompiledProjects || P.config.useInterpreter) {
+        return null;
+      }
+      const storage = getStorage();
+      if (!storage || typeof crypto === 'undefined' || !crypto.subtle) {
+        return null;
+      }
+      try {
+        const cache = new ProjectCache(storage, await getKey(format, projectData, extensions));
+        const entry = await storage.get(cache.key);
+        if (entry && entry.version === COMPILER_VERSION) {
+          cache.entry = entry;
+        }
+        return cache;
+      } catch (e) {
+        console.warn('Could not read compiled project cache', e);
+        return null;
+      }
+    }
+
+    /**
+     * Gets a sound from the entry.
+     * @param path The file name of the sound in the project
+     */
+    getSound(path: string): AudioBuffer | null {
+      if (!this.entry || !this.entry.sounds[path]) {
+        return null;
+      }
+      return decodeSound(this.entry.sounds[path]);
+    }
+
+    /**
+     * Remembers a sound that was decoded so that it will be saved.
+     */
+    addSound(path: string, buffer: AudioBuffer) {
+      this.decodedSounds[path] = buffer;
+    }
+
+    /**
+     * Saves the compiled scripts and the sounds of the project, then removes the oldest entries if there are too many.
+     * Errors are logged, not thrown.
+     */
+    save(scripts: P.sb3.bundle.CompiledProject | P.sb2.compiler.CompiledProject): Promise<void> {
+      const entry: CacheEntry = {
+        key: this.key,
+        version: COMPILER_VERSION,
+        savedAt: Date.now(),
+        scripts,
+        sounds: encodeSounds(this.decodedSounds),
+      };
+      return this.storage.put(entry)
+        .then(() => removeOldEntries(this.storage))
+        .catch((e) => {
+          console.warn('Could not save compiled project to cache', e);
+        });
+    }
+  }
+}
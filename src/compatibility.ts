@@ -0,0 +1,107 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="core.ts" />
+
+/**
+ * Collects problems that the compilers find while loading a project, such as blocks that are not supported.
+ */
+namespace P.compatibility {
+  /**
+   * How much a problem is expected to change the behavior of a project.
+   * error: a block is not supported and will do nothing.
+   * warning: the project data is unusual and a block may not behave like in Scratch.
+   */
+  export type Severity = 'error' | 'warning';
+
+  export interface ReportEntry {
+    /** A short description of the problem, like "unknown statement" */
+    message: string;
+    /** The opcode of the block, or an empty string if the problem is not related to a block. */
+    opcode: string;
+    /** The name of the sprite, or "Stage" */
+    sprite: string;
+    /** The ID of the block, if known. Scratch 2 blocks do not have IDs. */
+    blockId: string | null;
+    severity: Severity;
+    /** How many times the problem was found. */
+    count: number;
+  }
+
+  /**
+   * A list of problems found in a project.
+   * Problems with the same message, opcode, sprite and block are combined into one entry.
+   */
+  export class CompatibilityReport {
+    public entries: ReportEntry[] = [];
+    private entryMap: ObjectMap<ReportEntry> = Object.create(null);
+
+    /**
+     * Adds a problem to the report.
+     * @returns The entry of the problem
+     */
+    add(target: P.core.Base, severity: Severity, message: string, opcode: string, blockId: string | null = null): ReportEntry {
+      return this.addEntry({
+        message,
+        opcode,
+        sprite: target.isStage ? 'Stage' : target.name,
+        blockId,
+        severity,
+        count: 1,
+      });
+    }
+
+    /**
+     * Adds an entry to the report, such as one from another report.
+     * @returns The entry of the problem, which is not the same object as the given entry.
+     */
+    addEntry(entry: ReportEntry): ReportEntry {
+      const key = JSON.stringify([entry.message, entry.opcode, entry.sprite, entry.blockId]);
+      const existingEntry = this.entryMap[key];
+      if (existingEntry) {
+        existingEntry.count += entry.count;
+        return existingEntry;
+      }
+      const newEntry: ReportEntry = {
+        message: entry.message,
+        opcode: entry.opcode,
+        sprite: entry.sprite,
+        blockId: entry.blockId,
+        severity: entry.severity,
+        count: entry.count,
+      };
+      this.entryMap[key] = newEntry;
+      this.entries.push(newEntry);
+      return newEntry;
+    }
+
+    /**
+     * Gets the entries with a certain severity.
+     */
+    getEntries(severity: Severity): ReportEntry[] {
+      return this.entries.filter((i) => i.severity === severity);
+    }
+
+    /**
+     * Gets the opcodes of all blocks that are not supported, without duplicates.
+     */
+    getUnsupportedOpcodes(): string[] {
+      const opcodes: string[] = [];
+      for (const entry of this.getEntries('error')) {
+        if (entry.opcode && opcodes.indexOf(entry.opcode) === -1) {
+          opcodes.push(entry.opcode);
+        }
+      }
+      return opcodes;
+    }
+
+    /**
+     * Determines whether the project uses any blocks that are not supported.
+     */
+    hasUnsupportedBlocks(): boolean {
+      return this.getEntries('error').length > 0;
+    }
+
+    isEmpty(): boolean {
+      return this.entries.length === 0;
+    }
+  }
+}
@@ -3,8 +3,31 @@
 namespace P.config {
   export var debug = false;
   export var useWebGL = false;
+  export var useInterpreter = false;
   export var supportVideoSensing = false;
   export var experimentalOptimizations = false;
+  export var optimizeScripts = false;
+  export var lazyCompilation = false;
+  export var cacheCompiledProjects = false;
+  /**
+   * Whether the data of Scratch 3 assets is checked against the MD5 hash in their name while loading.
+   * 'warn' adds a warning to the loader and uses the data anyway. 'placeholder' uses a placeholder instead.
+   */
+  export var assetIntegrity: 'off' | 'warn' | 'placeholder' = 'off';
+  /**
+   * Whether costumes and sounds that cannot be loaded are replaced with placeholders instead of failing to load the
+   * project. The loader lists them in its substitutions.
+   */
+  export var repairProjects = false;
+  /**
+   * Whether Scratch 3 projects start once the costumes they show first have loaded.
+   * Their other costumes load and their sounds are decoded in the background.
+   */
+  export var progressiveLoading = false;
+  export var enableDebugger = false;
+  export var headless = false;
   export var scale = window.devicePixelRatio || 1;
   export var PROJECT_API: string = 'https://projects.scratch.mit.edu/$id';
+  /** Used by the translate blocks when set. Otherwise they only know the phrases of P.ext.translate.dictionary. */
+  export var TRANSLATE_API: string = '';
 }
@@ -51,6 +51,84 @@ namespace P.core {
     pitch: number;
   }
 
+  export interface PenColorState {
+    x: number;
+    y: number;
+    z: number;
+    a: number;
+    mode: number;
+  }
+
+  /**
+   * A list of a sprite or the stage.
+   */
+  export interface List extends Array<any> {
+    /**
+     * Set when the list changes, so that watchers of the list know to update.
+     */
+    modified?: boolean;
+  }
+
+  /**
+   * The saved state of a sprite or stage. Contains only JSON-compatible data.
+   */
+  export interface BaseState {
+    name: string;
+    isClone: boolean;
+    vars: ObjectMap<any>;
+    lists: ObjectMap<any[]>;
+    currentCostumeIndex: number;
+    instrument: number;
+    volume: number;
+    visible: boolean;
+    filters: Filters;
+    soundFilters: SoundFilters;
+    penSize: number;
+    penColor: PenColorState;
+    isPenDown: boolean;
+    bubble: { text: string; thinking: boolean; } | null;
+  }
+
+  export interface SpriteState extends BaseState {
+    scratchX: number;
+    scratchY: number;
+    direction: number;
+    rotationStyle: RotationStyle;
+    isDraggable: boolean;
+    scale: number;
+  }
+
+  /**
+   * A saved state of an entire project, as created by Stage.snapshot()
+   */
+  export interface StageSnapshot {
+    /**
+     * The state of the stage followed by the state of every sprite and clone, in layer order from back to front.
+     */
+    targets: BaseState[];
+    /**
+     * The value of the timer, in milliseconds.
+     */
+    timer: number;
+    answer: string;
+    tempoBPM: number;
+    promptId: number;
+    nextPromptId: number;
+    /**
+     * The question shown in the prompt, if it is open and has its own title.
+     */
+    promptTitle: string | null;
+    threads: P.runtime.ThreadState[];
+    /**
+     * The state of the random numbers used with a virtual clock.
+     */
+    randomState: number;
+    /**
+     * The pen layer as a data: URL of a PNG image, or null if the renderer does not draw anything.
+     */
+    pen: string | null;
+  }
+
   export const enum RotationStyle {
     /**
      * Indicates this sprite may rotate in any direction.
@@ -76,10 +154,11 @@ namespace P.core {
   const enum PenMode { RGBA, HSLA, HSVA };
 
   export class PenColor {
-    private x: number = 0;
-    private y: number = 0;
-    private z: number = 255;
-    private a: number = 1;
+    // The components are used directly by the legacy pen hue and shade blocks.
+    public x: number = 0;
+    public y: number = 0;
+    public z: number = 255;
+    public a: number = 1;
     private mode: PenMode = PenMode.RGBA;
     private css: string = 'rgba(0, 0, 255, 1)';
 
@@ -225,6 +304,28 @@ namespace P.core {
       }
     }
 
+    /**
+     * Get the internal state of this color, which can be restored with setState()
+     */
+    getState(): PenColorState {
+      return {
+        x: this.x,
+        y: this.y,
+        z: this.z,
+        a: this.a,
+        mode: this.mode,
+      };
+    }
+
+    setState(state: PenColorState) {
+      this.x = state.x;
+      this.y = state.y;
+      this.z = state.z;
+      this.a = state.a;
+      this.mode = state.mode as PenMode;
+      this.css = 'rgba(' + this.x + ', ' + this.y + ', ' + this.z + ', ' + this.a + ')';
+    }
+
     copy(other: PenColor) {
       this.x = other.x;
       this.y = other.y;
@@ -328,7 +429,7 @@ namespace P.core {
      * Maps list names (or ids) to their list.
      * Each list can contain objects of any type, and should be converted first.
      */
-    public lists: ObjectMap<Array<any>> = {};
+    public lists: ObjectMap<List> = {};
     /**
      * Is this object saying something?
      */
@@ -383,6 +484,68 @@ namespace P.core {
       this.sounds.push(sound);
     }
 
+    // Saving and restoring
+
+    /**
+     * Get the state of this object, which can be restored with loadState()
+     */
+    saveState(): BaseState {
+      const lists: ObjectMap<any[]> = {};
+      for (const key of Object.keys(this.lists)) {
+        lists[key] = this.lists[key].slice(0);
+      }
+      return {
+        name: this.name,
+        isClone: this.isClone,
+        vars: { ...this.vars },
+        lists,
+        currentCostumeIndex: this.currentCostumeIndex,
+        instrument: this.instrument,
+        volume: this.volume,
+        visible: this.visible,
+        filters: { ...this.filters },
+        soundFilters: { ...this.soundFilters },
+        penSize: this.penSize,
+        penColor: this.penColor.getState(),
+        isPenDown: this.isPenDown,
+        bubble: this.saying ? { text: this.bubbleText.data, thinking: this.thinking } : null,
+      };
+    }
+
+    loadState(state: BaseState) {
+      for (const key of Object.keys(state.vars)) {
+        this.vars[key] = state.vars[key];
+      }
+      for (const key of Object.keys(state.lists)) {
+        // Lists are modified in place as compiled scripts and watchers may hold references to them.
+        const list = this.lists[key] || (this.lists[key] = []);
+        list.length = 0;
+        for (const item of state.lists[key]) {
+          list.push(item);
+        }
+        list.modified = true;
+      }
+      this.currentCostumeIndex = state.currentCostumeIndex;
+      this.instrument = state.instrument;
+      this.volume = state.volume;
+      if (this.node) {
+        this.node.gain.value = this.volume;
+      }
+      this.visible = state.visible;
+      for (const name of Object.keys(state.filters)) {
+        this.setFilter(name, state.filters[name]);
+      }
+      this.soundFilters = { ...state.soundFilters };
+      this.penSize = state.penSize;
+      this.penColor.setState(state.penColor);
+      this.isPenDown = state.isPenDown;
+      if (state.bubble) {
+        this.say(state.bubble.text, state.bubble.thinking);
+      } else if (this.saying) {
+        this.say('');
+      }
+    }
+
     // Implementations of Scratch blocks
 
     showVariable(name: string, visible: boolean) {
@@ -641,6 +804,7 @@ namespace P.core {
       this.bubbleContainer.style.display = 'block';
       this.bubbleText.nodeValue = text;
       this.updateBubble();
+      this.stage.runtime.handleSay(this, text, thinking);
       return ++this.sayId;
     }
 
@@ -830,14 +994,25 @@ namespace P.core {
     public cloudHandler: P.ext.cloud.CloudHandler | null = null;
     public cloudVariables: string[] = [];
 
-    private videoElement: HTMLVideoElement;
+    public videoSensing: P.ext.video.VideoSensingExtension | null = null;
     public microphone: P.ext.microphone.MicrophoneExtension | null = null;
     public tts: P.ext.tts.TextToSpeechExtension | null = null;
+    public translate: P.ext.translate.TranslateExtension | null = null;
     private extensions: P.ext.Extension[] = [];
 
     public useSpriteFencing: boolean = false;
     public removeLimits: boolean = false;
 
+    /**
+     * Records the input that this stage receives, if set.
+     */
+    public inputRecorder: P.recorder.InputRecorder | null = null;
+
+    /**
+     * Problems that were found while compiling the project's scripts.
+     */
+    public compatibility: P.compatibility.CompatibilityReport = new P.compatibility.CompatibilityReport();
+
     constructor() {
       super();
 
@@ -849,7 +1024,9 @@ namespace P.core {
       this.root = document.createElement('div');
       this.root.classList.add('forkphorus-root');
 
-      if (P.config.useWebGL) {
+      if (P.config.headless) {
+        this.renderer = new P.renderer.headless.HeadlessProjectRenderer(this);
+      } else if (P.config.useWebGL) {
         this.renderer = new P.renderer.webgl.WebGLProjectRenderer(this);
       } else {
         this.renderer = new P.renderer.canvas2d.ProjectRenderer2D(this);
@@ -959,9 +1136,9 @@ namespace P.core {
     private _onwheel(e: WheelEvent) {
       // Scroll up/down triggers key listeners for up/down arrows, but without affecting "is key pressed?" blocks
       if (e.deltaY > 0) {
-        this.runtime.trigger('whenKeyPressed', SpecialKeys.Down);
+        this.triggerKey(SpecialKeys.Down);
       } else if (e.deltaY < 0) {
-        this.runtime.trigger('whenKeyPressed', SpecialKeys.Up);
+        this.triggerKey(SpecialKeys.Up);
       }
     }
 
@@ -985,8 +1162,7 @@ namespace P.core {
     private _onkeyup(e: KeyboardEvent) {
       const c = this.keyEventToCode(e);
       if (c === null) return;
-      if (this.keys[c]) this.keys.any--;
-      this.keys[c] = false;
+      this.releaseKey(c);
       e.stopPropagation();
       if (e.target === this.canvas) {
         e.preventDefault();
@@ -996,13 +1172,12 @@ namespace P.core {
     private _onkeydown(e: KeyboardEvent) {
       const c = this.keyEventToCode(e);
       if (c === null) return;
-      if (!this.keys[c]) this.keys.any++;
-      this.keys[c] = true;
+      this.pressKey(c);
       if (e.ctrlKey || e.altKey || e.metaKey || c === '27') return;
       e.stopPropagation();
       if (e.target === this.canvas) {
         e.preventDefault();
-        this.runtime.trigger('whenKeyPressed', c);
+        this.triggerKey(c);
       }
     }
 
@@ -1010,7 +1185,7 @@ namespace P.core {
       if (!this.runtime.isRunning) return;
 
       this.updateMousePosition(e);
-      this.mousePressed = true;
+      this.pressMouse();
 
       if (e.target === this.canvas) {
         this.clickMouse();
@@ -1049,7 +1224,7 @@ namespace P.core {
     private _ontouchstart(e: TouchEvent) {
       if (!this.runtime.isRunning) return;
 
-      this.mousePressed = true;
+      this.pressMouse();
 
       for (var i = 0; i < e.changedTouches.length; i++) {
         const t = e.changedTouches[i];
@@ -1125,10 +1300,30 @@ namespace P.core {
       }
     }
 
+    /**
+     * Passes an input event to the input recorder, if any.
+     */
+    private recordInput(event: P.recorder.InputEventData) {
+      if (this.inputRecorder) {
+        this.inputRecorder.record(event);
+      }
+    }
+
+    /**
+     * Updates the mouse position from the client coordinates of an event.
+     */
     updateMousePosition(e) {
       var rect = this.canvas.getBoundingClientRect();
       var x = (e.clientX - rect.left) / this.zoom - 240;
       var y = 180 - (e.clientY - rect.top) / this.zoom;
+      this.setMousePosition(x, y);
+    }
+
+    /**
+     * Updates the mouse position from Scratch coordinates.
+     */
+    setMousePosition(x: number, y: number) {
+      this.recordInput({ type: 'mousemove', x, y });
       this.rawMouseX = x;
       this.rawMouseY = y;
       if (x < -240) x = -240;
@@ -1157,7 +1352,13 @@ namespace P.core {
       }
     }
 
+    pressMouse() {
+      this.recordInput({ type: 'mousedown' });
+      this.mousePressed = true;
+    }
+
     clickMouse() {
+      this.recordInput({ type: 'click' });
       this.mouseSprite = undefined;
       for (var i = this.children.length; i--;) {
         var c = this.children[i];
@@ -1175,6 +1376,7 @@ namespace P.core {
     }
 
     releaseMouse() {
+      this.recordInput({ type: 'mouseup' });
       this.mousePressed = false;
       if (this.mouseSprite) {
         this.mouseSprite.mouseUp();
@@ -1182,6 +1384,30 @@ namespace P.core {
       }
     }
 
+    /**
+     * Marks a key as held down.
+     * Does not run "when key pressed" scripts, use triggerKey() for that.
+     */
+    pressKey(code: string) {
+      this.recordInput({ type: 'keydown', key: code });
+      if (!this.keys[code]) this.keys.any++;
+      this.keys[code] = true;
+    }
+
+    releaseKey(code: string) {
+      this.recordInput({ type: 'keyup', key: code });
+      if (this.keys[code]) this.keys.any--;
+      this.keys[code] = false;
+    }
+
+    /**
+     * Runs the "when key pressed" scripts for a key.
+     */
+    triggerKey(code: string) {
+      this.recordInput({ type: 'keypress', key: code });
+      this.runtime.trigger('whenKeyPressed', code);
+    }
+
     setFilter(name: string, value: number) {
       // Override setFilter() to update the filters on the real stage.
       super.setFilter(name, value);
@@ -1234,8 +1460,8 @@ namespace P.core {
           y: this.mouseY,
         };
         case SpecialObjects.Random: return {
-          x: Math.round(480 * Math.random() - 240),
-          y: Math.round(360 * Math.random() - 180),
+          x: Math.round(480 * this.stage.runtime.random() - 240),
+          y: Math.round(360 * this.stage.runtime.random() - 180),
         };
       }
 
@@ -1268,29 +1494,16 @@ namespace P.core {
     }
 
     showVideo(visible: boolean) {
-      if (P.config.supportVideoSensing) {
-        if (visible) {
-          if (!this.videoElement) {
-            this.videoElement = document.createElement('video');
-            this.videoElement.onloadedmetadata = () => {
-              this.videoElement.play();
-            };
-            this.videoElement.style.opacity = '0.5';
-            this.root.insertBefore(this.videoElement, this.canvas);
-            navigator.mediaDevices.getUserMedia({video: true, audio: false})
-              .then((stream) => this.videoElement.srcObject = stream);
-          }
-          this.videoElement.style.display = 'block';
-        } else {
-          if (this.videoElement) {
-            this.videoElement.style.display = 'none';
-          }
-        }
-      }
+      this.initVideoSensing();
+      this.videoSensing!.setVideoState(visible ? 'on' : 'off');
     }
 
     addExtension(extension: P.ext.Extension) {
       this.extensions.push(extension);
+      // Extensions can be added while the project runs, such as by scripts that are compiled lazily.
+      if (this.runtime.isRunning) {
+        extension.onstart();
+      }
     }
 
     initMicrophone() {
@@ -1300,6 +1513,13 @@ namespace P.core {
       }
     }
 
+    initVideoSensing() {
+      if (!this.videoSensing) {
+        this.videoSensing = new P.ext.video.VideoSensingExtension(this);
+        this.addExtension(this.videoSensing);
+      }
+    }
+
     initTextToSpeech() {
       if (!this.tts) {
         this.tts = new P.ext.tts.TextToSpeechExtension(this);
@@ -1307,6 +1527,13 @@ namespace P.core {
       }
     }
 
+    initTranslate() {
+      if (!this.translate) {
+        this.translate = new P.ext.translate.TranslateExtension(this);
+        this.addExtension(this.translate);
+      }
+    }
+
     setCloudHandler(cloudHandler: P.ext.cloud.CloudHandler) {
       this.cloudHandler = cloudHandler;
       this.addExtension(cloudHandler);
@@ -1372,8 +1599,83 @@ namespace P.core {
       return false;
     }
 
+    /**
+     * Save the state of the project, including its variables, sprites, clones, pen layer, and running scripts.
+     * The result only contains JSON-compatible data, and can be given to restore() later.
+     * Scripts run by the interpreter are saved as if they had just started, see Runtime.saveThreads().
+     */
+    snapshot(): StageSnapshot {
+      const targets: Base[] = [this, ...this.children];
+      return {
+        targets: targets.map((i) => i.saveState()),
+        timer: this.runtime.now() - this.runtime.timerStart,
+        answer: this.answer,
+        tempoBPM: this.tempoBPM,
+        promptId: this.promptId,
+        nextPromptId: this.nextPromptId,
+        promptTitle: this.promptTitle.style.display === 'none' ? null : this.promptTitle.textContent,
+        threads: this.runtime.saveThreads(targets),
+        randomState: this.runtime.randomState,
+        pen: this.renderer.penSave(),
+      };
+    }
+
+    /**
+     * Restore the state of the project from a snapshot made by snapshot()
+     * Everything except the pen layer is restored immediately. The pen layer is restored when the returned promise
+     * resolves, so the runtime should not be started before that.
+     */
+    restore(snapshot: StageSnapshot): Promise<void> {
+      this.runtime.stopAll();
+
+      const children: Sprite[] = [];
+      for (let i = 1; i < snapshot.targets.length; i++) {
+        const state = snapshot.targets[i] as SpriteState;
+        const original = this.getObject(state.name);
+        if (!original || !isSprite(original)) {
+          throw new Error('Cannot restore unknown sprite: ' + state.name);
+        }
+        const sprite = state.isClone ? original.clone() : original;
+        sprite.loadState(state);
+        children.push(sprite);
+      }
+      this.children = children;
+      this.loadState(snapshot.targets[0]);
+
+      this.runtime.timerStart = this.runtime.now() - snapshot.timer;
+      this.runtime.randomState = snapshot.randomState >>> 0;
+      this.answer = snapshot.answer;
+      this.tempoBPM = snapshot.tempoBPM;
+      this.promptId = snapshot.promptId;
+      this.nextPromptId = snapshot.nextPromptId;
+      if (this.promptId < this.nextPromptId) {
+        this.promptTitle.style.display = snapshot.promptTitle === null ? 'none' : 'block';
+        this.promptTitle.textContent = snapshot.promptTitle;
+        this.prompter.style.display = 'block';
+        this.prompt.value = '';
+      }
+      this.runtime.restoreThreads([this, ...children], snapshot.threads);
+
+      this.renderer.penClear();
+      if (!snapshot.pen) {
+        return Promise.resolve();
+      }
+      return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+          this.renderer.penRestore(image);
+          resolve();
+        };
+        image.onerror = () => {
+          reject(new Error('Could not load the pen layer of the snapshot'));
+        };
+        image.src = snapshot.pen!;
+      });
+    }
+
     submitPrompt() {
       if (this.promptId < this.nextPromptId) {
+        this.recordInput({ type: 'answer', value: this.prompt.value });
         this.answer = this.prompt.value;
         this.promptId += 1;
         if (this.promptId >= this.nextPromptId) {
@@ -1574,6 +1876,29 @@ namespace P.core {
       if (this.saying) this.updateBubble();
     }
 
+    saveState(): SpriteState {
+      return {
+        ...super.saveState(),
+        scratchX: this.scratchX,
+        scratchY: this.scratchY,
+        direction: this.direction,
+        rotationStyle: this.rotationStyle,
+        isDraggable: this.isDraggable,
+        scale: this.scale,
+      };
+    }
+
+    loadState(state: SpriteState) {
+      super.loadState(state);
+      this.scratchX = state.scratchX;
+      this.scratchY = state.scratchY;
+      this.direction = state.direction;
+      this.rotationStyle = state.rotationStyle;
+      this.isDraggable = state.isDraggable;
+      this.scale = state.scale;
+      if (this.saying) this.updateBubble();
+    }
+
     // Clones this sprite.
     clone() {
       const clone = this._clone();
@@ -1824,6 +2149,42 @@ namespace P.core {
     }
   }
 
+  /**
+   * Creates a costume to use instead of one that cannot be used: a box with a cross that keeps the rotation center.
+   */
+  export function createPlaceholderCostume(options: CostumeOptions): BitmapCostume {
+    const minimumSize = 32 * options.bitmapResolution;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(minimumSize, Math.ceil(Math.abs(options.rotationCenterX) * 2) || 0);
+    canvas.height = Math.max(minimumSize, Math.ceil(Math.abs(options.rotationCenterY) * 2) || 0);
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const lineWidth = 2 * options.bitmapResolution;
+      ctx.fillStyle = 'rgba(128, 128, 128, 0.5)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.strokeStyle = '#ff0000';
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(lineWidth / 2, lineWidth / 2, canvas.width - lineWidth, canvas.height - lineWidth);
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(canvas.width, canvas.height);
+      ctx.moveTo(canvas.width, 0);
+      ctx.lineTo(0, canvas.height);
+      ctx.stroke();
+    }
+    return new BitmapCostume(canvas, options);
+  }
+
+  /**
+   * Creates an empty costume to use while a costume loads in the background. It keeps the rotation center.
+   */
+  export function createEmptyCostume(options: CostumeOptions): BitmapCostume {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    return new BitmapCostume(canvas, options);
+  }
+
   export class VectorCostume extends Costume {
     /** Maximum scale factor of a Vector costume. */
     public static MAX_SCALE = 16;
@@ -1924,22 +2285,48 @@ namespace P.core {
   }
 
   interface SoundOptions {
-    buffer: AudioBuffer;
+    /**
+     * The decoded sound, or a promise of it for sounds that are decoded in the background.
+     * null for sounds that could not be loaded, which are kept so that sounds are numbered like in the editor.
+     */
+    buffer: AudioBuffer | Promise<AudioBuffer | null> | null;
     name: string;
   }
   // A sound
   export class Sound {
     // TODO: Sound doesn't truly need name
     public name: string;
-    public buffer: AudioBuffer;
-    public duration: number;
+    /** null while the sound is decoded in the background, and if it could not be decoded. */
+    public buffer: AudioBuffer | null = null;
+    public duration: number = 0;
     public source: AudioBufferSourceNode | null = null;
+    /** Whether the sound is still being decoded in the background. */
+    public isLoading: boolean = false;
 
     constructor(data: SoundOptions) {
-      if (!data.buffer) throw new Error('no AudioBuffer');
       this.name = data.name;
-      this.buffer = data.buffer;
-      this.duration = this.buffer.duration;
+      if (data.buffer instanceof Promise) {
+        this.isLoading = true;
+        data.buffer
+          .then((buffer) => {
+            if (buffer) {
+              this.setBuffer(buffer);
+            }
+          })
+          .catch((err) => {
+            console.warn('Could not load sound: ' + err);
+          })
+          .then(() => {
+            this.isLoading = false;
+          });
+      } else if (data.buffer) {
+        this.setBuffer(data.buffer);
+      }
+    }
+
+    private setBuffer(buffer: AudioBuffer) {
+      this.buffer = buffer;
+      this.duration = buffer.duration;
     }
 
     createSourceNode() {
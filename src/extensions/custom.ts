@@ -0,0 +1,191 @@
+/// <reference path="../phosphorus.ts" />
+/// <reference path="extension.ts" />
+
+/**
+ * Registration of custom Scratch 3 extensions.
+ *
+ * An extension is activated for a project when the project's `extensions` list contains its ID.
+ * Opcodes of extension blocks start with the extension's ID followed by an underscore, like in Scratch.
+ * Blocks that forkphorus already implements cannot be replaced.
+ */
+namespace P.ext.custom {
+  /**
+   * Interpreter implementations of an extension's blocks, used when P.config.useInterpreter is enabled.
+   */
+  export interface InterpretedBlocks {
+    statements?: ObjectMap<P.sb3.interpreter.StatementInterpreter>;
+    inputs?: ObjectMap<P.sb3.interpreter.InputInterpreter>;
+    hats?: ObjectMap<P.sb3.interpreter.HatInterpreter>;
+  }
+
+  /**
+   * A custom Scratch 3 extension.
+   */
+  export interface ExtensionDefinition {
+    /**
+     * The ID of the extension, as used in projects' `extensions` list. Example: "myext"
+     */
+    id: string;
+    /**
+     * Compilers for statements, keyed by opcode.
+     */
+    statements?: ObjectMap<P.sb3.compiler.StatementCompiler>;
+    /**
+     * Compilers for inputs, keyed by opcode.
+     */
+    inputs?: ObjectMap<P.sb3.compiler.InputCompiler>;
+    /**
+     * Compilers for hats, keyed by opcode.
+     */
+    hats?: ObjectMap<P.sb3.compiler.HatCompiler>;
+    /**
+     * Values that monitors can watch, keyed by opcode.
+     */
+    watchers?: ObjectMap<P.sb3.compiler.WatchedValue>;
+    /**
+     * An object that compiled scripts can call.
+     * Compilers get a reference to it from BlockUtil.getExtensionRuntime()
+     */
+    runtime?: any;
+    /**
+     * A class that is created for each stage that uses the extension, to receive lifecycle events.
+     */
+    extension?: new (stage: P.core.Stage) => P.ext.Extension;
+    /**
+     * Implementations of the blocks for the interpreter.
+     * Without them, the blocks of the extension are unknown to the interpreter.
+     */
+    interpreter?: InterpretedBlocks;
+  }
+
+  /**
+   * All registered extensions, keyed by ID.
+   * Compiled scripts access the runtime objects through this map.
+   */
+  export const registeredExtensions: ObjectMap<ExtensionDefinition> = Object.create(null);
+
+  const stageExtensions: WeakMap<P.core.Stage, ObjectMap<P.ext.Extension>> = new WeakMap();
+
+  /**
+   * Registers a custom extension. Projects loaded afterwards can use it.
+   * @throws If an extension with the same ID is already registered.
+   */
+  export function register(definition: ExtensionDefinition) {
+    if (!/^[a-zA-Z0-9]+$/.test(definition.id)) {
+      throw new Error('Invalid extension ID: ' + definition.id);
+    }
+    if (registeredExtensions[definition.id]) {
+      throw new Error('Extension is already registered: ' + definition.id);
+    }
+    registeredExtensions[definition.id] = definition;
+  }
+
+  /**
+   * Removes a custom extension.
+   * Projects that were loaded with the extension must not run afterwards, as their scripts refer to its runtime object.
+   */
+  export function unregister(id: string) {
+    delete registeredExtensions[id];
+  }
+
+  /**
+   * Gets a registered extension, or null if there is none with that ID.
+   */
+  export function getExtension(id: string): ExtensionDefinition | null {
+    return registeredExtensions[id] || null;
+  }
+
+  /**
+   * Gets the ID of the extension that an opcode belongs to.
+   */
+  export function getExtensionId(opcode: string): string {
+    return opcode.split('_')[0];
+  }
+
+  /**
+   * Finds the registered extensions that a project uses.
+   * @param ids The project's `extensions` list
+   */
+  export function findExtensions(ids: string[]): ExtensionDefinition[] {
+    const result: ExtensionDefinition[] = [];
+    for (const id of ids) {
+      const definition = getExtension(id);
+      if (definition) {
+        result.push(definition);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets a string that changes when the compilers of an extension change.
+   * Compiled projects are cached with it, so code from an older version of an extension is not used.
+   */
+  export function getFingerprint(definition: ExtensionDefinition): string {
+    const parts: string[] = [definition.id];
+    const addLibrary = (library: ObjectMap<any> | undefined) => {
+      if (!library) {
+        return;
+      }
+      for (const opcode of Object.keys(library).sort()) {
+        const compiler = library[opcode];
+        parts.push(opcode);
+        if (typeof compiler === 'function') {
+          parts.push('' + compiler);
+        } else {
+          // Hat compilers are objects of functions.
+          for (const key of Object.keys(compiler).sort()) {
+            parts.push(key + ':' + compiler[key]);
+          }
+        }
+      }
+    };
+    addLibrary(definition.statements);
+    addLibrary(definition.inputs);
+    addLibrary(definition.hats);
+    return parts.join('\n');
+  }
+
+  /**
+   * Finds the watched value of an opcode in the extensions that a project uses.
+   * @param definitions The extensions of the project, from findExtensions()
+   */
+  export function findWatcher(definitions: ExtensionDefinition[], opcode: string): P.sb3.compiler.WatchedValue | null {
+    const id = getExtensionId(opcode);
+    for (const definition of definitions) {
+      if (definition.id === id && definition.watchers && definition.watchers[opcode]) {
+        return definition.watchers[opcode];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Creates the lifecycle objects of extensions for a stage.
+   */
+  export function activate(stage: P.core.Stage, definitions: ExtensionDefinition[]) {
+    let instances = stageExtensions.get(stage);
+    if (!instances) {
+      instances = {};
+      stageExtensions.set(stage, instances);
+    }
+    for (const definition of definitions) {
+      if (definition.extension && !instances[definition.id]) {
+        const extension = new definition.extension(stage);
+        instances[definition.id] = extension;
+        stage.addExtension(extension);
+      }
+    }
+  }
+
+  /**
+   * Gets the lifecycle object that a stage created for an extension, if any.
+   */
+  export function getInstance(stage: P.core.Stage, id: string): P.ext.Extension | null {
+    const instances = stageExtensions.get(stage);
+    if (instances && instances[id]) {
+      return instances[id];
+    }
+    return null;
+  }
+}
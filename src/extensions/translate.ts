@@ -0,0 +1,484 @@
+/// <reference path="../phosphorus.ts" />
+/// <reference path="../i18n.ts" />
+/// <reference path="extension.ts" />
+
+/**
+ * Translate
+ */
+namespace P.ext.translate {
+  /**
+   * Translates text into a language.
+   */
+  export interface TranslationProvider {
+    /**
+     * @param text The text to translate, in any language
+     * @param language The code of the language to translate to, such as 'es' or 'zh-cn'
+     * @returns The translation, or null if the text cannot be translated.
+     */
+    translate(text: string, language: string): string | null | Promise<string | null>;
+  }
+
+  type Language = { code: string; name: string; nativeName: string; };
+
+  /**
+   * The languages of the translate blocks, from Scratch.
+   */
+  const languages: Language[] = [
+    { code: 'am', name: 'Amharic', nativeName: 'አማርኛ' },
+    { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+    { code: 'az', name: 'Azerbaijani', nativeName: 'Azeri' },
+    { code: 'eu', name: 'Basque', nativeName: 'Euskara' },
+    { code: 'bg', name: 'Bulgarian', nativeName: 'Български' },
+    { code: 'ca', name: 'Catalan', nativeName: 'Català' },
+    { code: 'zh-cn', name: 'Chinese (Simplified)', nativeName: '简体中文' },
+    { code: 'zh-tw', name: 'Chinese (Traditional)', nativeName: '繁體中文' },
+    { code: 'hr', name: 'Croatian', nativeName: 'Hrvatski' },
+    { code: 'cs', name: 'Czech', nativeName: 'Čeština' },
+    { code: 'da', name: 'Danish', nativeName: 'Dansk' },
+    { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+    { code: 'en', name: 'English', nativeName: 'English' },
+    { code: 'et', name: 'Estonian', nativeName: 'Eesti' },
+    { code: 'fi', name: 'Finnish', nativeName: 'Suomi' },
+    { code: 'fr', name: 'French', nativeName: 'Français' },
+    { code: 'gl', name: 'Galician', nativeName: 'Galego' },
+    { code: 'de', name: 'German', nativeName: 'Deutsch' },
+    { code: 'el', name: 'Greek', nativeName: 'Ελληνικά' },
+    { code: 'he', name: 'Hebrew', nativeName: 'עִבְרִית' },
+    { code: 'hu', name: 'Hungarian', nativeName: 'Magyar' },
+    { code: 'is', name: 'Icelandic', nativeName: 'Íslenska' },
+    { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+    { code: 'ga', name: 'Irish', nativeName: 'Gaeilge' },
+    { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+    { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+    { code: 'ko', name: 'Korean', nativeName: '한국어' },
+    { code: 'lv', name: 'Latvian', nativeName: 'Latviešu' },
+    { code: 'lt', name: 'Lithuanian', nativeName: 'Lietuvių' },
+    { code: 'mi', name: 'Maori', nativeName: 'Māori' },
+    { code: 'nb', name: 'Norwegian', nativeName: 'Norsk Bokmål' },
+    { code: 'fa', name: 'Persian', nativeName: 'فارسی' },
+    { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+    { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+    { code: 'ro', name: 'Romanian', nativeName: 'Română' },
+    { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+    { code: 'gd', name: 'Scots Gaelic', nativeName: 'Gàidhlig' },
+    { code: 'sr', name: 'Serbian', nativeName: 'Српски' },
+    { code: 'sk', name: 'Slovak', nativeName: 'Slovenčina' },
+    { code: 'sl', name: 'Slovenian', nativeName: 'Slovenščina' },
+    { code: 'es', name: 'Spanish', nativeName: 'Español' },
+    { code: 'sv', name: 'Swedish', nativeName: 'Svenska' },
+    { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+    { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+    { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+    { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+    { code: 'cy', name: 'Welsh', nativeName: 'Cymraeg' },
+    { code: 'zu', name: 'Zulu', nativeName: 'IsiZulu' },
+  ];
+
+  function findLanguage(code: string): Language | null {
+    code = code.toLowerCase();
+    for (const language of languages) {
+      if (language.code === code) return language;
+    }
+    // Codes with a region that Scratch does not have, such as 'pt-br'
+    if (code.indexOf('-') > -1) {
+      return findLanguage(code.substring(0, code.indexOf('-')));
+    }
+    return null;
+  }
+
+  /**
+   * Finds the code of the language of the viewer, or 'en' if the translate blocks do not have it.
+   */
+  export function getViewerLanguageCode(): string {
+    const language = findLanguage(P.i18n.detectedLanguage);
+    return language ? language.code : 'en';
+  }
+
+  /**
+   * Finds the code of a language from the input of a translate block, which can be a code or a name in English or
+   * in the language itself. Unknown languages are the language of the viewer, like in Scratch.
+   */
+  export function getLanguageCode(value: string): string {
+    const language = findLanguage(value);
+    if (language) {
+      return language.code;
+    }
+    const name = value.toLowerCase();
+    for (const language of languages) {
+      if (language.name.toLowerCase() === name || language.nativeName.toLowerCase() === name) {
+        return language.code;
+      }
+    }
+    return getViewerLanguageCode();
+  }
+
+  function normalizePhrase(text: string): string {
+    return text.trim().toLowerCase();
+  }
+
+  /**
+   * Translates the phrases of a dictionary without using the network.
+   */
+  export class DictionaryTranslationProvider implements TranslationProvider {
+    /**
+     * Phrases in English mapped to their translations, by language code.
+     */
+    private phrases: Map<string, Map<string, string>> = new Map();
+    /**
+     * Phrases in every language mapped to the phrase in English.
+     */
+    private englishPhrases: Map<string, string> = new Map();
+
+    /**
+     * @param translations Phrases in English mapped to their translation in the language
+     */
+    addPhrases(language: string, translations: ObjectMap<string>) {
+      language = language.toLowerCase();
+      for (const english of Object.keys(translations)) {
+        const key = normalizePhrase(english);
+        let phraseTranslations = this.phrases.get(key);
+        if (!phraseTranslations) {
+          phraseTranslations = new Map();
+          this.phrases.set(key, phraseTranslations);
+        }
+        phraseTranslations.set(language, translations[english]);
+        this.englishPhrases.set(key, key);
+        // Phrases in English take precedence over translations that are spelled the same.
+        // A translation of more than one phrase, like "bonjour" for "hello" and "good morning", means the first phrase.
+        const translationKey = normalizePhrase(translations[english]);
+        if (!this.englishPhrases.has(translationKey)) {
+          this.englishPhrases.set(translationKey, key);
+        }
+      }
+    }
+
+    translate(text: string, language: string): string | null {
+      const english = this.englishPhrases.get(normalizePhrase(text));
+      if (english === undefined) {
+        return null;
+      }
+      const translation = language === 'en' ? english : this.phrases.get(english)!.get(language);
+      if (translation === undefined) {
+        return null;
+      }
+      // "Hello" becomes "Hola"
+      const first = text.trim().charAt(0);
+      if (first !== first.toLowerCase()) {
+        return translation.charAt(0).toUpperCase() + translation.substring(1);
+      }
+      return translation;
+    }
+  }
+
+  /**
+   * Translates text with an HTTP API that works like Scratch's translate service:
+   * GET endpoint?language=es&text=hello responds with {"result": "hola"}
+   */
+  export class HttpTranslationProvider implements TranslationProvider {
+    /**
+     * @param endpoint The URL of the API, which can be a local server.
+     * @param fallback Used when the API does not respond, or null to leave the text unchanged.
+     */
+    constructor(public endpoint: string, public fallback: TranslationProvider | null = null) {
+
+    }
+
+    async translate(text: string, language: string): Promise<string | null> {
+      const url = this.endpoint +
+        (this.endpoint.indexOf('?') > -1 ? '&' : '?') +
+        'language=' + encodeURIComponent(language) +
+        '&text=' + encodeURIComponent(text);
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error('HTTP status ' + response.status);
+        }
+        const data = await response.json();
+        if (typeof data.result !== 'string') {
+          throw new Error('Response has no result');
+        }
+        return data.result;
+      } catch (e) {
+        console.warn('Could not translate', text, e);
+        return this.fallback ? this.fallback.translate(text, language) : null;
+      }
+    }
+  }
+
+  /**
+   * The bundled phrases. Add to them with dictionary.addPhrases().
+   */
+  export const dictionary = new DictionaryTranslationProvider();
+
+  type TranslationProviderFactory = (stage: P.core.Stage) => TranslationProvider;
+
+  /**
+   * By default, an HTTP API is only used when P.config.TRANSLATE_API is set.
+   */
+  let createProvider: TranslationProviderFactory = (stage) => {
+    if (!P.config.TRANSLATE_API) {
+      return dictionary;
+    }
+    return new HttpTranslationProvider(P.config.TRANSLATE_API, dictionary);
+  };
+
+  /**
+   * Changes how stages that start using the translate blocks translate text.
+   */
+  export function setProvider(factory: TranslationProviderFactory) {
+    createProvider = factory;
+  }
+
+  export class TranslateExtension extends P.ext.Extension {
+    private provider: TranslationProvider;
+    /**
+     * Translations from providers that respond asynchronously, by language and text.
+     */
+    private translations: Map<string, string> = new Map();
+    /**
+     * Translations that providers have not finished, by language and text.
+     */
+    private pending: Map<string, Promise<void>> = new Map();
+
+    constructor(stage: P.core.Stage) {
+      super(stage);
+      this.provider = createProvider(stage);
+    }
+
+    /**
+     * Changes how this stage translates text.
+     */
+    setProvider(provider: TranslationProvider) {
+      this.provider = provider;
+      this.translations.clear();
+      this.pending.clear();
+    }
+
+    /**
+     * Translates text, or starts translating it if the provider responds asynchronously.
+     * @returns The translation, or a promise that settles when the translation is known.
+     */
+    private lookup(text: string, language: string): string | Promise<void> {
+      const code = getLanguageCode(language);
+      const key = code + '\n' + text;
+      const cached = this.translations.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+      const pending = this.pending.get(key);
+      if (pending) {
+        return pending;
+      }
+
+      const result = this.provider.translate(text, code);
+      if (result === null) {
+        return text;
+      }
+      if (typeof result === 'string') {
+        return result;
+      }
+
+      const provider = this.provider;
+      const promise = result
+        .then((translation) => {
+          if (this.provider === provider) {
+            this.translations.set(key, translation === null ? text : translation);
+          }
+        })
+        .catch((e) => {
+          console.warn('Could not translate', text, e);
+          // Statements would otherwise keep waiting for the provider to fail again.
+          if (this.provider === provider) {
+            this.translations.set(key, text);
+          }
+        })
+        .then(() => {
+          this.pending.delete(key);
+        });
+      this.pending.set(key, promise);
+      return promise;
+    }
+
+    /**
+     * Starts translating the text of translate blocks. Statements that use translate blocks call this first, as
+     * reporters cannot wait.
+     * @param requests The text and language of each translate block
+     * @returns null if every translation is known, otherwise a promise that settles when they are.
+     */
+    prepare(requests: Array<[string, string]>): Promise<void> | null {
+      const promises: Promise<void>[] = [];
+      for (const [text, language] of requests) {
+        const result = this.lookup(text, language);
+        if (typeof result !== 'string') {
+          promises.push(result);
+        }
+      }
+      if (promises.length === 0) {
+        return null;
+      }
+      return Promise.all(promises).then(() => {});
+    }
+
+    /**
+     * Translates text for the translate block.
+     * Text that is still being translated by an asynchronous provider is reported unchanged.
+     * @see prepare
+     */
+    getTranslate(text: string, language: string): string {
+      const result = this.lookup(text, language);
+      return typeof result === 'string' ? result : text;
+    }
+
+    /**
+     * Translates the text and language that a statement evaluated for a translate block, and forgets them, so the
+     * block evaluates its inputs itself if it runs again without the statement waiting for it.
+     * @param state Where the statement saved the text and language
+     * @param key The key of the translate block in state
+     * @see P.sb3.compiler.StatementUtil#waitForTranslations
+     */
+    getPreparedTranslate(state: ObjectMap<any>, key: string): string {
+      const [text, language] = state[key] as [string, string];
+      state[key] = null;
+      return this.getTranslate(text, language);
+    }
+
+    /**
+     * The name of the language of the viewer, in that language.
+     */
+    getViewerLanguage(): string {
+      return findLanguage(getViewerLanguageCode())!.nativeName;
+    }
+  }
+
+  // Bundled phrases
+
+  dictionary.addPhrases('es', {
+    'hello': 'hola',
+    'goodbye': 'adiós',
+    'yes': 'sí',
+    'no': 'no',
+    'please': 'por favor',
+    'thank you': 'gracias',
+    'good morning': 'buenos días',
+    'good night': 'buenas noches',
+    'how are you?': '¿cómo estás?',
+    'what is your name?': '¿cómo te llamas?',
+    'my name is': 'me llamo',
+    'cat': 'gato',
+    'dog': 'perro',
+    'apple': 'manzana',
+    'water': 'agua',
+    'house': 'casa',
+    'friend': 'amigo',
+    'red': 'rojo',
+    'blue': 'azul',
+    'green': 'verde',
+    'one': 'uno',
+    'two': 'dos',
+    'three': 'tres',
+  });
+
+  dictionary.addPhrases('fr', {
+    'hello': 'bonjour',
+    'goodbye': 'au revoir',
+    'yes': 'oui',
+    'no': 'non',
+    'please': 's\'il vous plaît',
+    'thank you': 'merci',
+    'good morning': 'bonjour',
+    'good night': 'bonne nuit',
+    'how are you?': 'comment allez-vous ?',
+    'what is your name?': 'comment vous appelez-vous ?',
+    'my name is': 'je m\'appelle',
+    'cat': 'chat',
+    'dog': 'chien',
+    'apple': 'pomme',
+    'water': 'eau',
+    'house': 'maison',
+    'friend': 'ami',
+    'red': 'rouge',
+    'blue': 'bleu',
+    'green': 'vert',
+    'one': 'un',
+    'two': 'deux',
+    'three': 'trois',
+  });
+
+  dictionary.addPhrases('de', {
+    'hello': 'hallo',
+    'goodbye': 'auf Wiedersehen',
+    'yes': 'ja',
+    'no': 'nein',
+    'please': 'bitte',
+    'thank you': 'danke',
+    'good morning': 'guten Morgen',
+    'good night': 'gute Nacht',
+    'how are you?': 'wie geht es dir?',
+    'what is your name?': 'wie heißt du?',
+    'my name is': 'ich heiße',
+    'cat': 'Katze',
+    'dog': 'Hund',
+    'apple': 'Apfel',
+    'water': 'Wasser',
+    'house': 'Haus',
+    'friend': 'Freund',
+    'red': 'rot',
+    'blue': 'blau',
+    'green': 'grün',
+    'one': 'eins',
+    'two': 'zwei',
+    'three': 'drei',
+  });
+
+  dictionary.addPhrases('it', {
+    'hello': 'ciao',
+    'goodbye': 'arrivederci',
+    'yes': 'sì',
+    'no': 'no',
+    'please': 'per favore',
+    'thank you': 'grazie',
+    'good morning': 'buongiorno',
+    'good night': 'buonanotte',
+    'how are you?': 'come stai?',
+    'what is your name?': 'come ti chiami?',
+    'my name is': 'mi chiamo',
+    'cat': 'gatto',
+    'dog': 'cane',
+    'apple': 'mela',
+    'water': 'acqua',
+    'house': 'casa',
+    'friend': 'amico',
+    'red': 'rosso',
+    'blue': 'blu',
+    'green': 'verde',
+    'one': 'uno',
+    'two': 'due',
+    'three': 'tre',
+  });
+
+  dictionary.addPhrases('pt', {
+    'hello': 'olá',
+    'goodbye': 'adeus',
+    'yes': 'sim',
+    'no': 'não',
+    'please': 'por favor',
+    'thank you': 'obrigado',
+    'good morning': 'bom dia',
+    'good night': 'boa noite',
+    'how are you?': 'como vai você?',
+    'what is your name?': 'qual é o seu nome?',
+    'my name is': 'meu nome é',
+    'cat': 'gato',
+    'dog': 'cachorro',
+    'apple': 'maçã',
+    'water': 'água',
+    'house': 'casa',
+    'friend': 'amigo',
+    'red': 'vermelho',
+    'blue': 'azul',
+    'green': 'verde',
+    'one': 'um',
+    'two': 'dois',
+    'three': 'três',
+  });
+}
@@ -0,0 +1,443 @@
+/// <reference path="../phosphorus.ts" />
+/// <reference path="extension.ts" />
+
+/*!
+Parts of this file (video.ts) are derived from https://github.com/LLK/scratch-vm/blob/develop/src/extensions/scratch3_video_sensing/library.js
+*/
+
+/**
+ * Video sensing
+ */
+namespace P.ext.video {
+  /**
+   * The size of frames. Pixels of frames are the same as pixels of the stage.
+   */
+  export const WIDTH = 480;
+  export const HEIGHT = 360;
+
+  // Constants of the motion detection algorithm, from Scratch.
+  const WINSIZE = 8;
+  const AMOUNT_SCALE = 100;
+  const THRESHOLD = 10;
+  const LOCAL_AMOUNT_SCALE = AMOUNT_SCALE * 2e-4;
+  const LOCAL_MAX_AMOUNT = 100;
+  const LOCAL_THRESHOLD = THRESHOLD / 3;
+  const TO_DEGREE = 180 / Math.PI;
+
+  /**
+   * 'on' shows the video mirrored, like a mirror. 'on-flipped' shows the video as the camera sees it.
+   */
+  export type VideoState = 'off' | 'on' | 'on-flipped';
+
+  /**
+   * Where frames come from.
+   */
+  export interface FrameSource {
+    /**
+     * Gets the newest frame, called once per frame of the project while the video is on.
+     * @returns WIDTH * HEIGHT pixels of RGBA data, already mirrored if the video is mirrored, or null if there is no frame yet.
+     */
+    getFrame(): Uint8ClampedArray | null;
+    /**
+     * Called when the video is turned on, turned off, or mirrored.
+     */
+    setVideoState?(state: VideoState): void;
+    /**
+     * Called when the transparency of the video changes.
+     * @param transparency From 0 (opaque) to 100 (invisible)
+     */
+    setTransparency?(transparency: number): void;
+    destroy?(): void;
+  }
+
+  /**
+   * Shows the camera behind the stage.
+   */
+  export class CameraFrameSource implements FrameSource {
+    private videoElement: HTMLVideoElement | null = null;
+    private stream: MediaStream | null = null;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private mirrored: boolean = true;
+    private transparency: number = 50;
+
+    constructor(private stage: P.core.Stage) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = WIDTH;
+      this.canvas.height = HEIGHT;
+      this.context = this.canvas.getContext('2d')!;
+    }
+
+    private connect() {
+      if (this.videoElement) {
+        return;
+      }
+      const video = document.createElement('video');
+      video.muted = true;
+      video.onloadedmetadata = () => {
+        video.play();
+      };
+      video.style.opacity = '' + (1 - this.transparency / 100);
+      this.stage.root.insertBefore(video, this.stage.canvas);
+      this.videoElement = video;
+      if (!navigator.mediaDevices) {
+        console.warn('Cannot access media devices, probably running in insecure (non-HTTPS) context.');
+        return;
+      }
+      navigator.mediaDevices.getUserMedia({ video: true, audio: false })
+        .then((stream) => {
+          if (this.videoElement !== video) {
+            // The video was turned off while waiting for the camera.
+            stream.getTracks().forEach((track) => track.stop());
+            return;
+          }
+          this.stream = stream;
+          video.srcObject = stream;
+        })
+        .catch((err) => {
+          console.warn('Cannot connect to camera: ' + err);
+        });
+    }
+
+    private disconnect() {
+      if (this.stream) {
+        this.stream.getTracks().forEach((track) => track.stop());
+        this.stream = null;
+      }
+      if (this.videoElement) {
+        this.stage.root.removeChild(this.videoElement);
+        this.videoElement = null;
+      }
+    }
+
+    getFrame(): Uint8ClampedArray | null {
+      const video = this.videoElement;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA) {
+        return null;
+      }
+      this.context.save();
+      if (this.mirrored) {
+        this.context.translate(WIDTH, 0);
+        this.context.scale(-1, 1);
+      }
+      this.context.drawImage(video, 0, 0, WIDTH, HEIGHT);
+      this.context.restore();
+      return this.context.getImageData(0, 0, WIDTH, HEIGHT).data;
+    }
+
+    setVideoState(state: VideoState) {
+      if (state === 'off') {
+        this.disconnect();
+        return;
+      }
+      this.connect();
+      this.mirrored = state === 'on';
+      this.videoElement!.style.transform = this.mirrored ? 'scaleX(-1)' : '';
+    }
+
+    setTransparency(transparency: number) {
+      this.transparency = transparency;
+      if (this.videoElement) {
+        this.videoElement.style.opacity = '' + (1 - transparency / 100);
+      }
+    }
+
+    destroy() {
+      this.disconnect();
+    }
+  }
+
+  type FrameSourceFactory = (stage: P.core.Stage) => FrameSource | null;
+
+  /**
+   * By default, the camera is only used when P.config.supportVideoSensing is enabled.
+   */
+  let createFrameSource: FrameSourceFactory = (stage) => {
+    if (!P.config.supportVideoSensing || P.config.headless) {
+      return null;
+    }
+    return new CameraFrameSource(stage);
+  };
+
+  /**
+   * Changes where stages that start using video sensing get frames from, for example to use synthetic frames in tests.
+   */
+  export function setFrameSource(factory: FrameSourceFactory) {
+    createFrameSource = factory;
+  }
+
+  export interface MotionState {
+    /** From 0 to 100, or -1 if there are not enough frames yet. */
+    motionAmount: number;
+    /** In the same units as the direction of sprites, or -1 if there are not enough frames yet. */
+    motionDirection: number;
+    /** The frame that the motion was measured for. */
+    frameNumber: number;
+  }
+
+  interface Gradients {
+    A2: number;
+    A1B2: number;
+    B1: number;
+    C1: number;
+    C2: number;
+  }
+
+  /**
+   * Solves the optical flow equations for the motion of an area.
+   * @returns [u, v], the motion in the x and y directions
+   */
+  function solveFlow(g: Gradients): [number, number] {
+    const delta = g.A1B2 * g.A1B2 - g.A2 * g.B1;
+    if (delta) {
+      // The system is not singular, so it can be solved with Cramer's rule.
+      const deltaX = -(g.C1 * g.A1B2 - g.C2 * g.B1);
+      const deltaY = -(g.A1B2 * g.C2 - g.A2 * g.C1);
+      const inverseDelta = 8 / delta;
+      return [deltaX * inverseDelta, deltaY * inverseDelta];
+    }
+    // The system is singular, so find the flow in the direction of the gradient.
+    const norm = (g.A1B2 + g.A2) * (g.A1B2 + g.A2) + (g.B1 + g.A1B2) * (g.B1 + g.A1B2);
+    if (norm) {
+      const inverseNorm = 8 / norm;
+      const temp = -(g.C1 + g.C2) * inverseNorm;
+      return [(g.A1B2 + g.A2) * temp, (g.B1 + g.A1B2) * temp];
+    }
+    return [0, 0];
+  }
+
+  function addGradients(g: Gradients, previous: Uint8Array, current: Uint8Array, address: number) {
+    const gradX = current[address - 1] - current[address + 1];
+    const gradY = current[address - WIDTH] - current[address + WIDTH];
+    const gradT = previous[address] - current[address];
+    g.A2 += gradX * gradX;
+    g.A1B2 += gradX * gradY;
+    g.B1 += gradY * gradY;
+    g.C2 += gradX * gradT;
+    g.C1 += gradY * gradT;
+  }
+
+  function toScratchDirection(u: number, v: number) {
+    return ((Math.atan2(v, u) * TO_DEGREE + 270) % 360) - 180;
+  }
+
+  /**
+   * Measures motion by comparing each frame to the previous frame, like Scratch.
+   */
+  export class VideoMotion {
+    public frameNumber: number = 0;
+    private previous: Uint8Array = new Uint8Array(WIDTH * HEIGHT);
+    private current: Uint8Array = new Uint8Array(WIDTH * HEIGHT);
+    private stageMotion: MotionState = { motionAmount: -1, motionDirection: -1, frameNumber: -1 };
+
+    reset() {
+      this.frameNumber = 0;
+      this.stageMotion = { motionAmount: -1, motionDirection: -1, frameNumber: -1 };
+    }
+
+    addFrame(frame: Uint8ClampedArray) {
+      const temp = this.previous;
+      this.previous = this.current;
+      this.current = temp;
+      // Like Scratch, only the red channel is used.
+      for (let i = 0; i < WIDTH * HEIGHT; i++) {
+        this.current[i] = frame[i * 4];
+      }
+      this.frameNumber++;
+    }
+
+    /**
+     * Measures the motion of the whole video.
+     */
+    getStageMotion(): MotionState {
+      const state = this.stageMotion;
+      if (this.frameNumber < 2) {
+        state.motionAmount = state.motionDirection = -1;
+        return state;
+      }
+      if (state.frameNumber === this.frameNumber) {
+        return state;
+      }
+      state.frameNumber = this.frameNumber;
+
+      // The video is split into squares and the motion of each square is found.
+      const winStep = WINSIZE * 2 + 1;
+      const wmax = WIDTH - WINSIZE - 1;
+      const hmax = HEIGHT - WINSIZE - 1;
+      let uu = 0;
+      let vv = 0;
+      let n = 0;
+      for (let i = WINSIZE + 1; i < hmax; i += winStep) {
+        for (let j = WINSIZE + 1; j < wmax; j += winStep) {
+          const g: Gradients = { A2: 0, A1B2: 0, B1: 0, C1: 0, C2: 0 };
+          for (let k = -WINSIZE; k <= WINSIZE; k++) {
+            for (let l = -WINSIZE; l <= WINSIZE; l++) {
+              addGradients(g, this.previous, this.current, (i + k) * WIDTH + j + l);
+            }
+          }
+          const [u, v] = solveFlow(g);
+          // Squares that seem to move further than their own size are noise.
+          if (-winStep < u && u < winStep && -winStep < v && v < winStep) {
+            uu += u;
+            vv += v;
+            n++;
+          }
+        }
+      }
+      if (n > 0) {
+        uu /= n;
+        vv /= n;
+      }
+
+      state.motionAmount = Math.round(AMOUNT_SCALE * Math.hypot(uu, vv));
+      if (state.motionAmount > THRESHOLD) {
+        state.motionDirection = toScratchDirection(uu, vv);
+      }
+      return state;
+    }
+
+    /**
+     * Measures the motion of the part of the video that is under a sprite or the stage.
+     * Unlike in Scratch, the whole bounding box of a sprite is used, including transparent pixels.
+     * @param state The last state of the target, which is updated.
+     */
+    getLocalMotion(target: P.core.Base, state: MotionState) {
+      if (this.frameNumber < 2) {
+        state.motionAmount = state.motionDirection = -1;
+        return;
+      }
+      if (state.frameNumber === this.frameNumber) {
+        return;
+      }
+      state.frameNumber = this.frameNumber;
+
+      let left = -WIDTH / 2;
+      let right = WIDTH / 2;
+      let top = HEIGHT / 2;
+      let bottom = -HEIGHT / 2;
+      if (target.isSprite) {
+        const bounds = target.rotatedBounds();
+        left = bounds.left;
+        right = bounds.right;
+        top = bounds.top;
+        bottom = bounds.bottom;
+      }
+      const xmin = Math.max(Math.floor(left + WIDTH / 2), 1);
+      const xmax = Math.min(Math.floor(right + WIDTH / 2), WIDTH - 1);
+      const ymin = Math.max(Math.floor(HEIGHT / 2 - top), 1);
+      const ymax = Math.min(Math.floor(HEIGHT / 2 - bottom), HEIGHT - 1);
+
+      const g: Gradients = { A2: 0, A1B2: 0, B1: 0, C1: 0, C2: 0 };
+      let pixels = 0;
+      for (let i = ymin; i < ymax; i++) {
+        for (let j = xmin; j < xmax; j++) {
+          addGradients(g, this.previous, this.current, i * WIDTH + j);
+          pixels++;
+        }
+      }
+      let [u, v] = solveFlow(g);
+      if (pixels) {
+        const scaleFactor = pixels / (2 * WINSIZE * 2 * WINSIZE);
+        u /= scaleFactor;
+        v /= scaleFactor;
+      }
+
+      state.motionAmount = Math.min(Math.round(LOCAL_AMOUNT_SCALE * pixels * Math.hypot(u, v)), LOCAL_MAX_AMOUNT);
+      if (state.motionAmount > LOCAL_THRESHOLD) {
+        state.motionDirection = toScratchDirection(u, v);
+      }
+    }
+  }
+
+  export class VideoSensingExtension extends P.ext.Extension {
+    private source: FrameSource | null;
+    private videoState: VideoState = 'off';
+    private transparency: number = 50;
+    private motion: VideoMotion = new VideoMotion();
+    private localMotion: WeakMap<P.core.Base, MotionState> = new WeakMap();
+
+    constructor(stage: P.core.Stage) {
+      super(stage);
+      this.source = createFrameSource(stage);
+    }
+
+    /**
+     * Changes where the frames of this stage come from.
+     */
+    setFrameSource(source: FrameSource | null) {
+      if (this.source && this.source.destroy) {
+        this.source.destroy();
+      }
+      this.source = source;
+      this.resetMotion();
+      if (source) {
+        if (source.setTransparency) source.setTransparency(this.transparency);
+        if (source.setVideoState) source.setVideoState(this.videoState);
+      }
+    }
+
+    setVideoState(state: string) {
+      if (state !== 'off' && state !== 'on' && state !== 'on-flipped') {
+        return;
+      }
+      if (state === 'off') {
+        // Motion should not be measured between frames from before and after the video was off.
+        this.resetMotion();
+      }
+      this.videoState = state;
+      if (this.source && this.source.setVideoState) {
+        this.source.setVideoState(state);
+      }
+    }
+
+    setTransparency(transparency: number) {
+      this.transparency = Math.max(0, Math.min(100, transparency));
+      if (this.source && this.source.setTransparency) {
+        this.source.setTransparency(this.transparency);
+      }
+    }
+
+    private resetMotion() {
+      this.motion.reset();
+      this.localMotion = new WeakMap();
+    }
+
+    /**
+     * @param attribute 'motion' or 'direction'
+     * @param subject 'sprite' for the motion under the target, 'stage' for the motion of the whole video
+     */
+    getMotion(target: P.core.Base, attribute: string, subject: string): number {
+      const state = subject === 'sprite' ? this.getLocalMotion(target) : this.motion.getStageMotion();
+      return attribute === 'direction' ? state.motionDirection : state.motionAmount;
+    }
+
+    /**
+     * Gets the motion under a sprite or the stage.
+     */
+    getLocalMotion(target: P.core.Base): MotionState {
+      let state = this.localMotion.get(target);
+      if (!state) {
+        state = { motionAmount: -1, motionDirection: -1, frameNumber: -1 };
+        this.localMotion.set(target, state);
+      }
+      this.motion.getLocalMotion(target, state);
+      return state;
+    }
+
+    update() {
+      if (this.videoState === 'off' || !this.source) {
+        return;
+      }
+      const frame = this.source.getFrame();
+      if (frame) {
+        this.motion.addFrame(frame);
+      }
+    }
+
+    destroy() {
+      if (this.source && this.source.destroy) {
+        this.source.destroy();
+      }
+    }
+  }
+}
@@ -11,8 +11,13 @@ namespace P.i18n {
   const SUPPORTED_LANGUAGES = ['en', 'es'];
   const DEFAULT_LANGUAGE = 'en';
 
+  /**
+   * The language of the user, such as 'en' or 'pt-br', even if the player does not support it.
+   */
+  export const detectedLanguage = (navigator.language || DEFAULT_LANGUAGE).toLowerCase();
+
   function getLanguage(): string {
-    let language = navigator.language;
+    let language = detectedLanguage;
     if (language.indexOf('-') > -1) {
       // remove a country code, if it has one.
       language = language.substring(0, language.indexOf('-'));
@@ -74,15 +79,22 @@ namespace P.i18n {
 
   addTranslations('en', {
     'player.controls.turboIndicator': 'Turbo Mode',
+    'player.controls.slowIndicator': 'Project is running slowly',
+    'player.controls.unsupportedIndicator': 'Uses $count unsupported blocks',
+    'player.controls.unsupportedIndicator.title': 'These blocks are not supported and will do nothing: $blocks',
     'player.controls.fullscreen.title': 'Click to fullscreen player, Shift+click to just maximize.',
     'player.controls.flag.title': 'Shift+click to enable turbo mode.',
     'player.controls.flag.title.enabled': 'Turbo mode is enabled. Shift+click to disable turbo mode.',
     'player.controls.flag.title.disabled': 'Turbo mode is disabled. Shift+click to enable turbo mode.',
     'player.errorhandler.error': 'An internal error occurred. <a $attrs>Click here</a> to file a bug report.',
     'player.errorhandler.error.doesnotexist': 'There is no project with ID $id (Project was probably deleted, never existed, or you made a typo.)',
+    'player.errorhandler.scriptError': 'Scripts stopped because of $count different errors. The rest of the project keeps running. <a $attrs>Click here</a> to file a bug report.',
   });
 
   addTranslations('es', {
     'player.controls.turboIndicator': 'Modo Turbo',
+    'player.controls.slowIndicator': 'El proyecto se está ejecutando lentamente',
+    'player.controls.unsupportedIndicator': 'Usa $count bloques no compatibles',
+    'player.controls.unsupportedIndicator.title': 'Estos bloques no son compatibles y no harán nada: $blocks',
   });
 }
@@ -0,0 +1,2447 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="config.ts" />
+/// <reference path="runtime.ts" />
+/// <reference path="sb3.ts" />
+
+/**
+ * An interpreter for Scratch 3 projects.
+ * Instead of generating JavaScript, scripts are turned into trees of closures, so projects can run on pages whose
+ * Content Security Policy does not allow eval().
+ * Blocks must behave exactly like they do in P.sb3.compiler, so changes to one should be made to the other as well.
+ */
+namespace P.sb3.interpreter {
+  import Fn = P.runtime.Fn;
+  import InputType = P.sb3.compiler.InputType;
+  import InputFlags = P.sb3.compiler.InputFlags;
+
+  // Thrown to stop the script or procedure that is running, like "stop this script".
+  const STOP_SCRIPT = { stop: 'script' };
+  // Thrown to stop the entire thread.
+  const STOP_THREAD = { stop: 'thread' };
+
+  /**
+   * Stops the script or procedure that is running.
+   */
+  export function stopScript(): never {
+    throw STOP_SCRIPT;
+  }
+
+  /**
+   * Stops the thread that is running.
+   */
+  export function stopThread(): never {
+    throw STOP_THREAD;
+  }
+
+  /**
+   * An interpreted statement.
+   * Statements that may wait return an iterator that must be run to completion. Other statements return nothing.
+   */
+  export type Statement = (thread: Thread) => IterableIterator<boolean> | void;
+
+  /**
+   * An interpreted input. Returns the value of the input.
+   */
+  export type Reporter = (thread: Thread) => any;
+
+  /**
+   * Runs a statement, waiting for it if necessary.
+   */
+  export function* execute(statement: Statement, thread: Thread): IterableIterator<boolean> {
+    const iterator = statement(thread);
+    if (iterator) {
+      yield* iterator;
+    }
+  }
+
+  /**
+   * A thread of an interpreted script.
+   */
+  export class Thread implements P.runtime.InterpretedThread {
+    public iterator: Iterator<boolean>;
+    /**
+     * The number of warp procedures that are running.
+     */
+    public warp: number = 0;
+    /**
+     * The arguments of the procedure that is running.
+     */
+    public args: ObjectMap<any> = {};
+    /**
+     * The procedures that are running, innermost last.
+     */
+    public calls: InterpretedProcedure[] = [];
+    /**
+     * The ID of the block that is running.
+     */
+    public blockId: string | null = null;
+    /**
+     * The text and language of translate blocks, evaluated by the statement that waited for their translation.
+     * @see Interpreter#waitForTranslations
+     */
+    public translations: ObjectMap<[string, string] | null> = {};
+
+    /**
+     * @param target The sprite or stage that is running the thread
+     * @param base The starting function of the script
+     */
+    constructor(public target: Target, public base: Fn | null) {
+
+    }
+
+    get stage(): Scratch3Stage {
+      return this.target.stage as Scratch3Stage;
+    }
+
+    /**
+     * Begins running a script in this thread.
+     */
+    start(script: Statement): this {
+      this.iterator = this.run(script);
+      return this;
+    }
+
+    private *run(script: Statement): IterableIterator<boolean> {
+      try {
+        yield* execute(script, this);
+      } catch (e) {
+        if (e !== STOP_SCRIPT && e !== STOP_THREAD) {
+          throw e;
+        }
+      }
+    }
+
+    /**
+     * Runs a procedure in this thread.
+     */
+    *call(procedure: InterpretedProcedure, values: any[]): IterableIterator<boolean> {
+      const warp = procedure.warp || this.warp > 0;
+      if (!warp && P.runtime.isVisual()) {
+        // Like in compiled scripts, a procedure that is already among the last few calls waits for the next frame.
+        for (let i = this.calls.length, j = 5; i-- && j--;) {
+          if (this.calls[i] === procedure) {
+            yield true;
+            break;
+          }
+        }
+      }
+      const args = this.args;
+      const profiler = this.stage.runtime.profiler;
+      this.calls.push(procedure);
+      this.args = procedure.call(values);
+      if (warp) {
+        this.warp++;
+      }
+      if (profiler) {
+        profiler.enterProcedure(this.target, procedure.fn);
+      }
+      try {
+        yield* execute(procedure.script, this);
+      } catch (e) {
+        if (e !== STOP_SCRIPT) {
+          throw e;
+        }
+      }
+      if (profiler) {
+        profiler.exitProcedure();
+      }
+      if (warp) {
+        this.warp--;
+      }
+      this.calls.pop();
+      this.args = args;
+    }
+  }
+
+  /**
+   * A custom block whose script is interpreted.
+   */
+  export class InterpretedProcedure extends P.sb3.Scratch3Procedure {
+    constructor(fn: Fn, warp: boolean, inputs: string[], public script: Statement) {
+      super(fn, warp, inputs);
+    }
+  }
+
+  /**
+   * An interpreted input with an associated type.
+   * @see P.sb3.compiler.CompiledInput
+   */
+  export class InterpretedInput {
+    /**
+     * Whether this input could potentially be a number-like object at runtime.
+     * @see P.sb3.compiler.CompiledInput
+     */
+    public potentialNumber: boolean = true;
+    private flags: number = 0;
+
+    constructor(public evaluate: Reporter, public type: InputType) {
+
+    }
+
+    enableFlag(flag: number): void {
+      this.flags |= flag;
+    }
+
+    hasFlag(flag: number): boolean {
+      return (this.flags & flag) !== 0;
+    }
+  }
+
+  /**
+   * A reference to a variable of a sprite or the stage.
+   */
+  export interface VariableReference {
+    get(thread: Thread): any;
+    set(thread: Thread, value: any): void;
+  }
+
+  /**
+   * An interpreter for a statement.
+   * @param util Use the methods of the utility class to read the block.
+   * @returns The statement. It must only return an iterator if util.yielding() was used or a substack may yield.
+   */
+  export type StatementInterpreter = (util: StatementUtil) => Statement;
+
+  /**
+   * An interpreter for an input.
+   */
+  export type InputInterpreter = (util: InputUtil) => InterpretedInput;
+
+  /**
+   * An interpreter for a hat block.
+   */
+  export interface HatInterpreter {
+    /**
+     * The handler that is responsible for installing the script.
+     */
+    handle(util: HatUtil): void;
+    /**
+     * Optionally make changes to the script before it is installed.
+     */
+    postcompile?(interpreter: Interpreter, script: Statement, hat: SB3Block): Statement;
+    /**
+     * Optionally handle what happens before the script is interpreted.
+     */
+    precompile?(interpreter: Interpreter, hat: SB3Block): void;
+  }
+
+  /**
+   * General block utilities.
+   */
+  export class BlockUtil {
+    constructor(public interpreter: Interpreter, public block: SB3Block) {
+
+    }
+
+    get target() {
+      return this.interpreter.target;
+    }
+
+    get stage() {
+      return this.interpreter.target.stage;
+    }
+
+    /**
+     * Interpret an input, and give it a type.
+     */
+    getInput(name: string, type: InputType): Reporter {
+      return this.interpreter.interpretInput(this.block, name, type).evaluate;
+    }
+
+    /**
+     * Interpret an input, keeping the information about its type.
+     */
+    getTypedInput(name: string, type: InputType): InterpretedInput {
+      return this.interpreter.interpretInput(this.block, name, type);
+    }
+
+    /**
+     * Get the value of a field.
+     */
+    getField(name: string): string {
+      return this.interpreter.getField(this.block, name);
+    }
+
+    /**
+     * Get a field as an input.
+     */
+    fieldInput(name: string): InterpretedInput {
+      return this.interpreter.stringConstant(this.getField(name));
+    }
+
+    /**
+     * Gets the runtime object of the custom extension that this block belongs to.
+     */
+    getExtensionRuntime(): any {
+      const extension = this.interpreter.getExtension(this.block.opcode);
+      return extension ? extension.runtime : null;
+    }
+
+    /**
+     * Gets a field's reference to a variable.
+     */
+    getVariableReference(field: string): VariableReference {
+      const { scope, name } = this.interpreter.findVariable(this.interpreter.getVariableField(this.block, field));
+      const getScope = this.interpreter.getScope(scope);
+      return {
+        get: (thread) => getScope(thread).vars[name],
+        set: (thread, value) => getScope(thread).vars[name] = value,
+      };
+    }
+
+    /**
+     * Gets a field's reference to a list.
+     */
+    getListReference(field: string): Reporter {
+      const { scope, name } = this.interpreter.findList(this.interpreter.getVariableField(this.block, field));
+      const getScope = this.interpreter.getScope(scope);
+      return (thread) => getScope(thread).lists[name];
+    }
+
+    /**
+     * Gets the sprite or stage that owns a field's variable.
+     */
+    getVariableScope(field: string): (thread: Thread) => Target {
+      const { scope } = this.interpreter.findVariable(this.interpreter.getVariableField(this.block, field));
+      return this.interpreter.getScope(scope);
+    }
+
+    /**
+     * Gets the sprite or stage that owns a field's list.
+     */
+    getListScope(field: string): (thread: Thread) => Target {
+      const { scope } = this.interpreter.findList(this.interpreter.getVariableField(this.block, field));
+      return this.interpreter.getScope(scope);
+    }
+
+    /**
+     * Determine whether a variable is a cloud variable.
+     */
+    isCloudVariable(field: string): boolean {
+      return this.target.stage.cloudVariables.indexOf(this.getField(field)) > -1;
+    }
+  }
+
+  /**
+   * General statement utilities.
+   */
+  export class StatementUtil extends BlockUtil {
+    /**
+     * Whether the statement may wait.
+     */
+    public yields: boolean = false;
+    /**
+     * Whether a substack of the statement may wait.
+     */
+    public substacksQueue: boolean = false;
+
+    /**
+     * Interpret a substack.
+     */
+    getSubstack(name: string): Statement {
+      const substack = this.interpreter.interpretSubstackInput(this.block, name);
+      if (substack.yields) {
+        this.substacksQueue = true;
+      }
+      return substack.statement;
+    }
+
+    /**
+     * Marks the statement as one that may wait.
+     */
+    yielding(statement: (thread: Thread) => IterableIterator<boolean>): Statement {
+      this.yields = true;
+      return statement;
+    }
+  }
+
+  /**
+   * General input utilities.
+   */
+  export class InputUtil extends BlockUtil {
+    numberInput(v: Reporter) { return new InterpretedInput(v, 'number'); }
+    stringInput(v: Reporter) { return new InterpretedInput(v, 'string'); }
+    booleanInput(v: Reporter) { return new InterpretedInput(v, 'boolean'); }
+    anyInput(v: Reporter) { return new InterpretedInput(v, 'any'); }
+  }
+
+  /**
+   * General hat handling utilities.
+   */
+  export class HatUtil extends P.sb3.compiler.HatUtil {
+    constructor(public interpreter: Interpreter, block: SB3Block, startingFunction: Fn, public script: Statement) {
+      super(interpreter, block, startingFunction);
+    }
+  }
+
+  // Block definitions
+  export const statementLibrary: ObjectMap<StatementInterpreter> = Object.create(null);
+  export const inputLibrary: ObjectMap<InputInterpreter> = Object.create(null);
+  export const hatLibrary: ObjectMap<HatInterpreter> = Object.create(null);
+
+  /**
+   * Runs the scripts of a Scratch 3 sprite or stage without compiling them to JavaScript.
+   */
+  export class Interpreter extends P.sb3.compiler.Compiler {
+    /**
+     * Get the interpreter for a statement
+     */
+    getStatementInterpreter(opcode: string): StatementInterpreter | null {
+      if (statementLibrary[opcode]) {
+        return statementLibrary[opcode];
+      }
+      const blocks = this.getInterpretedExtensionBlocks(opcode);
+      if (blocks && blocks.statements && blocks.statements[opcode]) {
+        return blocks.statements[opcode];
+      }
+      return null;
+    }
+
+    /**
+     * Get the interpreter for an input
+     */
+    getInputInterpreter(opcode: string): InputInterpreter | null {
+      if (inputLibrary[opcode]) {
+        return inputLibrary[opcode];
+      }
+      const blocks = this.getInterpretedExtensionBlocks(opcode);
+      if (blocks && blocks.inputs && blocks.inputs[opcode]) {
+        return blocks.inputs[opcode];
+      }
+      return null;
+    }
+
+    /**
+     * Get the interpreter for a hat.
+     * Hats that only install the script can use the compiler's handler.
+     */
+    getHatInterpreter(opcode: string): HatInterpreter | null {
+      if (hatLibrary[opcode]) {
+        return hatLibrary[opcode];
+      }
+      const blocks = this.getInterpretedExtensionBlocks(opcode);
+      if (blocks && blocks.hats && blocks.hats[opcode]) {
+        return blocks.hats[opcode];
+      }
+      const hatCompiler = this.getHatCompiler(opcode);
+      if (hatCompiler && !hatCompiler.precompile && !hatCompiler.postcompile) {
+        return {
+          handle: (util) => hatCompiler.handle(util),
+        };
+      }
+      return null;
+    }
+
+    /**
+     * Get the interpreter implementations of the custom extension that an opcode belongs to, if any.
+     */
+    getInterpretedExtensionBlocks(opcode: string): P.ext.custom.InterpretedBlocks | null {
+      const extension = this.getExtension(opcode);
+      if (extension && extension.interpreter) {
+        return extension.interpreter;
+      }
+      return null;
+    }
+
+    /**
+     * Gets the default value to use for a missing input.
+     */
+    getInputFallbackValue(type: InputType): any {
+      switch (type) {
+        case 'number': return 0;
+        case 'boolean': return false;
+        case 'string': return '';
+        case 'any': return '';
+        case 'list': return '';
+        case 'color': return 0;
+      }
+    }
+
+    /**
+     * Creates an input that is always the same value.
+     */
+    constantInput(value: any, type: InputType): InterpretedInput {
+      return new InterpretedInput(() => value, type);
+    }
+
+    /**
+     * Creates an input that is always the same string.
+     */
+    stringConstant(value: string): InterpretedInput {
+      return this.constantInput(value, 'string');
+    }
+
+    /**
+     * Gets the sprite or stage that a scope from findVariable() or findList() refers to.
+     */
+    getScope(scope: string): (thread: Thread) => Target {
+      if (scope === 'self') {
+        return (thread) => thread.stage;
+      }
+      return (thread) => thread.target;
+    }
+
+    /**
+     * Applies type coercions to a reporter to forcibly change it's type.
+     */
+    asTypeReporter(input: Reporter, type: InputType): Reporter {
+      const { bool, parseColor } = P.runtime.scriptFunctions;
+      switch (type) {
+        case 'string': return (thread) => '' + input(thread);
+        case 'number': return (thread) => +input(thread) || 0;
+        case 'boolean': return (thread) => bool(input(thread));
+        case 'any': return input;
+        case 'list': throw new Error("Converting to 'list' type is not something you're supposed to do");
+        case 'color': return (thread) => parseColor(input(thread));
+      }
+    }
+
+    /**
+     * Converts an interpreted input to another type, if necessary
+     * @see P.sb3.compiler.Compiler#convertInputType
+     */
+    convertInterpretedInputType(input: InterpretedInput, type: InputType): InterpretedInput {
+      if (input.type === type) {
+        if (type === 'number' && input.hasFlag(InputFlags.NaN)) {
+          const evaluate = input.evaluate;
+          return new InterpretedInput((thread) => evaluate(thread) || 0, type);
+        }
+        return input;
+      }
+      if (type === 'any') {
+        if (input.type === 'list') {
+          type = 'string';
+        } else {
+          return input;
+        }
+      }
+      return new InterpretedInput(this.asTypeReporter(input.evaluate, type), type);
+    }
+
+    /**
+     * Interpret a native or primitive value.
+     * @see P.sb3.compiler.Compiler#compileNativeInput
+     */
+    interpretNativeInput(native: any[], desiredType: InputType): InterpretedInput {
+      const type = native[0];
+      switch (type) {
+        // Types of numbers
+        case 4:
+        case 5:
+        case 6:
+        case 7:
+        case 8: {
+          // [type, value]
+          const number = +native[1];
+          if (isNaN(number) || desiredType === 'string') {
+            return this.stringConstant('' + native[1]);
+          }
+          return this.constantInput(number, 'number');
+        }
+
+        // Text
+        case 10: {
+          // [type, value]
+          const value = native[1];
+          if (desiredType !== 'string' && /\d|Infinity/.test(value) && !this.isNameOfCostumeOrSound(value)) {
+            const number = +value;
+            if (number.toString() === value) {
+              if (!isNaN(number)) {
+                return this.constantInput(number, 'number');
+              }
+            }
+          }
+          const input = this.stringConstant(native[1] + '');
+          input.potentialNumber = this.isStringLiteralPotentialNumber(native[1]);
+          return input;
+        }
+
+        // Variable
+        case 12: {
+          // [type, name, id]
+          const { scope, name } = this.findVariable(native[2]);
+          const getScope = this.getScope(scope);
+          return new InterpretedInput((thread) => getScope(thread).vars[name], 'any');
+        }
+
+        // List
+        case 13: {
+          // [type, name, id]
+          const { scope, name } = this.findList(native[2]);
+          const getScope = this.getScope(scope);
+          return new InterpretedInput((thread) => getScope(thread).lists[name], 'list');
+        }
+
+        // Broadcast
+        case 11:
+          // [type, name, id]
+          return this.stringConstant(native[1]);
+
+        // Color picker
+        case 9:
+          // [type, color]
+          return this.constantInput(P.utils.parseColor(native[1]), 'color');
+
+        default:
+          this.reportProblem('warning', 'unknown native: ' + type, '', null, native);
+          return this.stringConstant('');
+      }
+    }
+
+    /**
+     * Interpret an input of a block, and do any necessary type coercions.
+     */
+    interpretInput(parentBlock: SB3Block, inputName: string, type: InputType): InterpretedInput {
+      if (!parentBlock.inputs[inputName]) {
+        this.reportProblem('warning', 'missing input: ' + inputName, parentBlock.opcode, this.getBlockId(parentBlock));
+        return this.constantInput(this.getInputFallbackValue(type), type);
+      }
+
+      const input = parentBlock.inputs[inputName];
+
+      if (Array.isArray(input[1])) {
+        return this.convertInterpretedInputType(this.interpretNativeInput(input[1], type), type);
+      }
+
+      const inputBlockId = input[1];
+      if (!inputBlockId) {
+        return this.constantInput(this.getInputFallbackValue(type), type);
+      }
+
+      const inputBlock = this.blocks[inputBlockId];
+      if (!inputBlock) {
+        return this.constantInput(this.getInputFallbackValue(type), type);
+      }
+
+      const interpreter = this.getInputInterpreter(inputBlock.opcode);
+      if (!interpreter) {
+        this.reportProblem('error', 'unknown input', inputBlock.opcode, inputBlockId, inputBlock);
+        return this.constantInput(this.getInputFallbackValue(type), type);
+      }
+
+      return this.convertInterpretedInputType(interpreter(new InputUtil(this, inputBlock)), type);
+    }
+
+    /**
+     * Interpret a script within a script.
+     */
+    interpretSubstackInput(block: SB3Block, substackName: string): { statement: Statement; yields: boolean; } {
+      const substack = block.inputs[substackName];
+      // empty substacks are normal
+      if (!substack || substack[1] === null) {
+        return { statement: () => {}, yields: false };
+      }
+      return this.interpretStack(substack[1]);
+    }
+
+    /**
+     * Makes a statement wait until translate blocks in its inputs know their translation, as reporters cannot wait.
+     * @see P.sb3.compiler.StatementUtil.waitForTranslations
+     */
+    waitForTranslations(translations: P.sb3.compiler.TranslationRequest[], statement: Statement): Statement {
+      const requests = translations.map((translation) => {
+        const util = new InputUtil(this, translation.block);
+        return {
+          words: util.getInput('WORDS', 'string'),
+          language: util.getInput('LANGUAGE', 'string'),
+          key: translation.key,
+          dependent: translation.dependent,
+        };
+      });
+      return function*(thread) {
+        const values: Array<[string, string]> = [];
+        while (true) {
+          // The text and language of each block are evaluated once, unless they depend on other translate blocks.
+          for (let i = 0; i < requests.length; i++) {
+            if (!values[i] || requests[i].dependent) {
+              values[i] = [requests[i].words(thread), requests[i].language(thread)];
+            }
+          }
+          const translating = thread.stage.translate!.prepare(values);
+          if (!translating) {
+            break;
+          }
+          let resume = false;
+          translating.then(() => { resume = true; });
+          while (!resume) {
+            yield true;
+          }
+        }
+        for (let i = 0; i < requests.length; i++) {
+          const key = requests[i].key;
+          if (key) {
+            thread.translations[key] = values[i];
+          }
+        }
+        const iterator = statement(thread);
+        if (iterator) {
+          yield* iterator;
+        }
+      };
+    }
+
+    /**
+     * Interpret an entire script from a starting block.
+     */
+    interpretStack(startingBlock: string): { statement: Statement; yields: boolean; } {
+      const statements: Statement[] = [];
+      const blockIds: string[] = [];
+      let yields = false;
+      let blockId = startingBlock;
+      let block = this.blocks[blockId];
+
+      while (true) {
+        const interpreter = this.getStatementInterpreter(block.opcode);
+        if (interpreter) {
+          const util = new StatementUtil(this, block);
+          // Translate blocks must know whether the statement evaluates their inputs before they are interpreted.
+          const translations = this.findTranslations(block);
+          let statement = interpreter(util);
+          if (translations.length) {
+            statement = this.waitForTranslations(translations, statement);
+            util.yields = true;
+          }
+          statements.push(statement);
+          blockIds.push(blockId);
+          if (util.yields || util.substacksQueue) {
+            yields = true;
+          }
+        } else {
+          this.reportProblem('error', 'unknown statement', block.opcode, blockId, block);
+        }
+
+        if (!block.next) {
+          break;
+        }
+        blockId = block.next;
+        block = this.blocks[blockId];
+      }
+
+      // Each block sets the ID of the block that is running, so errors can be blamed on it.
+      // Once the stack finishes, the block that ran the stack, like a loop or a procedure call, is running again.
+      if (P.config.enableDebugger) {
+        const { debugInterpretedBlock } = P.runtime.scriptFunctions;
+        // Any block can be a breakpoint, so every stack may wait.
+        return {
+          statement: function*(thread) {
+            const parentId = thread.blockId;
+            for (let i = 0; i < statements.length; i++) {
+              thread.blockId = blockIds[i];
+              while (debugInterpretedBlock(blockIds[i])) {
+                yield true;
+              }
+              const iterator = statements[i](thread);
+              if (iterator) {
+                yield* iterator;
+              }
+            }
+            thread.blockId = parentId;
+          },
+          yields: true,
+        };
+      }
+      if (yields) {
+        return {
+          statement: function*(thread) {
+            const parentId = thread.blockId;
+            for (let i = 0; i < statements.length; i++) {
+              thread.blockId = blockIds[i];
+              const iterator = statements[i](thread);
+              if (iterator) {
+                yield* iterator;
+              }
+            }
+            thread.blockId = parentId;
+          },
+          yields,
+        };
+      }
+      return {
+        statement: (thread) => {
+          const parentId = thread.blockId;
+          for (let i = 0; i < statements.length; i++) {
+            thread.blockId = blockIds[i];
+            statements[i](thread);
+          }
+          thread.blockId = parentId;
+        },
+        yields,
+      };
+    }
+
+    /**
+     * Interpret a hat block and its children.
+     * The hat handler will be used, and the script will be installed.
+     */
+    compileHat(hat: SB3Block, hatId: string): void {
+      const hatInterpreter = this.getHatInterpreter(hat.opcode);
+      if (!hatInterpreter) {
+        // If a hat block is otherwise recognized as an input or statement, don't warn.
+        if (!this.getInputInterpreter(hat.opcode) && !this.getStatementInterpreter(hat.opcode)) {
+          this.reportProblem('error', 'unknown hat block', hat.opcode, hatId, hat);
+        }
+        return;
+      }
+
+      const startingBlock = hat.next;
+      // Empty hats will be ignored
+      if (!startingBlock) {
+        return;
+      }
+
+      this.state = this.getNewState();
+
+      if (hatInterpreter.precompile) {
+        hatInterpreter.precompile(this, hat);
+      }
+
+      let script = this.interpretStack(startingBlock).statement;
+
+      if (hatInterpreter.postcompile) {
+        script = hatInterpreter.postcompile(this, script, hat);
+      }
+
+      const startingFunction = P.runtime.createInterpretedScript((sprite) => {
+        return new Thread(sprite as Target, startingFunction).start(script);
+      });
+      this.target.fns.push(startingFunction);
+      P.runtime.registerScript(startingFunction, {
+        opcode: hat.opcode,
+        blockId: hatId,
+      });
+      hatInterpreter.handle(new HatUtil(this, hat, startingFunction, script));
+
+      if (P.config.debug) {
+        this.log(`[${this.target.name}] interpreted sb3 script "${hat.opcode}"`, this.target);
+      }
+    }
+
+    /**
+     * Evaluate an interpreted input once, outside of any thread.
+     */
+    evaluateInterpretedInputOnce(input: InterpretedInput): any {
+      const thread = new Thread(this.target, null);
+      return this.target.stage.runtime.evaluateExpression(this.target, () => input.evaluate(thread));
+    }
+  }
+}
+
+/**
+ * Scratch 3 blocks for the interpreter.
+ * Each block mirrors its counterpart in the compiler.
+ */
+(function() {
+  const statementLibrary = P.sb3.interpreter.statementLibrary;
+  const inputLibrary = P.sb3.interpreter.inputLibrary;
+  const hatLibrary = P.sb3.interpreter.hatLibrary;
+  const execute = P.sb3.interpreter.execute;
+  const stopScript = P.sb3.interpreter.stopScript;
+  const stopThread = P.sb3.interpreter.stopThread;
+  const setVisual = P.runtime.setVisual;
+  const {
+    epoch,
+    INSTRUMENTS,
+    DRUMS,
+    MIDI_INSTRUMENTS,
+    MIDI_DRUMS,
+    bool,
+    compare,
+    equal,
+    numEqualExperimental,
+    numLessExperimental,
+    numGreaterExperimental,
+    strEqual,
+    stringContains,
+    mod,
+    random,
+    clone,
+    getLineOfList,
+    listContains,
+    listIndexOf,
+    watchedAppendToList,
+    watchedDeleteLineOfList,
+    watchedDeleteAllOfList,
+    watchedInsertInList,
+    watchedSetLineOfList,
+    attribute,
+    getKeyCode3,
+    playNote,
+    playSpan,
+    playSound,
+    startSound,
+    updateSoundEffectsOnAllSounds,
+    cloudVariableChanged,
+    sceneChange,
+    broadcast,
+    running,
+    warpTimerExpired,
+  } = P.runtime.scriptFunctions;
+
+  type Thread = P.sb3.interpreter.Thread;
+  type Sprite = P.sb3.Scratch3Sprite;
+
+  // Equivalents of StatementUtil.visual() in the compiler.
+  const visualDrawing = (S: P.core.Base) => {
+    if (S.visible || S.isPenDown) setVisual();
+  };
+  const visualVisible = (S: P.core.Base) => {
+    if (S.visible) setVisual();
+  };
+
+  const updateBubble = (S: P.core.Base) => {
+    if (S.saying) S.updateBubble();
+  };
+
+  // Equivalent of StatementUtil.waitOneTick() in the compiler.
+  function* waitOneTick(thread: Thread) {
+    const runtime = thread.stage.runtime;
+    const start = runtime.currentMSecs;
+    while (runtime.currentMSecs === start) {
+      yield true;
+    }
+  }
+
+  // Equivalent of StatementUtil.waitUntilSettles() in the compiler.
+  function* waitUntilSettles(promise: Promise<any>) {
+    let resume = false;
+    promise
+      .then(() => { resume = true; })
+      .catch(() => { resume = true; });
+    while (!resume) {
+      yield true;
+    }
+  }
+
+  // Waits for a span of beats, or until the sound stops.
+  function* waitForBeats(thread: Thread, beats: number, sound: { stopped: boolean } | null) {
+    const runtime = thread.stage.runtime;
+    const start = runtime.now();
+    const duration = beats * 60 / thread.stage.tempoBPM;
+    let first = true;
+    while ((runtime.now() - start < duration * 1000 || first) && !(sound && sound.stopped)) {
+      first = false;
+      yield true;
+    }
+  }
+
+  // Stops the thread if its own script was restarted.
+  const stopIfRestarted = (thread: Thread, threads: Fn[]) => {
+    if (threads.indexOf(thread.base!) !== -1) {
+      stopThread();
+    }
+  };
+  type Fn = P.runtime.Fn;
+
+  /* Statements */
+  statementLibrary['control_all_at_once'] = function(util) {
+    return util.getSubstack('SUBSTACK');
+  };
+  statementLibrary['control_clear_counter'] = function(util) {
+    return (thread) => {
+      thread.stage.counter = 0;
+    };
+  };
+  statementLibrary['control_create_clone_of'] = function(util) {
+    const CLONE_OPTION = util.getInput('CLONE_OPTION', 'any');
+    return (thread) => {
+      clone(CLONE_OPTION(thread));
+    };
+  };
+  statementLibrary['control_delete_this_clone'] = function(util) {
+    return (thread) => {
+      const S = thread.target;
+      if (S.isClone) {
+        const self = thread.stage;
+        const runtime = self.runtime;
+        visualVisible(S);
+        S.remove();
+        const i = self.children.indexOf(S as Sprite);
+        if (i !== -1) self.children.splice(i, 1);
+        for (let i = 0; i < runtime.queue.length; i++) {
+          const queued = runtime.queue[i];
+          if (queued && queued.sprite === S) {
+            runtime.queue[i] = undefined;
+          }
+        }
+        stopThread();
+      }
+    };
+  };
+  statementLibrary['control_for_each'] = function(util) {
+    const VARIABLE = util.getVariableReference('VARIABLE');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    const VALUE = util.getInput('VALUE', 'number');
+    return util.yielding(function*(thread) {
+      const times = VALUE(thread);
+      let current = 0;
+      while (current < times) {
+        VARIABLE.set(thread, ++current);
+        yield* execute(SUBSTACK, thread);
+        yield false;
+      }
+    });
+  };
+  statementLibrary['control_forever'] = function(util) {
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    if (util.interpreter.state.isWarp && !util.substacksQueue) {
+      return util.yielding(function*(thread) {
+        while (true) {
+          SUBSTACK(thread);
+          if (warpTimerExpired()) yield true;
+        }
+      });
+    }
+    return util.yielding(function*(thread) {
+      while (true) {
+        yield* execute(SUBSTACK, thread);
+        yield false;
+      }
+    });
+  };
+  statementLibrary['control_if'] = function(util) {
+    const CONDITION = util.getInput('CONDITION', 'boolean');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    if (util.substacksQueue) {
+      return function*(thread) {
+        if (CONDITION(thread)) {
+          yield* execute(SUBSTACK, thread);
+        }
+      };
+    }
+    return (thread) => {
+      if (CONDITION(thread)) {
+        SUBSTACK(thread);
+      }
+    };
+  };
+  statementLibrary['control_if_else'] = function(util) {
+    const CONDITION = util.getInput('CONDITION', 'boolean');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    const SUBSTACK2 = util.getSubstack('SUBSTACK2');
+    if (util.substacksQueue) {
+      return function*(thread) {
+        if (CONDITION(thread)) {
+          yield* execute(SUBSTACK, thread);
+        } else {
+          yield* execute(SUBSTACK2, thread);
+        }
+      };
+    }
+    return (thread) => {
+      if (CONDITION(thread)) {
+        SUBSTACK(thread);
+      } else {
+        SUBSTACK2(thread);
+      }
+    };
+  };
+  statementLibrary['control_incr_counter'] = function(util) {
+    return (thread) => {
+      thread.stage.counter++;
+    };
+  };
+  statementLibrary['control_repeat'] = function(util) {
+    const TIMES = util.getInput('TIMES', 'any');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    if (util.interpreter.state.isWarp && !util.substacksQueue) {
+      return util.yielding(function*(thread) {
+        let count = TIMES(thread);
+        while (count >= 0.5) {
+          count -= 1;
+          SUBSTACK(thread);
+          if (warpTimerExpired()) yield true;
+        }
+      });
+    }
+    return util.yielding(function*(thread) {
+      let count = TIMES(thread);
+      while (count >= 0.5) {
+        count -= 1;
+        yield* execute(SUBSTACK, thread);
+        yield false;
+      }
+    });
+  };
+  statementLibrary['control_repeat_until'] = function(util) {
+    const CONDITION = util.getInput('CONDITION', 'boolean');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    if (util.interpreter.state.isWarp && !util.substacksQueue) {
+      return util.yielding(function*(thread) {
+        while (!CONDITION(thread)) {
+          SUBSTACK(thread);
+          if (warpTimerExpired()) yield true;
+        }
+      });
+    }
+    return util.yielding(function*(thread) {
+      while (!CONDITION(thread)) {
+        yield* execute(SUBSTACK, thread);
+        yield false;
+      }
+    });
+  };
+  statementLibrary['control_stop'] = function(util) {
+    const STOP_OPTION = util.getField('STOP_OPTION');
+    switch (STOP_OPTION) {
+      case 'all':
+        return (thread) => {
+          thread.stage.runtime.stopAll();
+          stopThread();
+        };
+      case 'this script':
+        return (thread) => {
+          stopScript();
+        };
+      case 'other scripts in sprite':
+      case 'other scripts in stage':
+        return (thread) => {
+          const S = thread.target;
+          const runtime = thread.stage.runtime;
+          S.stopSoundsExcept(thread.base!);
+          // The running thread is not in the queue while it runs, so it won't be stopped.
+          for (let i = 0; i < runtime.queue.length; i++) {
+            const queued = runtime.queue[i];
+            if (queued && queued.sprite === S) {
+              runtime.queue[i] = undefined;
+            }
+          }
+        };
+    }
+    return (thread) => {};
+  };
+  statementLibrary['control_wait'] = function(util) {
+    const DURATION = util.getInput('DURATION', 'any');
+    return util.yielding(function*(thread) {
+      const runtime = thread.stage.runtime;
+      setVisual();
+      const start = runtime.currentMSecs;
+      const duration = DURATION(thread);
+      do {
+        yield true;
+      } while (runtime.currentMSecs - start < duration * 1000);
+    });
+  };
+  statementLibrary['control_wait_until'] = function(util) {
+    const CONDITION = util.getInput('CONDITION', 'boolean');
+    return util.yielding(function*(thread) {
+      while (!CONDITION(thread)) {
+        yield true;
+      }
+    });
+  };
+  statementLibrary['control_while'] = function(util) {
+    const CONDITION = util.getInput('CONDITION', 'boolean');
+    const SUBSTACK = util.getSubstack('SUBSTACK');
+    if (util.interpreter.state.isWarp && !util.substacksQueue) {
+      return util.yielding(function*(thread) {
+        while (CONDITION(thread)) {
+          SUBSTACK(thread);
+          if (warpTimerExpired()) yield true;
+        }
+      });
+    }
+    return util.yielding(function*(thread) {
+      while (CONDITION(thread)) {
+        yield* execute(SUBSTACK, thread);
+        yield false;
+      }
+    });
+  };
+  statementLibrary['data_addtolist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const ITEM = util.getInput('ITEM', 'any');
+    return (thread) => {
+      watchedAppendToList(LIST(thread), ITEM(thread));
+    };
+  };
+  statementLibrary['data_changevariableby'] = function(util) {
+    const VARIABLE = util.getVariableReference('VARIABLE');
+    const VALUE = util.getInput('VALUE', 'number');
+    const cloudName = util.isCloudVariable('VARIABLE') ? util.getField('VARIABLE') : null;
+    return (thread) => {
+      VARIABLE.set(thread, (+VARIABLE.get(thread) || 0) + VALUE(thread));
+      if (cloudName !== null) {
+        cloudVariableChanged(cloudName);
+      }
+    };
+  };
+  statementLibrary['data_deletealloflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    return (thread) => {
+      watchedDeleteAllOfList(LIST(thread));
+    };
+  };
+  statementLibrary['data_deleteoflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const INDEX = util.getInput('INDEX', 'any');
+    return (thread) => {
+      watchedDeleteLineOfList(LIST(thread), INDEX(thread));
+    };
+  };
+  statementLibrary['data_hidelist'] = function(util) {
+    const LIST = util.getField('LIST');
+    const scope = util.getListScope('LIST');
+    return (thread) => {
+      scope(thread).showList(LIST, false);
+    };
+  };
+  statementLibrary['data_hidevariable'] = function(util) {
+    const VARIABLE = util.getField('VARIABLE');
+    const scope = util.getVariableScope('VARIABLE');
+    return (thread) => {
+      scope(thread).showVariable(VARIABLE, false);
+    };
+  };
+  statementLibrary['data_insertatlist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const INDEX = util.getInput('INDEX', 'any');
+    const ITEM = util.getInput('ITEM', 'any');
+    return (thread) => {
+      watchedInsertInList(LIST(thread), INDEX(thread), ITEM(thread));
+    };
+  };
+  statementLibrary['data_replaceitemoflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const ITEM = util.getInput('ITEM', 'any');
+    const INDEX = util.getInput('INDEX', 'any');
+    return (thread) => {
+      watchedSetLineOfList(LIST(thread), INDEX(thread), ITEM(thread));
+    };
+  };
+  statementLibrary['data_setvariableto'] = function(util) {
+    const VARIABLE = util.getVariableReference('VARIABLE');
+    const VALUE = util.getInput('VALUE', 'any');
+    const cloudName = util.isCloudVariable('VARIABLE') ? util.getField('VARIABLE') : null;
+    return (thread) => {
+      VARIABLE.set(thread, VALUE(thread));
+      if (cloudName !== null) {
+        cloudVariableChanged(cloudName);
+      }
+    };
+  };
+  statementLibrary['data_showlist'] = function(util) {
+    const LIST = util.getField('LIST');
+    const scope = util.getListScope('LIST');
+    return (thread) => {
+      scope(thread).showList(LIST, true);
+    };
+  };
+  statementLibrary['data_showvariable'] = function(util) {
+    const VARIABLE = util.getField('VARIABLE');
+    const scope = util.getVariableScope('VARIABLE');
+    return (thread) => {
+      scope(thread).showVariable(VARIABLE, true);
+    };
+  };
+  statementLibrary['event_broadcast'] = function(util) {
+    const BROADCAST_INPUT = util.getInput('BROADCAST_INPUT', 'any');
+    return (thread) => {
+      stopIfRestarted(thread, broadcast(BROADCAST_INPUT(thread)));
+    };
+  };
+  statementLibrary['event_broadcastandwait'] = function(util) {
+    const BROADCAST_INPUT = util.getInput('BROADCAST_INPUT', 'any');
+    return util.yielding(function*(thread) {
+      const threads = broadcast(BROADCAST_INPUT(thread));
+      stopIfRestarted(thread, threads);
+      while (running(threads)) {
+        yield true;
+      }
+    });
+  };
+  statementLibrary['looks_changeeffectby'] = function(util) {
+    const EFFECT = util.getField('EFFECT').toLowerCase();
+    const CHANGE = util.getInput('CHANGE', 'number');
+    return (thread) => {
+      thread.target.changeFilter(EFFECT, CHANGE(thread));
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_changesizeby'] = function(util) {
+    const CHANGE = util.getInput('CHANGE', 'any');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      const f = S.scale + CHANGE(thread) / 100;
+      S.scale = f < 0 ? 0 : f;
+      visualVisible(S);
+    };
+  };
+  statementLibrary['looks_cleargraphiceffects'] = function(util) {
+    return (thread) => {
+      thread.target.resetFilters();
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_goforwardbackwardlayers'] = function(util) {
+    const FORWARD_BACKWARD = util.getField('FORWARD_BACKWARD');
+    const NUM = util.getInput('NUM', 'number');
+    const direction = FORWARD_BACKWARD === 'forward' ? 1 : -1;
+    return (thread) => {
+      const S = thread.target as Sprite;
+      const self = thread.stage;
+      const i = self.children.indexOf(S);
+      if (i !== -1) {
+        self.children.splice(i, 1);
+        self.children.splice(Math.max(0, Math.min(self.children.length - 1, i + direction * NUM(thread))), 0, S);
+      }
+    };
+  };
+  statementLibrary['looks_gotofrontback'] = function(util) {
+    const FRONT_BACK = util.getField('FRONT_BACK');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      const self = thread.stage;
+      const i = self.children.indexOf(S);
+      if (i !== -1) self.children.splice(i, 1);
+      if (FRONT_BACK === 'front') {
+        self.children.push(S);
+      } else {
+        self.children.unshift(S);
+      }
+    };
+  };
+  statementLibrary['looks_hide'] = function(util) {
+    return (thread) => {
+      const S = thread.target;
+      visualVisible(S);
+      S.visible = false;
+      updateBubble(S);
+    };
+  };
+  statementLibrary['looks_nextbackdrop'] = function(util) {
+    return (thread) => {
+      thread.stage.showNextCostume();
+      setVisual();
+      stopIfRestarted(thread, sceneChange());
+    };
+  };
+  statementLibrary['looks_nextcostume'] = function(util) {
+    return (thread) => {
+      thread.target.showNextCostume();
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_say'] = function(util) {
+    const MESSAGE = util.getInput('MESSAGE', 'any');
+    return (thread) => {
+      thread.target.say(MESSAGE(thread), false);
+      visualVisible(thread.target);
+    };
+  };
+  const sayForSecs = function(util: P.sb3.interpreter.StatementUtil, thinking: boolean) {
+    const MESSAGE = util.getInput('MESSAGE', 'any');
+    const SECS = util.getInput('SECS', 'number');
+    return util.yielding(function*(thread) {
+      const S = thread.target;
+      const runtime = thread.stage.runtime;
+      const id = S.say(MESSAGE(thread), thinking);
+      visualVisible(S);
+      const start = runtime.now();
+      const duration = SECS(thread);
+      while (runtime.now() - start < duration * 1000) {
+        yield true;
+      }
+      if (S.sayId === id) {
+        S.say('');
+      }
+    });
+  };
+  statementLibrary['looks_sayforsecs'] = function(util) {
+    return sayForSecs(util, false);
+  };
+  statementLibrary['looks_seteffectto'] = function(util) {
+    const EFFECT = util.getField('EFFECT').toLowerCase();
+    const VALUE = util.getInput('VALUE', 'number');
+    return (thread) => {
+      thread.target.setFilter(EFFECT, VALUE(thread));
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_setsizeto'] = function(util) {
+    const SIZE = util.getInput('SIZE', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.scale = Math.max(0, SIZE(thread) / 100);
+      visualVisible(S);
+    };
+  };
+  statementLibrary['looks_show'] = function(util) {
+    return (thread) => {
+      const S = thread.target;
+      S.visible = true;
+      setVisual();
+      updateBubble(S);
+    };
+  };
+  statementLibrary['looks_switchbackdropto'] = function(util) {
+    // BACKDROP cannot be casted: setCostume behavior depends on type
+    const BACKDROP = util.getInput('BACKDROP', 'any');
+    return (thread) => {
+      thread.stage.setCostume(BACKDROP(thread));
+      setVisual();
+      stopIfRestarted(thread, sceneChange());
+    };
+  };
+  statementLibrary['looks_switchbackdroptoandwait'] = function(util) {
+    const BACKDROP = util.getInput('BACKDROP', 'any');
+    return util.yielding(function*(thread) {
+      thread.stage.setCostume(BACKDROP(thread));
+      setVisual();
+      const threads = sceneChange();
+      stopIfRestarted(thread, threads);
+      while (running(threads)) {
+        yield true;
+      }
+    });
+  };
+  statementLibrary['looks_switchcostumeto'] = function(util) {
+    // COSTUME cannot be casted: setCostume behavior depends on type
+    const COSTUME = util.getInput('COSTUME', 'any');
+    return (thread) => {
+      thread.target.setCostume(COSTUME(thread));
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_think'] = function(util) {
+    const MESSAGE = util.getInput('MESSAGE', 'any');
+    return (thread) => {
+      thread.target.say(MESSAGE(thread), true);
+      visualVisible(thread.target);
+    };
+  };
+  statementLibrary['looks_thinkforsecs'] = function(util) {
+    return sayForSecs(util, true);
+  };
+  statementLibrary['motion_changexby'] = function(util) {
+    const DX = util.getInput('DX', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.moveTo(S.scratchX + DX(thread), S.scratchY);
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_changeyby'] = function(util) {
+    const DY = util.getInput('DY', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.moveTo(S.scratchX, S.scratchY + DY(thread));
+      visualDrawing(S);
+    };
+  };
+  // Moves a sprite to a position over time.
+  function* glide(thread: Thread, duration: any, x: number, y: number) {
+    const S = thread.target as Sprite;
+    const runtime = thread.stage.runtime;
+    const start = runtime.now();
+    const baseX = S.scratchX;
+    const baseY = S.scratchY;
+    const deltaX = x - S.scratchX;
+    const deltaY = y - S.scratchY;
+    while (true) {
+      let f = (runtime.now() - start) / (duration * 1000);
+      if (f > 1 || isNaN(f)) f = 1;
+      S.moveTo(baseX + f * deltaX, baseY + f * deltaY);
+      visualDrawing(S);
+      if (f >= 1) {
+        break;
+      }
+      yield true;
+    }
+  }
+  statementLibrary['motion_glidesecstoxy'] = function(util) {
+    const SECS = util.getInput('SECS', 'any');
+    const X = util.getInput('X', 'any');
+    const Y = util.getInput('Y', 'any');
+    return util.yielding(function*(thread) {
+      visualDrawing(thread.target);
+      yield* glide(thread, SECS(thread), X(thread), Y(thread));
+    });
+  };
+  statementLibrary['motion_glideto'] = function(util) {
+    const SECS = util.getInput('SECS', 'any');
+    const TO = util.getInput('TO', 'any');
+    return util.yielding(function*(thread) {
+      visualDrawing(thread.target);
+      const duration = SECS(thread);
+      const to = thread.stage.getPosition(TO(thread));
+      if (to) {
+        yield* glide(thread, duration, to.x, to.y);
+      }
+    });
+  };
+  statementLibrary['motion_goto'] = function(util) {
+    const TO = util.getInput('TO', 'any');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.gotoObject(TO(thread));
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_gotoxy'] = function(util) {
+    const X = util.getInput('X', 'number');
+    const Y = util.getInput('Y', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.moveTo(X(thread), Y(thread));
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_ifonedgebounce'] = function(util) {
+    return (thread) => {
+      (thread.target as Sprite).bounceOffEdge();
+    };
+  };
+  statementLibrary['motion_movesteps'] = function(util) {
+    const STEPS = util.getInput('STEPS', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.forward(STEPS(thread));
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_pointindirection'] = function(util) {
+    const DIRECTION = util.getInput('DIRECTION', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      visualVisible(S);
+      S.setDirection(DIRECTION(thread));
+    };
+  };
+  statementLibrary['motion_pointtowards'] = function(util) {
+    const TOWARDS = util.getInput('TOWARDS', 'any');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.pointTowards(TOWARDS(thread));
+      visualVisible(S);
+    };
+  };
+  statementLibrary['motion_setrotationstyle'] = function(util) {
+    const STYLE = P.utils.parseRotationStyle(util.getField('STYLE'));
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.rotationStyle = STYLE;
+      visualVisible(S);
+    };
+  };
+  statementLibrary['motion_setx'] = function(util) {
+    const X = util.getInput('X', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.moveTo(X(thread), S.scratchY);
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_sety'] = function(util) {
+    const Y = util.getInput('Y', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.moveTo(S.scratchX, Y(thread));
+      visualDrawing(S);
+    };
+  };
+  statementLibrary['motion_turnleft'] = function(util) {
+    const DEGREES = util.getInput('DEGREES', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.setDirection(S.direction - DEGREES(thread));
+      visualVisible(S);
+    };
+  };
+  statementLibrary['motion_turnright'] = function(util) {
+    const DEGREES = util.getInput('DEGREES', 'number');
+    return (thread) => {
+      const S = thread.target as Sprite;
+      S.setDirection(S.direction + DEGREES(thread));
+      visualVisible(S);
+    };
+  };
+  statementLibrary['music_changeTempo'] = function(util) {
+    const TEMPO = util.getInput('TEMPO', 'number');
+    return (thread) => {
+      thread.stage.tempoBPM += TEMPO(thread);
+    };
+  };
+  /**
+   * Plays a drum for a number of beats.
+   * @param drum Finds the drum, which may be undefined if there is no such drum.
+   */
+  const playDrumForBeats = function(util: P.sb3.interpreter.StatementUtil, drum: (thread: Thread) => typeof DRUMS[number] | undefined) {
+    const BEATS = util.getInput('BEATS', 'number');
+    util.interpreter.needsMusic = true;
+    const hasAudio = !!P.audio.context;
+    return util.yielding(function*(thread) {
+      const beats = BEATS(thread);
+      const sound = hasAudio ? playSpan(drum(thread) || DRUMS[2], 60, 10) : { stopped: false };
+      thread.target.activeSounds.add(sound as P.core.ActiveSound);
+      yield* waitForBeats(thread, beats, sound);
+      thread.target.activeSounds.delete(sound as P.core.ActiveSound);
+    });
+  };
+  statementLibrary['music_midiPlayDrumForBeats'] = function(util) {
+    const DRUM = util.getInput('DRUM', 'number');
+    return playDrumForBeats(util, (thread) => DRUMS[MIDI_DRUMS[Math.round(DRUM(thread)) - 35]]);
+  };
+  statementLibrary['music_midiSetInstrument'] = function(util) {
+    const INSTRUMENT = util.getInput('INSTRUMENT', 'number');
+    return (thread) => {
+      const program = Math.round(INSTRUMENT(thread)) - 1;
+      // Unknown instruments are played with the first instrument.
+      thread.target.instrument = program >= 0 && program < MIDI_INSTRUMENTS.length ? MIDI_INSTRUMENTS[program] : MIDI_INSTRUMENTS[0];
+    };
+  };
+  statementLibrary['music_playDrumForBeats'] = function(util) {
+    const DRUM = util.getInput('DRUM', 'number');
+    return playDrumForBeats(util, (thread) => DRUMS[Math.round(DRUM(thread)) - 1]);
+  };
+  statementLibrary['music_playNoteForBeats'] = function(util) {
+    const BEATS = util.getInput('BEATS', 'number');
+    const NOTE = util.getInput('NOTE', 'number');
+    util.interpreter.needsMusic = true;
+    const hasAudio = !!P.audio.context;
+    return util.yielding(function*(thread) {
+      const beats = BEATS(thread);
+      const duration = beats * 60 / thread.stage.tempoBPM;
+      const sound = hasAudio ? playNote(NOTE(thread), duration) : { stopped: false };
+      thread.target.activeSounds.add(sound as P.core.ActiveSound);
+      yield* waitForBeats(thread, beats, sound);
+      thread.target.activeSounds.delete(sound as P.core.ActiveSound);
+    });
+  };
+  statementLibrary['music_restForBeats'] = function(util) {
+    const BEATS = util.getInput('BEATS', 'number');
+    return util.yielding(function*(thread) {
+      yield* waitForBeats(thread, BEATS(thread), null);
+    });
+  };
+  statementLibrary['music_setTempo'] = function(util) {
+    const TEMPO = util.getInput('TEMPO', 'number');
+    return (thread) => {
+      thread.stage.tempoBPM = TEMPO(thread);
+    };
+  };
+  statementLibrary['music_setInstrument'] = function(util) {
+    const INSTRUMENT = util.getInput('INSTRUMENT', 'number');
+    return (thread) => {
+      thread.target.instrument = Math.max(0, Math.min(INSTRUMENTS.length - 1, INSTRUMENT(thread) - 1)) | 0;
+    };
+  };
+  statementLibrary['pen_changePenColorParamBy'] = function(util) {
+    const COLOR_PARAM = util.getInput('COLOR_PARAM', 'string');
+    const VALUE = util.getInput('VALUE', 'number');
+    return (thread) => {
+      thread.target.penColor.changeParam(COLOR_PARAM(thread), VALUE(thread));
+    };
+  };
+  statementLibrary['pen_changePenHueBy'] = function(util) {
+    // This is an old pen hue block, which functions differently from the new one.
+    const HUE = util.getInput('HUE', 'number');
+    return (thread) => {
+      const penColor = thread.target.penColor;
+      penColor.toHSLA();
+      penColor.x += HUE(thread) * 360 / 200;
+      penColor.y = 100;
+    };
+  };
+  statementLibrary['pen_changePenShadeBy'] = function(util) {
+    const SHADE = util.getInput('SHADE', 'number');
+    return (thread) => {
+      const penColor = thread.target.penColor;
+      penColor.toHSLA();
+      penColor.z = (penColor.z + SHADE(thread)) % 200;
+      if (penColor.z < 0) penColor.z += 200;
+      penColor.y = 100;
+    };
+  };
+  statementLibrary['pen_changePenSizeBy'] = function(util) {
+    const SIZE = util.getInput('SIZE', 'number');
+    return (thread) => {
+      const S = thread.target;
+      S.penSize = Math.max(1, S.penSize + SIZE(thread));
+    };
+  };
+  statementLibrary['pen_clear'] = function(util) {
+    return (thread) => {
+      thread.stage.clearPen();
+      setVisual();
+    };
+  };
+  statementLibrary['pen_penDown'] = function(util) {
+    return (thread) => {
+      const S = thread.target;
+      S.isPenDown = true;
+      S.dotPen();
+      setVisual();
+    };
+  };
+  statementLibrary['pen_penUp'] = function(util) {
+    return (thread) => {
+      thread.target.isPenDown = false;
+    };
+  };
+  statementLibrary['pen_setPenColorParamTo'] = function(util) {
+    const COLOR_PARAM = util.getInput('COLOR_PARAM', 'string');
+    const VALUE = util.getInput('VALUE', 'number');
+    return (thread) => {
+      thread.target.penColor.setParam(COLOR_PARAM(thread), VALUE(thread));
+    };
+  };
+  statementLibrary['pen_setPenColorToColor'] = function(util) {
+    const COLOR = util.getInput('COLOR', 'color');
+    return (thread) => {
+      thread.target.penColor.setShiftedRGBA(COLOR(thread));
+    };
+  };
+  statementLibrary['pen_setPenHueToNumber'] = function(util) {
+    // This is an old pen hue block, which functions differently from the new one.
+    const HUE = util.getInput('HUE', 'number');
+    return (thread) => {
+      const penColor = thread.target.penColor;
+      penColor.toHSLA();
+      penColor.x = HUE(thread) * 360 / 200;
+      penColor.y = 100;
+      penColor.a = 1;
+    };
+  };
+  statementLibrary['pen_setPenShadeToNumber'] = function(util) {
+    const SHADE = util.getInput('SHADE', 'number');
+    return (thread) => {
+      const penColor = thread.target.penColor;
+      penColor.toHSLA();
+      penColor.z = SHADE(thread) % 200;
+      if (penColor.z < 0) penColor.z += 200;
+      penColor.y = 100;
+    };
+  };
+  statementLibrary['pen_setPenSizeTo'] = function(util) {
+    const SIZE = util.getInput('SIZE', 'number');
+    return (thread) => {
+      // clamping per https://github.com/LLK/scratch-vm/blob/015a095dfd30b229511f174cea96dbdb612af8eb/src/extensions/scratch3_pen/index.js#L101
+      thread.target.penSize = Math.max(1, Math.min(SIZE(thread), 1200));
+    };
+  };
+  statementLibrary['pen_stamp'] = function(util) {
+    return (thread) => {
+      thread.target.stamp();
+      setVisual();
+    };
+  };
+  statementLibrary['procedures_call'] = function(util) {
+    const mutation = util.block.mutation;
+    const name = mutation.proccode;
+
+    if (P.config.debug) {
+      if (name === 'forkphorus:debugger;') {
+        return (thread) => {
+          debugger;
+        };
+      } else if (name === 'forkphorus:throw;') {
+        return (thread) => {
+          throw new Error('Debug intended crash');
+        };
+      }
+    }
+
+    // The mutation has a stringified JSON list of input IDs... it's weird.
+    const inputNames: string[] = JSON.parse(mutation.argumentids);
+    const inputs = inputNames.map((inputName) => util.getInput(inputName, 'any'));
+
+    return util.yielding(function*(thread) {
+      const procedure = thread.target.procedures[name] as P.sb3.interpreter.InterpretedProcedure;
+      const values = inputs.map((input) => input(thread));
+      if (procedure) {
+        yield* thread.call(procedure, values);
+      }
+    });
+  };
+  statementLibrary['sound_changeeffectby'] = function(util) {
+    const EFFECT = util.getField('EFFECT');
+    const VALUE = util.getInput('VALUE', 'number');
+    return util.yielding(function*(thread) {
+      thread.target.changeSoundFilter(EFFECT, VALUE(thread));
+      if (updateSoundEffectsOnAllSounds) updateSoundEffectsOnAllSounds();
+      yield* waitOneTick(thread);
+    });
+  };
+  statementLibrary['sound_changevolumeby'] = function(util) {
+    const VOLUME = util.getInput('VOLUME', 'number');
+    return util.yielding(function*(thread) {
+      const S = thread.target;
+      S.volume = Math.max(0, Math.min(1, S.volume + VOLUME(thread) / 100));
+      if (S.node) S.node.gain.value = S.volume;
+      yield* waitOneTick(thread);
+    });
+  };
+  statementLibrary['sound_cleareffects'] = function(util) {
+    return (thread) => {
+      thread.target.resetSoundFilters();
+    };
+  };
+  statementLibrary['sound_play'] = function(util) {
+    const SOUND_MENU = util.getInput('SOUND_MENU', 'any');
+    if (!P.audio.context) {
+      return (thread) => {};
+    }
+    return (thread) => {
+      const sound = thread.target.getSound(SOUND_MENU(thread));
+      if (sound) startSound(sound);
+    };
+  };
+  statementLibrary['sound_playuntildone'] = function(util) {
+    const SOUND_MENU = util.getInput('SOUND_MENU', 'any');
+    if (!P.audio.context) {
+      return (thread) => {};
+    }
+    return util.yielding(function*(thread) {
+      const S = thread.target;
+      const sound = S.getSound(SOUND_MENU(thread));
+      // Sounds that are decoded in the background are played once they are ready.
+      while (sound && sound.isLoading) {
+        yield true;
+      }
+      if (sound && sound.buffer) {
+        const activeSound = playSound(sound);
+        S.activeSounds.add(activeSound);
+        while (!activeSound.stopped && !(activeSound.node as any).ended) {
+          yield true;
+        }
+        S.activeSounds.delete(activeSound);
+      }
+    });
+  };
+  statementLibrary['sound_seteffectto'] = function(util) {
+    const EFFECT = util.getField('EFFECT');
+    const VALUE = util.getInput('VALUE', 'number');
+    return util.yielding(function*(thread) {
+      thread.target.setSoundFilter(EFFECT, VALUE(thread));
+      if (updateSoundEffectsOnAllSounds) updateSoundEffectsOnAllSounds();
+      yield* waitOneTick(thread);
+    });
+  };
+  statementLibrary['sound_setvolumeto'] = function(util) {
+    const VOLUME = util.getInput('VOLUME', 'number');
+    return util.yielding(function*(thread) {
+      const S = thread.target;
+      S.volume = Math.max(0, Math.min(1, VOLUME(thread) / 100));
+      if (S.node) S.node.gain.value = S.volume;
+      yield* waitOneTick(thread);
+    });
+  };
+  statementLibrary['sound_stopallsounds'] = function(util) {
+    if (!P.audio.context) {
+      return (thread) => {};
+    }
+    return (thread) => {
+      thread.stage.stopAllSounds();
+    };
+  };
+  statementLibrary['sensing_askandwait'] = function(util) {
+    const QUESTION = util.getInput('QUESTION', 'string');
+    return util.yielding(function*(thread) {
+      const self = thread.stage;
+      const id = self.nextPromptId++;
+      while (self.promptId < id) {
+        yield true;
+      }
+      thread.target.ask(QUESTION(thread));
+      while (self.promptId === id) {
+        yield true;
+      }
+      thread.target.say('');
+      setVisual();
+    });
+  };
+  statementLibrary['sensing_resettimer'] = function(util) {
+    return (thread) => {
+      thread.stage.runtime.resetTimer();
+    };
+  };
+  statementLibrary['sensing_setdragmode'] = function(util) {
+    const draggable = util.getField('DRAG_MODE') === 'draggable';
+    return (thread) => {
+      (thread.target as Sprite).isDraggable = draggable;
+    };
+  };
+  statementLibrary['text2speech_setVoice'] = function(util) {
+    const VOICE = util.getInput('VOICE', 'string');
+    util.stage.initTextToSpeech();
+    return (thread) => {
+      thread.stage.tts!.setVoice(VOICE(thread));
+    };
+  };
+  statementLibrary['text2speech_setLanguage'] = function(util) {
+    const LANGUAGE = util.getInput('LANGUAGE', 'string');
+    util.stage.initTextToSpeech();
+    return (thread) => {
+      thread.stage.tts!.setLanguage(LANGUAGE(thread));
+    };
+  };
+  statementLibrary['text2speech_speakAndWait'] = function(util) {
+    const WORDS = util.getInput('WORDS', 'string');
+    util.stage.initTextToSpeech();
+    return util.yielding(function*(thread) {
+      yield* waitUntilSettles(thread.stage.tts!.speak(WORDS(thread)));
+    });
+  };
+  statementLibrary['videoSensing_setVideoTransparency'] = function(util) {
+    const TRANSPARENCY = util.getInput('TRANSPARENCY', 'number');
+    util.stage.initVideoSensing();
+    return (thread) => thread.stage.videoSensing!.setTransparency(TRANSPARENCY(thread));
+  };
+  statementLibrary['videoSensing_videoToggle'] = function(util) {
+    const VIDEO_STATE = util.getInput('VIDEO_STATE', 'string');
+    util.stage.initVideoSensing();
+    return (thread) => thread.stage.videoSensing!.setVideoState(VIDEO_STATE(thread));
+  };
+
+  // Legacy no-ops
+  const noopStatement = (util: P.sb3.interpreter.StatementUtil) => (thread: Thread) => {};
+  statementLibrary['motion_align_scene'] = noopStatement;
+  statementLibrary['motion_scroll_right'] = noopStatement;
+  statementLibrary['motion_scroll_up'] = noopStatement;
+  statementLibrary['looks_changestretchby'] = noopStatement;
+  statementLibrary['looks_hideallsprites'] = noopStatement;
+  statementLibrary['looks_setstretchto'] = noopStatement;
+
+  /* Inputs */
+  inputLibrary['argument_reporter_boolean'] = function(util) {
+    const VALUE = util.getField('VALUE');
+    const state = util.interpreter.state;
+    if (!state.isProcedure || state.argumentNames.indexOf(VALUE) === -1) {
+      const lowerCaseName = VALUE.toLowerCase();
+      if (lowerCaseName === 'is compiled?' || lowerCaseName === 'is forkphorus?') {
+        return util.booleanInput(() => true);
+      }
+      // Missing boolean reporters are 0, not false.
+      return util.numberInput(() => 0);
+    }
+    return util.booleanInput((thread) => bool(thread.args[VALUE]));
+  };
+  inputLibrary['argument_reporter_string_number'] = function(util) {
+    const VALUE = util.getField('VALUE');
+    const state = util.interpreter.state;
+    if (!state.isProcedure || state.argumentNames.indexOf(VALUE) === -1) {
+      return util.numberInput(() => 0);
+    }
+    return util.anyInput((thread) => thread.args[VALUE]);
+  };
+  inputLibrary['control_create_clone_of_menu'] = function(util) {
+    return util.fieldInput('CLONE_OPTION');
+  };
+  inputLibrary['control_get_counter'] = function(util) {
+    return util.numberInput((thread) => thread.stage.counter);
+  };
+  inputLibrary['data_itemoflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const INDEX = util.getInput('INDEX', 'any');
+    return util.anyInput((thread) => getLineOfList(LIST(thread), INDEX(thread)));
+  };
+  inputLibrary['data_itemnumoflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const ITEM = util.getInput('ITEM', 'any');
+    return util.numberInput((thread) => listIndexOf(LIST(thread), ITEM(thread)));
+  };
+  inputLibrary['data_lengthoflist'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    return util.numberInput((thread) => LIST(thread).length);
+  };
+  inputLibrary['data_listcontainsitem'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    const ITEM = util.getInput('ITEM', 'any');
+    return util.booleanInput((thread) => listContains(LIST(thread), ITEM(thread)));
+  };
+  inputLibrary['data_listcontents'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    return util.stringInput((thread) => '' + LIST(thread));
+  };
+  inputLibrary['event_touchingobjectmenu'] = function(util) {
+    return util.fieldInput('TOUCHINGOBJECTMENU');
+  };
+  inputLibrary['looks_backdropnumbername'] = function(util) {
+    const NUMBER_NAME = util.getField('NUMBER_NAME');
+    if (NUMBER_NAME === 'number') {
+      return util.numberInput((thread) => thread.stage.currentCostumeIndex + 1);
+    } else {
+      return util.stringInput((thread) => thread.stage.costumes[thread.stage.currentCostumeIndex].name);
+    }
+  };
+  inputLibrary['looks_backdrops'] = function(util) {
+    return util.fieldInput('BACKDROP');
+  };
+  inputLibrary['looks_costume'] = function(util) {
+    return util.fieldInput('COSTUME');
+  };
+  inputLibrary['looks_costumenumbername'] = function(util) {
+    const NUMBER_NAME = util.getField('NUMBER_NAME');
+    if (NUMBER_NAME === 'number') {
+      return util.numberInput((thread) => thread.target.currentCostumeIndex + 1);
+    } else {
+      return util.stringInput((thread) => thread.target.costumes[thread.target.currentCostumeIndex].name);
+    }
+  };
+  inputLibrary['looks_size'] = function(util) {
+    return util.numberInput((thread) => Math.round((thread.target as Sprite).scale * 100));
+  };
+  inputLibrary['makeymakey_menu_KEY'] = function(util) {
+    return util.fieldInput('KEY');
+  };
+  inputLibrary['makeymakey_menu_SEQUENCE'] = function(util) {
+    return util.fieldInput('SEQUENCE');
+  };
+  inputLibrary['matrix'] = function(util) {
+    return util.fieldInput('MATRIX');
+  };
+  inputLibrary['motion_direction'] = function(util) {
+    return util.numberInput((thread) => (thread.target as Sprite).direction);
+  };
+  inputLibrary['motion_glideto_menu'] = function(util) {
+    return util.fieldInput('TO');
+  };
+  inputLibrary['motion_goto_menu'] = function(util) {
+    return util.fieldInput('TO');
+  };
+  inputLibrary['motion_pointtowards_menu'] = function(util) {
+    return util.fieldInput('TOWARDS');
+  };
+  inputLibrary['motion_xposition'] = function(util) {
+    return util.numberInput((thread) => (thread.target as Sprite).scratchX);
+  };
+  inputLibrary['motion_yposition'] = function(util) {
+    return util.numberInput((thread) => (thread.target as Sprite).scratchY);
+  };
+  inputLibrary['music_getTempo'] = function(util) {
+    return util.numberInput((thread) => thread.stage.tempoBPM);
+  };
+  inputLibrary['music_menu_DRUM'] = function(util) {
+    return util.fieldInput('DRUM');
+  };
+  inputLibrary['music_menu_INSTRUMENT'] = function(util) {
+    return util.fieldInput('INSTRUMENT');
+  };
+  inputLibrary['note'] = function(util) {
+    return util.fieldInput('NOTE');
+  };
+  inputLibrary['operator_add'] = function(util) {
+    const NUM1 = util.getInput('NUM1', 'number');
+    const NUM2 = util.getInput('NUM2', 'number');
+    return util.numberInput((thread) => NUM1(thread) + NUM2(thread) || 0);
+  };
+  inputLibrary['operator_and'] = function(util) {
+    const OPERAND1 = util.getInput('OPERAND1', 'any');
+    const OPERAND2 = util.getInput('OPERAND2', 'any');
+    return util.booleanInput((thread) => OPERAND1(thread) && OPERAND2(thread));
+  };
+  inputLibrary['operator_contains'] = function(util) {
+    const STRING1 = util.getInput('STRING1', 'string');
+    const STRING2 = util.getInput('STRING2', 'string');
+    return util.booleanInput((thread) => stringContains(STRING1(thread), STRING2(thread)));
+  };
+  inputLibrary['operator_divide'] = function(util) {
+    const NUM1 = util.getInput('NUM1', 'number');
+    const NUM2 = util.getInput('NUM2', 'number');
+    const input = util.numberInput((thread) => NUM1(thread) / NUM2(thread));
+    input.enableFlag(P.sb3.compiler.InputFlags.NaN);
+    return input;
+  };
+  inputLibrary['operator_equals'] = function(util) {
+    const OPERAND1 = util.getTypedInput('OPERAND1', 'any');
+    const OPERAND2 = util.getTypedInput('OPERAND2', 'any');
+    const a = OPERAND1.evaluate;
+    const b = OPERAND2.evaluate;
+    // If we know ahead of time that either input cannot be a number, we will use the faster strEqual.
+    if (!OPERAND1.potentialNumber || !OPERAND2.potentialNumber) {
+      return util.booleanInput((thread) => strEqual(a(thread), b(thread)));
+    }
+    if (P.config.experimentalOptimizations) {
+      if (OPERAND1.type === 'number') {
+        return util.booleanInput((thread) => numEqualExperimental(a(thread), b(thread)));
+      }
+      if (OPERAND2.type === 'number') {
+        return util.booleanInput((thread) => numEqualExperimental(b(thread), a(thread)));
+      }
+    }
+    return util.booleanInput((thread) => equal(a(thread), b(thread)));
+  };
+  inputLibrary['operator_gt'] = function(util) {
+    const OPERAND1 = util.getTypedInput('OPERAND1', 'any');
+    const OPERAND2 = util.getTypedInput('OPERAND2', 'any');
+    const a = OPERAND1.evaluate;
+    const b = OPERAND2.evaluate;
+    if (P.config.experimentalOptimizations) {
+      if (OPERAND1.type === 'number') {
+        return util.booleanInput((thread) => numGreaterExperimental(a(thread), b(thread)));
+      }
+    }
+    return util.booleanInput((thread) => compare(a(thread), b(thread)) === 1);
+  };
+  inputLibrary['operator_join'] = function(util) {
+    const STRING1 = util.getInput('STRING1', 'string');
+    const STRING2 = util.getInput('STRING2', 'string');
+    return util.stringInput((thread) => STRING1(thread) + STRING2(thread));
+  };
+  inputLibrary['operator_length'] = function(util) {
+    const STRING = util.getInput('STRING', 'string');
+    return util.numberInput((thread) => STRING(thread).length);
+  };
+  inputLibrary['operator_letter_of'] = function(util) {
+    const STRING = util.getInput('STRING', 'string');
+    const LETTER = util.getInput('LETTER', 'number');
+    return util.stringInput((thread) => STRING(thread)[(LETTER(thread) | 0) - 1] || '');
+  };
+  inputLibrary['operator_lt'] = function(util) {
+    const OPERAND1 = util.getTypedInput('OPERAND1', 'any');
+    const OPERAND2 = util.getTypedInput('OPERAND2', 'any');
+    const a = OPERAND1.evaluate;
+    const b = OPERAND2.evaluate;
+    if (P.config.experimentalOptimizations) {
+      if (OPERAND1.type === 'number') {
+        return util.booleanInput((thread) => numLessExperimental(a(thread), b(thread)));
+      }
+    }
+    return util.booleanInput((thread) => compare(a(thread), b(thread)) === -1);
+  };
+  inputLibrary['operator_mathop'] = function(util) {
+    const OPERATOR = util.getField('OPERATOR');
+    const NUM = util.getInput('NUM', 'number');
+
+    switch (OPERATOR) {
+      case 'abs':
+        return util.numberInput((thread) => Math.abs(NUM(thread)));
+      case 'floor':
+        return util.numberInput((thread) => Math.floor(NUM(thread)));
+      case 'sqrt': {
+        const input = util.numberInput((thread) => Math.sqrt(NUM(thread)));
+        input.enableFlag(P.sb3.compiler.InputFlags.NaN);
+        return input;
+      }
+      case 'ceiling':
+        return util.numberInput((thread) => Math.ceil(NUM(thread)));
+      case 'cos':
+        return util.numberInput((thread) => Math.round(Math.cos(NUM(thread) * Math.PI / 180) * 1e10) / 1e10);
+      case 'sin':
+        return util.numberInput((thread) => Math.round(Math.sin(NUM(thread) * Math.PI / 180) * 1e10) / 1e10);
+      case 'tan':
+        return util.numberInput((thread) => Math.tan(NUM(thread) * Math.PI / 180));
+      case 'asin':
+        return util.numberInput((thread) => Math.asin(NUM(thread)) * 180 / Math.PI);
+      case 'acos':
+        return util.numberInput((thread) => Math.acos(NUM(thread)) * 180 / Math.PI);
+      case 'atan':
+        return util.numberInput((thread) => Math.atan(NUM(thread)) * 180 / Math.PI);
+      case 'ln':
+        return util.numberInput((thread) => Math.log(NUM(thread)));
+      case 'log':
+        return util.numberInput((thread) => Math.log(NUM(thread)) / Math.LN10);
+      case 'e ^':
+        return util.numberInput((thread) => Math.exp(NUM(thread)));
+      case '10 ^':
+        return util.numberInput((thread) => Math.pow(10, NUM(thread)));
+      default:
+        return util.numberInput(() => 0);
+    }
+  };
+  inputLibrary['operator_mod'] = function(util) {
+    const NUM1 = util.getInput('NUM1', 'number');
+    const NUM2 = util.getInput('NUM2', 'number');
+    return util.numberInput((thread) => mod(NUM1(thread), NUM2(thread)));
+  };
+  inputLibrary['operator_multiply'] = function(util) {
+    const NUM1 = util.getInput('NUM1', 'number');
+    const NUM2 = util.getInput('NUM2', 'number');
+    return util.numberInput((thread) => NUM1(thread) * NUM2(thread) || 0);
+  };
+  inputLibrary['operator_not'] = function(util) {
+    const OPERAND = util.getInput('OPERAND', 'any');
+    return util.booleanInput((thread) => !OPERAND(thread));
+  };
+  inputLibrary['operator_or'] = function(util) {
+    const OPERAND1 = util.getInput('OPERAND1', 'any');
+    const OPERAND2 = util.getInput('OPERAND2', 'any');
+    return util.booleanInput((thread) => OPERAND1(thread) || OPERAND2(thread));
+  };
+  inputLibrary['operator_random'] = function(util) {
+    const FROM = util.getInput('FROM', 'string');
+    const TO = util.getInput('TO', 'string');
+    return util.numberInput((thread) => random(FROM(thread), TO(thread)));
+  };
+  inputLibrary['operator_round'] = function(util) {
+    const NUM = util.getInput('NUM', 'number');
+    return util.numberInput((thread) => Math.round(NUM(thread)));
+  };
+  inputLibrary['operator_subtract'] = function(util) {
+    const NUM1 = util.getInput('NUM1', 'number');
+    const NUM2 = util.getInput('NUM2', 'number');
+    return util.numberInput((thread) => NUM1(thread) - NUM2(thread) || 0);
+  };
+  inputLibrary['pen_menu_colorParam'] = function(util) {
+    return util.fieldInput('colorParam');
+  };
+  inputLibrary['sensing_answer'] = function(util) {
+    return util.stringInput((thread) => thread.stage.answer);
+  };
+  inputLibrary['sensing_coloristouchingcolor'] = function(util) {
+    const COLOR = util.getInput('COLOR', 'color');
+    const COLOR2 = util.getInput('COLOR2', 'color');
+    return util.booleanInput((thread) => thread.target.colorTouchingColor(COLOR(thread), COLOR2(thread)));
+  };
+  inputLibrary['sensing_current'] = function(util) {
+    const CURRENTMENU = util.getField('CURRENTMENU').toLowerCase();
+    switch (CURRENTMENU) {
+      case 'year': return util.numberInput((thread) => thread.stage.runtime.currentDate().getFullYear());
+      case 'month': return util.numberInput((thread) => thread.stage.runtime.currentDate().getMonth() + 1);
+      case 'date': return util.numberInput((thread) => thread.stage.runtime.currentDate().getDate());
+      case 'dayofweek': return util.numberInput((thread) => thread.stage.runtime.currentDate().getDay() + 1);
+      case 'hour': return util.numberInput((thread) => thread.stage.runtime.currentDate().getHours());
+      case 'minute': return util.numberInput((thread) => thread.stage.runtime.currentDate().getMinutes());
+      case 'second': return util.numberInput((thread) => thread.stage.runtime.currentDate().getSeconds());
+    }
+    return util.numberInput(() => 0);
+  };
+  inputLibrary['sensing_dayssince2000'] = function(util) {
+    return util.numberInput((thread) => (thread.stage.runtime.currentTime() - epoch) / 86400000);
+  };
+  inputLibrary['sensing_distanceto'] = function(util) {
+    const DISTANCETOMENU = util.getInput('DISTANCETOMENU', 'any');
+    return util.numberInput((thread) => (thread.target as Sprite).distanceTo(DISTANCETOMENU(thread)));
+  };
+  inputLibrary['sensing_distancetomenu'] = function(util) {
+    return util.fieldInput('DISTANCETOMENU');
+  };
+  inputLibrary['sensing_keyoptions'] = function(util) {
+    return util.fieldInput('KEY_OPTION');
+  };
+  inputLibrary['sensing_keypressed'] = function(util) {
+    const KEY_OPTION = util.getInput('KEY_OPTION', 'string');
+    return util.booleanInput((thread) => !!thread.stage.keys[getKeyCode3(KEY_OPTION(thread))]);
+  };
+  inputLibrary['sensing_loud'] = function(util) {
+    util.stage.initMicrophone();
+    return util.booleanInput((thread) => thread.stage.microphone!.getLoudness() > 10);
+  };
+  inputLibrary['sensing_loudness'] = function(util) {
+    util.stage.initMicrophone();
+    return util.numberInput((thread) => thread.stage.microphone!.getLoudness());
+  };
+  inputLibrary['sensing_mousedown'] = function(util) {
+    return util.booleanInput((thread) => thread.stage.mousePressed);
+  };
+  inputLibrary['sensing_mousex'] = function(util) {
+    return util.numberInput((thread) => thread.stage.mouseX);
+  };
+  inputLibrary['sensing_mousey'] = function(util) {
+    return util.numberInput((thread) => thread.stage.mouseY);
+  };
+  inputLibrary['sensing_of'] = function(util) {
+    const PROPERTY = util.getField('PROPERTY');
+    const OBJECT = util.getInput('OBJECT', 'string');
+    return util.anyInput((thread) => attribute(PROPERTY, OBJECT(thread)));
+  };
+  inputLibrary['sensing_of_object_menu'] = function(util) {
+    return util.fieldInput('OBJECT');
+  };
+  inputLibrary['sensing_timer'] = function(util) {
+    return util.numberInput((thread) => {
+      const runtime = thread.stage.runtime;
+      return (runtime.now() - runtime.timerStart) / 1000;
+    });
+  };
+  inputLibrary['sensing_touchingcolor'] = function(util) {
+    const COLOR = util.getInput('COLOR', 'color');
+    return util.booleanInput((thread) => thread.target.touchingColor(COLOR(thread)));
+  };
+  inputLibrary['sensing_touchingobject'] = function(util) {
+    const TOUCHINGOBJECTMENU = util.getInput('TOUCHINGOBJECTMENU', 'string');
+    return util.booleanInput((thread) => thread.target.touching(TOUCHINGOBJECTMENU(thread)));
+  };
+  inputLibrary['sensing_touchingobjectmenu'] = function(util) {
+    return util.fieldInput('TOUCHINGOBJECTMENU');
+  };
+  inputLibrary['sound_sounds_menu'] = function(util) {
+    return util.fieldInput('SOUND_MENU');
+  };
+  inputLibrary['sensing_username'] = function(util) {
+    return util.stringInput((thread) => thread.stage.username);
+  };
+  inputLibrary['sound_volume'] = function(util) {
+    return util.numberInput((thread) => thread.target.volume * 100);
+  };
+  inputLibrary['text2speech_menu_voices'] = function(util) {
+    return util.fieldInput('voices');
+  };
+  inputLibrary['text2speech_menu_languages'] = function(util) {
+    return util.fieldInput('languages');
+  };
+  inputLibrary['translate_menu_languages'] = function(util) {
+    return util.fieldInput('languages');
+  };
+  inputLibrary['translate_getTranslate'] = function(util) {
+    const WORDS = util.getInput('WORDS', 'string');
+    const LANGUAGE = util.getInput('LANGUAGE', 'string');
+    util.stage.initTranslate();
+    const key = util.interpreter.getTranslationKey(util.block);
+    if (key) {
+      return util.stringInput((thread) => thread.translations[key] ?
+        thread.stage.translate!.getPreparedTranslate(thread.translations, key) :
+        thread.stage.translate!.getTranslate(WORDS(thread), LANGUAGE(thread)));
+    }
+    return util.stringInput((thread) => thread.stage.translate!.getTranslate(WORDS(thread), LANGUAGE(thread)));
+  };
+  inputLibrary['translate_getViewerLanguage'] = function(util) {
+    util.stage.initTranslate();
+    return util.stringInput((thread) => thread.stage.translate!.getViewerLanguage());
+  };
+  inputLibrary['videoSensing_menu_ATTRIBUTE'] = function(util) {
+    return util.fieldInput('ATTRIBUTE');
+  };
+  inputLibrary['videoSensing_menu_SUBJECT'] = function(util) {
+    return util.fieldInput('SUBJECT');
+  };
+  inputLibrary['videoSensing_menu_VIDEO_STATE'] = function(util) {
+    return util.fieldInput('VIDEO_STATE');
+  };
+  inputLibrary['videoSensing_videoOn'] = function(util) {
+    const ATTRIBUTE = util.getInput('ATTRIBUTE', 'string');
+    const SUBJECT = util.getInput('SUBJECT', 'string');
+    util.stage.initVideoSensing();
+    return util.numberInput((thread) => thread.stage.videoSensing!.getMotion(thread.target, ATTRIBUTE(thread), SUBJECT(thread)));
+  };
+
+  // Legacy no-ops
+  const noopInput = (util: P.sb3.interpreter.InputUtil) => util.anyInput(() => undefined);
+  inputLibrary['motion_yscroll'] = noopInput;
+  inputLibrary['motion_xscroll'] = noopInput;
+  inputLibrary['sensing_userid'] = noopInput;
+
+  /* Hats */
+  // Hats that only install their script use the handlers of the compiler.
+  hatLibrary['event_whengreaterthan'] = {
+    handle(util) {
+      util.target.listeners.edgeActivated.push(util.startingFunction);
+    },
+    postcompile(interpreter, script, hat) {
+      const WHENGREATERTHANMENU = interpreter.getField(hat, 'WHENGREATERTHANMENU');
+      const VALUE = interpreter.interpretInput(hat, 'VALUE', 'number').evaluate;
+
+      let getValue: ((thread: Thread) => number) | null = null;
+      switch (WHENGREATERTHANMENU.toLowerCase()) {
+        case 'timer':
+          getValue = (thread) => thread.stage.runtime.whenTimerMSecs / 1000;
+          break;
+        case 'loudness':
+          interpreter.target.stage.initMicrophone();
+          getValue = (thread) => thread.stage.microphone!.getLoudness();
+          break;
+        default:
+          console.warn('unknown WHENGREATERTHANMENU', WHENGREATERTHANMENU);
+      }
+
+      return function*(thread) {
+        let stalled = false;
+        while (true) {
+          if (getValue) {
+            if (stalled && getValue(thread) <= VALUE(thread)) {
+              stalled = false;
+            } else if (!stalled && getValue(thread) > VALUE(thread)) {
+              stalled = true;
+              yield* execute(script, thread);
+            }
+          }
+          yield true;
+        }
+      };
+    },
+  };
+  hatLibrary['event_whentouchingobject'] = {
+    handle(util) {
+      util.target.listeners.edgeActivated.push(util.startingFunction);
+    },
+    postcompile(interpreter, script, hat) {
+      const TOUCHINGOBJECTMENU = interpreter.interpretInput(hat, 'TOUCHINGOBJECTMENU', 'string').evaluate;
+
+      return function*(thread) {
+        let stalled = false;
+        while (true) {
+          const touching = thread.target.touching(TOUCHINGOBJECTMENU(thread));
+          if (stalled && !touching) {
+            stalled = false;
+          } else if (!stalled && touching) {
+            stalled = true;
+            yield* execute(script, thread);
+          }
+          yield true;
+        }
+      };
+    },
+  };
+  // Same as in the compiler.
+  function makeymakeyParseKey(key: string): string {
+    key = key.toLowerCase();
+    if (key === 'up' || key === 'down' || key === 'left' || key === 'right') {
+      return P.runtime.getKeyCode(key + ' arrow');
+    }
+    return P.runtime.getKeyCode(key);
+  }
+  hatLibrary['makeymakey_whenMakeyKeyPressed'] = {
+    handle(util) {
+      const KEY = util.interpreter.interpretInput(util.block, 'KEY', 'string');
+      try {
+        const keyValue = '' + util.interpreter.evaluateInterpretedInputOnce(KEY);
+        var keyCode = makeymakeyParseKey(keyValue);
+      } catch (e) {
+        util.interpreter.warn('makeymakey key generation error', e);
+        return;
+      }
+      const key = P.runtime.getKeyCode(keyCode);
+      util.target.addWhenKeyPressedHandler(key, util.startingFunction);
+    },
+  };
+  hatLibrary['procedures_definition'] = {
+    handle(util) {
+      const customBlockId = util.block.inputs.custom_block[1];
+      const mutation = util.interpreter.blocks[customBlockId].mutation;
+      const proccode = mutation.proccode;
+
+      if (!util.target.procedures[proccode]) {
+        const state = util.interpreter.state;
+        const procedure = new P.sb3.interpreter.InterpretedProcedure(util.startingFunction, state.isWarp, state.argumentNames, util.script);
+        util.target.procedures[proccode] = procedure;
+      }
+    },
+    precompile(interpreter, hat) {
+      const customBlockId = hat.inputs.custom_block[1];
+      const mutation = interpreter.blocks[customBlockId].mutation;
+      // Warp is either a boolean or a string representation of that boolean for some reason.
+      const warp = typeof mutation.warp === 'string' ? mutation.warp === 'true' : mutation.warp;
+      // It's a stringified JSON array.
+      const argumentNames = JSON.parse(mutation.argumentnames);
+
+      interpreter.state.isProcedure = true;
+      interpreter.state.argumentNames = argumentNames;
+      if (warp) {
+        interpreter.state.isWarp = true;
+      }
+    },
+  };
+  hatLibrary['videoSensing_whenMotionGreaterThan'] = {
+    handle(util) {
+      util.target.listeners.edgeActivated.push(util.startingFunction);
+    },
+    postcompile(interpreter, script, hat) {
+      const REFERENCE = interpreter.interpretInput(hat, 'REFERENCE', 'number').evaluate;
+      interpreter.target.stage.initVideoSensing();
+
+      return function*(thread) {
+        let stalled = false;
+        while (true) {
+          const motion = thread.stage.videoSensing!.getLocalMotion(thread.target).motionAmount;
+          if (stalled && !(motion > REFERENCE(thread))) {
+            stalled = false;
+          } else if (!stalled && motion > REFERENCE(thread)) {
+            stalled = true;
+            yield* execute(script, thread);
+          }
+          yield true;
+        }
+      };
+    },
+  };
+}());
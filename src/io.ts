@@ -63,18 +63,55 @@ namespace P.io {
         fileReader.readAsText(object);
       });
     }
+
+    export function toImage(object: Readable): Promise<HTMLImageElement> {
+      return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(object);
+        const image = new Image();
+        image.onload = function() {
+          URL.revokeObjectURL(url);
+          resolve(image);
+        };
+        image.onerror = function(err) {
+          URL.revokeObjectURL(url);
+          reject(new Error('Could not read object as image'));
+        };
+        image.src = url;
+      });
+    }
+  }
+
+  /**
+   * A response with an unsuccessful status code.
+   */
+  export class HTTPError extends Error {
+    constructor(public url: string, public status: number) {
+      super(`HTTP Error ${status} while downloading ${url}`);
+    }
   }
 
   /**
    * An AssetManager manages the global assets of forkphorus.
-   * It is responsible for downloading certain assets.
+   * It is responsible for downloading certain assets, and the projects and project assets of remote loaders.
    */
-  interface AssetManager {
+  export interface AssetManager {
     loadFont(src: string): Promise<Blob>;
     loadSoundbankFile(src: string): Promise<ArrayBuffer>;
+    /**
+     * Downloads a project file or project.json.
+     * Rejects with an HTTPError when the server responds with an error, such as 404 for projects that do not exist.
+     * @param loader The loader to add the download to as a task, so that it is cancelled when the loader is aborted.
+     */
+    loadProject(url: string, loader?: Loader): Promise<Blob>;
+    /**
+     * Downloads a file of a project. These files are named by the MD5 hash of their contents.
+     * @param md5ext The name of the file, such as '83a9787d4cb6f3b7632b4ddfebf74367.wav'
+     * @param loader The loader to add the download to as a task, so that it is cancelled when the loader is aborted.
+     */
+    loadProjectAsset(md5ext: string, url: string, loader?: Loader): Promise<Blob>;
   }
 
-  class FetchingAssetManager implements AssetManager {
+  export class FetchingAssetManager implements AssetManager {
     private soundbankSource: string = 'soundbank/';
 
     loadSoundbankFile(src: string) {
@@ -85,6 +122,33 @@ namespace P.io {
       return this.loadBlob(src);
     }
 
+    loadProject(url: string, loader?: Loader) {
+      const request = this.createRequest(url, loader);
+      return request
+        // Errors are not retried, as projects that do not exist are common.
+        .ignoreErrors()
+        .load('blob')
+        .then((response) => {
+          const status = request.getStatus();
+          if (status !== 0 && status !== 200) {
+            throw new HTTPError(url, status);
+          }
+          return response;
+        });
+    }
+
+    loadProjectAsset(md5ext: string, url: string, loader?: Loader) {
+      return this.createRequest(url, loader).load('blob');
+    }
+
+    private createRequest(url: string, loader?: Loader): Request {
+      const request = new Request(url);
+      if (loader) {
+        loader.addTask(request);
+      }
+      return request;
+    }
+
     loadArrayBuffer(src: string) {
       return new Request(config.localPath + src).load('arraybuffer');
     }
@@ -359,14 +423,47 @@ namespace P.io {
   export class PromiseTask extends Manual {
     constructor(promise: Promise<unknown>) {
       super();
-      promise.then(() => this.markComplete());
+      // The task is done either way. Errors are handled by whoever created the promise.
+      promise.then(() => this.markComplete(), () => this.markComplete());
     }
   }
 
+  /**
+   * A costume or sound that was replaced with a placeholder because it could not be used.
+   */
+  export interface Substitution {
+    type: 'costume' | 'sound';
+    /** The name of the sprite, or "Stage" */
+    target: string;
+    /** The name of the costume or sound */
+    name: string;
+    /** The file of the costume or sound */
+    asset: string;
+    /** Why it could not be used */
+    reason: string;
+  }
+
+  /**
+   * The costume or sound of a substitution, without what is filled in by the loader.
+   */
+  export type SubstitutedAsset = Pick<Substitution, 'target' | 'name' | 'asset'>;
+
+  function getErrorReason(err: unknown): string {
+    return err instanceof Error ? err.message : '' + err;
+  }
+
   export abstract class Loader<T = unknown> {
     private _tasks: Task[] = [];
     public aborted: boolean = false;
     public error: boolean = false;
+    /**
+     * Problems that did not stop the project from loading, such as corrupt assets.
+     */
+    public warnings: string[] = [];
+    /**
+     * The costumes and sounds that were replaced with placeholders.
+     */
+    public substitutions: Substitution[] = [];
 
     private calculateProgress(): number {
       if (this.aborted) {
@@ -404,6 +501,10 @@ namespace P.io {
     addTask<T extends Task>(task: T): T {
       this._tasks.push(task);
       task.setLoader(this);
+      // Nothing should start after the loader was aborted.
+      if (this.aborted) {
+        task.abort();
+      }
       return task;
     }
 
@@ -425,6 +526,59 @@ namespace P.io {
       // Users of the Loader class are expected to override this method.
     }
 
+    /**
+     * Adds a warning about the project.
+     */
+    warn(message: string) {
+      console.warn(message);
+      this.warnings.push(message);
+    }
+
+    /**
+     * Adds a costume or sound that was replaced with a placeholder to the substitutions and the warnings.
+     */
+    addSubstitution(substitution: Substitution) {
+      this.substitutions.push(substitution);
+      this.warn(`Replaced ${substitution.type} "${substitution.name}" of ${substitution.target} (${substitution.asset}) with a placeholder: ${substitution.reason}`);
+    }
+
+    /**
+     * Determines whether a costume or sound that could not be loaded should be replaced with a placeholder.
+     */
+    shouldSubstitute(err: unknown, type: Substitution['type']): boolean {
+      // Without an audio context, no sound can be loaded, so that is not a reason to use a placeholder.
+      return P.config.repairProjects && (type === 'costume' || !!P.audio.context);
+    }
+
+    /**
+     * Replaces a costume that could not be loaded with a placeholder.
+     * Throws the error again if it should not be replaced.
+     */
+    substituteCostume(err: unknown, asset: SubstitutedAsset, options: P.core.CostumeOptions): P.core.Costume {
+      if (!this.shouldSubstitute(err, 'costume')) {
+        throw err;
+      }
+      this.addSubstitution({ type: 'costume', ...asset, reason: getErrorReason(err) });
+      return P.core.createPlaceholderCostume(options);
+    }
+
+    /**
+     * Replaces a sound that could not be loaded with silence.
+     * Returns null if it should not be replaced, or if there is no audio context to create silence with.
+     */
+    substituteSound(err: unknown, asset: SubstitutedAsset, sampleCount: number, rate: number): P.core.Sound | null {
+      if (!this.shouldSubstitute(err, 'sound')) {
+        console.warn('Could not load sound: ' + err);
+        return null;
+      }
+      this.addSubstitution({ type: 'sound', ...asset, reason: getErrorReason(err) });
+      const silence = P.audio.createSilentBuffer(sampleCount, rate);
+      return silence && new P.core.Sound({
+        name: asset.name,
+        buffer: silence,
+      });
+    }
+
     abstract load(): Promise<T>;
   }
 }
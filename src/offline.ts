@@ -0,0 +1,242 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="io.ts" />
+
+/**
+ * An AssetManager that saves what it downloads, so that projects keep working when the network does not.
+ * Enable it with P.io.setAssetManager(new P.offline.CachingAssetManager()).
+ *
+ * Files of projects are named by their MD5 hash and never change, so they are always used from the cache when possible.
+ * Projects, fonts, and the soundbank are downloaded again unless offlineFirst is set, and the cached copy is only
+ * used when that fails.
+ */
+namespace P.offline {
+  export interface CachedFile {
+    key: string;
+    data: Blob;
+    size: number;
+    /** When the file was last saved or used, in milliseconds since the epoch. */
+    usedAt: number;
+  }
+
+  /**
+   * Where files are stored.
+   */
+  export interface FileStorage {
+    /**
+     * Gets a file and marks it as recently used.
+     */
+    get(key: string): Promise<CachedFile | null>;
+    /**
+     * Saves a file, then removes the least recently used files until all files add up to at most maxBytes.
+     */
+    put(file: CachedFile, maxBytes: number): Promise<void>;
+    clear(): Promise<void>;
+  }
+
+  const DATABASE_NAME = 'forkphorus-assets';
+  const DATABASE_VERSION = 1;
+  const STORE_NAME = 'files';
+
+  /**
+   * Stores files in an IndexedDB database.
+   */
+  export class IndexedDBFileStorage implements FileStorage {
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly databaseName: string = DATABASE_NAME) {
+
+    }
+
+    private open(): Promise<IDBDatabase> {
+      if (!this.database) {
+        this.database = new Promise((resolve, reject) => {
+          const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+          request.onupgradeneeded = () => {
+            const database = request.result;
+            const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('usedAt', 'usedAt');
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        });
+      }
+      return this.database;
+    }
+
+    private async transaction(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => void): Promise<void> {
+      const database = await this.open();
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, mode);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+        callback(transaction.objectStore(STORE_NAME));
+      });
+    }
+
+    async get(key: string): Promise<CachedFile | null> {
+      let file: CachedFile | null = null;
+      await this.transaction('readwrite', (store) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          file = request.result || null;
+          if (file) {
+            file.usedAt = Date.now();
+            store.put(file);
+          }
+        };
+      });
+      return file;
+    }
+
+    put(file: CachedFile, maxBytes: number): Promise<void> {
+      return this.transaction('readwrite', (store) => {
+        store.put(file);
+        // Keep the most recently used files that fit.
+        let bytes = 0;
+        const cursorRequest = store.index('usedAt').openCursor(null, 'prev');
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            return;
+          }
+          bytes += (cursor.value as CachedFile).size;
+          if (bytes > maxBytes) {
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+      });
+    }
+
+    clear(): Promise<void> {
+      return this.transaction('readwrite', (store) => {
+        store.clear();
+      });
+    }
+  }
+
+  export interface CachingAssetManagerOptions {
+    /**
+     * Use cached projects, fonts, and soundbank files without downloading them again.
+     * Projects that were updated since they were cached are only updated after clear() is called.
+     */
+    offlineFirst?: boolean;
+    /**
+     * The most bytes to store. The least recently used files are removed to stay under it.
+     */
+    maxBytes?: number;
+    /**
+     * Where to store files. Defaults to IndexedDB.
+     */
+    storage?: FileStorage;
+    /**
+     * Downloads the files that are not cached. Defaults to a FetchingAssetManager.
+     */
+    source?: P.io.AssetManager;
+  }
+
+  export class CachingAssetManager implements P.io.AssetManager {
+    public static readonly DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+    private source: P.io.AssetManager;
+    private storage: FileStorage | null;
+    private offlineFirst: boolean;
+    private maxBytes: number;
+
+    constructor(options: CachingAssetManagerOptions = {}) {
+      this.offlineFirst = !!options.offlineFirst;
+      this.maxBytes = options.maxBytes === undefined ? CachingAssetManager.DEFAULT_MAX_BYTES : options.maxBytes;
+      this.source = options.source || new P.io.FetchingAssetManager();
+      if (options.storage) {
+        this.storage = options.storage;
+      } else if (typeof indexedDB !== 'undefined') {
+        this.storage = new IndexedDBFileStorage();
+      } else {
+        this.storage = null;
+      }
+    }
+
+    loadFont(src: string) {
+      return this.load('font:' + src, false, () => this.source.loadFont(src));
+    }
+
+    loadSoundbankFile(src: string) {
+      return this.load('soundbank:' + src, false, () => this.source.loadSoundbankFile(src).then((buffer) => new Blob([buffer])))
+        .then((blob) => P.io.readers.toArrayBuffer(blob));
+    }
+
+    loadProject(url: string, loader?: P.io.Loader) {
+      return this.load('project:' + url, false, () => this.source.loadProject(url, loader), loader);
+    }
+
+    loadProjectAsset(md5ext: string, url: string, loader?: P.io.Loader) {
+      return this.load('asset:' + md5ext, true, () => this.source.loadProjectAsset(md5ext, url, loader), loader);
+    }
+
+    /**
+     * Removes all cached files.
+     */
+    clear(): Promise<void> {
+      if (!this.storage) {
+        return Promise.resolve();
+      }
+      return this.storage.clear();
+    }
+
+    private async getCached(key: string, loader?: P.io.Loader): Promise<Blob | null> {
+      if (!this.storage) {
+        return null;
+      }
+      try {
+        const promise = this.storage.get(key);
+        if (loader) {
+          loader.addTask(new P.io.PromiseTask(promise));
+        }
+        const file = await promise;
+        return file ? file.data : null;
+      } catch (e) {
+        console.warn('Could not read asset cache', e);
+        return null;
+      }
+    }
+
+    private save(key: string, data: Blob) {
+      if (!this.storage || data.size > this.maxBytes) {
+        return;
+      }
+      this.storage.put({ key, data, size: data.size, usedAt: Date.now() }, this.maxBytes)
+        .catch((e) => console.warn('Could not save to asset cache', key, e));
+    }
+
+    /**
+     * @param immutable Whether the file at this key never changes, so the cache is always tried first.
+     * @param loader The loader that reading the cache is added to as a task. download() adds its own tasks.
+     */
+    private async load(key: string, immutable: boolean, download: () => Promise<Blob>, loader?: P.io.Loader): Promise<Blob> {
+      if (immutable || this.offlineFirst) {
+        const cached = await this.getCached(key, loader);
+        if (cached) {
+          return cached;
+        }
+      }
+
+      try {
+        const data = await download();
+        this.save(key, data);
+        return data;
+      } catch (e) {
+        // A project that does not exist anymore should not be loaded from the cache.
+        const notFound = e instanceof P.io.HTTPError && e.status === 404;
+        if (!immutable && !this.offlineFirst && !notFound) {
+          const cached = await this.getCached(key, loader);
+          if (cached) {
+            console.warn('Could not download ' + key + ', using the cached copy', e);
+            return cached;
+          }
+        }
+        throw e;
+      }
+    }
+  }
+}
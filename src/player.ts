@@ -60,6 +60,8 @@ namespace P.player {
     onpause: Slot<never>;
     /** Emitted when options change. The payload only includes the parts that changed. */
     onoptionschange: Slot<Partial<PlayerOptions>>;
+    /** Emitted after a Stage has loaded if problems were found while compiling it, such as unsupported blocks. */
+    onwarning: Slot<P.compatibility.CompatibilityReport>;
 
     root: HTMLElement;
     controlsContainer: HTMLElement;
@@ -307,6 +309,7 @@ namespace P.player {
     public onresume = new Slot<never>();
     public onpause = new Slot<never>();
     public onoptionschange = new Slot<Partial<PlayerOptions>>();
+    public onwarning = new Slot<P.compatibility.CompatibilityReport>();
 
     public root: HTMLElement;
     public playerContainer: HTMLElement;
@@ -342,6 +345,7 @@ namespace P.player {
       document.addEventListener('webkitfullscreenchange', () => this.onfullscreenchange());
 
       this.handleError = this.handleError.bind(this);
+      this.handleRunningSlowly = this.handleRunningSlowly.bind(this);
     }
 
     // UI HELPERS
@@ -504,6 +508,20 @@ namespace P.player {
         });
       }
 
+      var slowText = document.createElement('span');
+      slowText.innerText = P.i18n.translate('player.controls.slowIndicator');
+      slowText.className = 'player-label player-slow';
+      this.controlsContainer.appendChild(slowText);
+
+      var unsupportedText = document.createElement('span');
+      unsupportedText.className = 'player-label player-unsupported';
+      this.controlsContainer.appendChild(unsupportedText);
+      this.onwarning.subscribe((report) => {
+        const opcodes = report.getUnsupportedOpcodes();
+        unsupportedText.innerText = P.i18n.translate('player.controls.unsupportedIndicator').replace('$count', '' + opcodes.length);
+        unsupportedText.title = P.i18n.translate('player.controls.unsupportedIndicator.title').replace('$blocks', opcodes.join(', '));
+      });
+
       if (options.enableFullscreen !== false) {
         var fullscreenButton = document.createElement('span');
         fullscreenButton.className = 'player-button player-fullscreen-btn';
@@ -598,6 +616,9 @@ namespace P.player {
 
     stopAll(): void {
       this.throwWithoutStage();
+      if (this.stage.inputRecorder) {
+        this.stage.inputRecorder.record({ type: 'stop' });
+      }
       this.pause();
       this.stage.runtime.stopAll();
     }
@@ -607,6 +628,9 @@ namespace P.player {
       if (!this.isRunning()) {
         this.resume();
       }
+      if (this.stage.inputRecorder) {
+        this.stage.inputRecorder.record({ type: 'greenflag' });
+      }
       this.stage.runtime.stopAll();
       this.stage.runtime.triggerGreenFlag();
       if (this.clickToPlayContainer) {
@@ -621,6 +645,8 @@ namespace P.player {
         this.currentLoader = null;
       }
       // Reset interface
+      this.disableAttribute('slow');
+      this.disableAttribute('unsupported');
       if (this.clickToPlayContainer) {
         this.removeClickToPlayContainer();
       }
@@ -669,6 +695,10 @@ namespace P.player {
       this.onerror.emit(error);
     }
 
+    private handleRunningSlowly(isRunningSlowly: boolean) {
+      this.setAttribute('slow', isRunningSlowly);
+    }
+
     // FULLSCREEN
 
     enterFullscreen() {
@@ -974,15 +1004,12 @@ namespace P.player {
      * Download a project from the scratch.mit.edu using its ID.
      */
     private fetchProject(id: string): Promise<Blob> {
-      const request = new P.io.Request(this.options.projectHost.replace('$id', id));
-      return request
-        .ignoreErrors()
-        .load('blob')
-        .then(function(response) {
-          if (request.getStatus() === 404) {
+      return P.io.getAssetManager().loadProject(this.options.projectHost.replace('$id', id))
+        .catch(function(err) {
+          if (err instanceof P.io.HTTPError && err.status === 404) {
             throw new ProjectDoesNotExistError(id);
           }
-          return response;
+          throw err;
         });
     }
 
@@ -992,6 +1019,7 @@ namespace P.player {
     private setStage(stage: P.core.Stage) {
       this.stage = stage;
       this.stage.runtime.handleError = this.handleError;
+      this.stage.runtime.handleRunningSlowly = this.handleRunningSlowly;
       this.applyOptionsToStage();
 
       this.playerContainer.appendChild(stage.root);
@@ -1000,6 +1028,11 @@ namespace P.player {
       }
       this.onload.emit(stage);
 
+      if (!stage.compatibility.isEmpty()) {
+        this.setAttribute('unsupported', stage.compatibility.hasUnsupportedBlocks());
+        this.onwarning.emit(stage.compatibility);
+      }
+
       this.stage.draw();
 
       this.applyCloudVariables(this.options.cloudVariables);
@@ -1156,6 +1189,10 @@ namespace P.player {
 
     private errorEl: HTMLElement | null = null;
     private errorContainer: HTMLElement | null = null;
+    /** Shows the errors of scripts, which do not stop the project. */
+    private scriptErrorEl: HTMLElement | null = null;
+    /** The locations and messages of the errors of scripts that have been shown, so that repeated errors are only counted once. */
+    private scriptErrors: Set<string> = new Set();
     public generatedErrorLink: string | null = null;
 
     constructor(public player: ProjectPlayer, options: ErrorHandlerOptions = {}) {
@@ -1236,6 +1273,9 @@ namespace P.player {
       let debug = '';
       debug += location.href + '\n';
       debug += navigator.userAgent + '\n';
+      if (error instanceof P.runtime.ScriptError) {
+        debug += 'Location: ' + error.getLocation() + '\n';
+      }
       if (error) {
         debug += '```\n' + this.stringifyError(error) + '\n```';
       }
@@ -1273,6 +1313,11 @@ namespace P.player {
         this.errorEl.parentNode.removeChild(this.errorEl);
         this.errorEl = null;
       }
+      if (this.scriptErrorEl && this.scriptErrorEl.parentNode) {
+        this.scriptErrorEl.parentNode.removeChild(this.scriptErrorEl);
+      }
+      this.scriptErrorEl = null;
+      this.scriptErrors.clear();
       this.generatedErrorLink = null;
     }
 
@@ -1298,7 +1343,51 @@ namespace P.player {
       return el;
     }
 
+    /**
+     * Updates the indicator of the errors of scripts. Only the thread that threw was stopped, so the project is not
+     * covered like it is for a crash, and a script that throws every frame does not add more elements.
+     */
+    private handleScriptError(error: P.runtime.ScriptError): void {
+      const key = error.getLocation() + '\n' + error.message;
+      if (this.scriptErrors.has(key)) {
+        return;
+      }
+      this.scriptErrors.add(key);
+
+      if (!this.scriptErrorEl) {
+        this.scriptErrorEl = document.createElement('div');
+        this.scriptErrorEl.className = 'player-error player-script-error';
+        this.appendErrorElement(this.scriptErrorEl);
+      }
+      const errorLink = this.createBugReportLink(error);
+      this.generatedErrorLink = errorLink;
+      const attributes = 'href="' + errorLink + '" target="_blank" ref="noopener"';
+      // use of innerHTML intentional
+      this.scriptErrorEl.innerHTML = P.i18n.translate('player.errorhandler.scriptError')
+        .replace('$count', '' + this.scriptErrors.size)
+        .replace('$attrs', attributes);
+      this.scriptErrorEl.title = error.getLocation();
+    }
+
+    private appendErrorElement(el: HTMLElement): void {
+      if (this.errorContainer) {
+        this.errorContainer.appendChild(el);
+      } else if (this.player.hasStage()) {
+        this.player.getStage().ui.appendChild(el);
+      } else {
+        this.player.playerContainer.appendChild(el);
+      }
+    }
+
     private onerror(error: any): void {
+      if (error instanceof P.runtime.ScriptError) {
+        this.handleScriptError(error);
+        return;
+      }
+      if (this.errorEl && this.errorEl.parentNode) {
+        // Only show the most recent crash.
+        this.errorEl.parentNode.removeChild(this.errorEl);
+      }
       const el = document.createElement('div');
       el.className = 'player-error';
       // Special handling for certain errors to provide a better error message
@@ -1307,13 +1396,7 @@ namespace P.player {
       } else {
         el.appendChild(this.handleError(error));
       }
-      if (this.errorContainer) {
-        this.errorContainer.appendChild(el);
-      } else if (this.player.hasStage()) {
-        this.player.getStage().ui.appendChild(el);
-      } else {
-        this.player.playerContainer.appendChild(el);
-      }
+      this.appendErrorElement(el);
       this.errorEl = el;
     }
   }
@@ -0,0 +1,183 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="runtime.ts" />
+
+/**
+ * Records how much time threads and procedures take to run.
+ */
+namespace P.profiler {
+  /**
+   * An event in the Chrome trace event format.
+   * https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+   */
+  interface TraceEvent {
+    name: string;
+    cat: string;
+    ph: string;
+    ts: number;
+    dur?: number;
+    pid: number;
+    tid: number;
+    args?: ObjectMap<any>;
+  }
+
+  interface OpenSlice {
+    name: string;
+    category: string;
+    start: number;
+    args: ObjectMap<any>;
+  }
+
+  // All events are placed in a single process. Each thread gets its own track, and frames use track 0.
+  const PID = 1;
+  const FRAME_TID = 0;
+
+  /**
+   * Collects timing data from a Runtime.
+   * Assign an instance to Runtime.profiler to start profiling, and set it back to null to stop.
+   */
+  export class Profiler {
+    private events: TraceEvent[] = [];
+    private slices: OpenSlice[] = [];
+    private frameStart: number = 0;
+    private frameCount: number = 0;
+    private threadId: number = 0;
+    private namedThreads: number[] = [];
+
+    /**
+     * The current time in microseconds, which is the unit of trace events.
+     */
+    private now(): number {
+      return performance.now() * 1000;
+    }
+
+    private getProcedureName(sprite: P.core.Base, fn: P.runtime.Fn): string {
+      for (const name of Object.keys(sprite.procedures)) {
+        if (sprite.procedures[name].fn === fn) {
+          return name;
+        }
+      }
+      return 'unknown procedure';
+    }
+
+    private openSlice(name: string, category: string, args: ObjectMap<any>) {
+      this.slices.push({
+        name,
+        category,
+        start: this.now(),
+        args,
+      });
+    }
+
+    private closeSlice(tid: number) {
+      const slice = this.slices.pop();
+      if (!slice) {
+        return;
+      }
+      this.events.push({
+        name: slice.name,
+        cat: slice.category,
+        ph: 'X',
+        ts: slice.start,
+        dur: this.now() - slice.start,
+        pid: PID,
+        tid,
+        args: slice.args,
+      });
+    }
+
+    beginFrame() {
+      this.frameStart = this.now();
+    }
+
+    endFrame() {
+      this.events.push({
+        name: 'frame',
+        cat: 'frame',
+        ph: 'X',
+        ts: this.frameStart,
+        dur: this.now() - this.frameStart,
+        pid: PID,
+        tid: FRAME_TID,
+        args: { frame: this.frameCount },
+      });
+      this.frameCount++;
+    }
+
+    /**
+     * Called when a thread starts running for this frame.
+     * @param procedures The functions of the procedures that the thread was already running, from outermost to innermost.
+     * @param fn The function that the thread resumes from.
+     */
+    beginThread(id: number, sprite: P.core.Base, base: P.runtime.Fn, procedures: P.runtime.Fn[], fn: P.runtime.Fn) {
+      // Track 0 is used by frames, so thread IDs are offset by one.
+      this.threadId = id + 1;
+      const script = P.runtime.getScriptInfo(base);
+      const name = sprite.name + ': ' + (script ? script.opcode : 'unknown script');
+      if (this.namedThreads.indexOf(this.threadId) === -1) {
+        this.namedThreads.push(this.threadId);
+        this.events.push({
+          name: 'thread_name',
+          cat: '__metadata',
+          ph: 'M',
+          ts: 0,
+          pid: PID,
+          tid: this.threadId,
+          args: { name },
+        });
+      }
+      this.openSlice(name, 'thread', {
+        sprite: sprite.name,
+        blockId: script ? script.blockId : null,
+        resumedAt: P.runtime.getStartBlock(fn),
+      });
+      for (const fn of procedures) {
+        this.enterProcedure(sprite, fn);
+      }
+    }
+
+    /**
+     * Called when a thread stops running for this frame, either because it yielded or because it finished.
+     */
+    endThread() {
+      while (this.slices.length) {
+        this.closeSlice(this.threadId);
+      }
+    }
+
+    enterProcedure(sprite: P.core.Base, fn: P.runtime.Fn) {
+      const script = P.runtime.getScriptInfo(fn);
+      this.openSlice(this.getProcedureName(sprite, fn), 'procedure', {
+        sprite: sprite.name,
+        blockId: script ? script.blockId : null,
+      });
+    }
+
+    exitProcedure() {
+      // The thread's own slice is never closed by a procedure.
+      if (this.slices.length > 1) {
+        this.closeSlice(this.threadId);
+      }
+    }
+
+    /**
+     * Removes all recorded data.
+     */
+    reset() {
+      this.events = [];
+      this.slices = [];
+      this.frameCount = 0;
+      this.namedThreads = [];
+    }
+
+    /**
+     * Exports the recorded data as Chrome trace event JSON.
+     * The result can be opened in chrome://tracing or the Performance tab of Chrome's developer tools.
+     */
+    exportTrace(): string {
+      return JSON.stringify({
+        traceEvents: this.events,
+        displayTimeUnit: 'ms',
+      });
+    }
+  }
+}
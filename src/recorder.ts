@@ -0,0 +1,168 @@
+/// <reference path="phosphorus.ts" />
+/// <reference path="core.ts" />
+
+/**
+ * Recording and replaying of the input that a stage receives.
+ */
+namespace P.recorder {
+  /**
+   * An input event, without the frame it happened on.
+   */
+  export type InputEventData =
+    { type: 'mousemove'; x: number; y: number; } |
+    { type: 'mousedown'; } |
+    { type: 'mouseup'; } |
+    { type: 'click'; } |
+    { type: 'keydown'; key: string; } |
+    { type: 'keyup'; key: string; } |
+    { type: 'keypress'; key: string; } |
+    { type: 'answer'; value: string; } |
+    { type: 'greenflag'; } |
+    { type: 'stop'; };
+
+  /**
+   * An input event. `frame` is the number of frames the runtime had finished since recording started when the event happened.
+   */
+  export type InputEvent = InputEventData & { frame: number; };
+
+  /**
+   * A recorded input session. This is plain data that can be serialized with JSON.
+   */
+  export interface InputLog {
+    framerate: number;
+    /** The seed of the random numbers of the virtual clock that the input was recorded on. */
+    seed: number;
+    /** The time that the virtual clock started at, in milliseconds since the Unix epoch. */
+    startTime: number;
+    events: InputEvent[];
+  }
+
+  /**
+   * Records every input that a stage receives.
+   * The stage runs on a virtual clock while recording, so that the same frames can be run again when replaying.
+   */
+  export class InputRecorder {
+    private events: InputEvent[] = [];
+    private startFrame: number = 0;
+    private startTime: number = 0;
+
+    /**
+     * @param seed The seed of the random numbers of the virtual clock.
+     */
+    constructor(public stage: P.core.Stage, public seed: number = 0) {
+
+    }
+
+    /**
+     * Begin recording input.
+     * Switches the stage to a virtual clock, so this must be called while the runtime is paused.
+     */
+    start() {
+      const runtime = this.stage.runtime;
+      runtime.useVirtualClock(undefined, this.seed);
+      this.startFrame = runtime.frameCount;
+      this.startTime = runtime.virtualTime;
+      this.stage.inputRecorder = this;
+    }
+
+    /**
+     * Stop recording input.
+     */
+    stop() {
+      if (this.stage.inputRecorder === this) {
+        this.stage.inputRecorder = null;
+      }
+    }
+
+    record(event: InputEventData) {
+      this.events.push({
+        ...event,
+        frame: this.stage.runtime.frameCount - this.startFrame,
+      });
+    }
+
+    /**
+     * Get the input recorded so far.
+     */
+    getLog(): InputLog {
+      return {
+        framerate: this.stage.runtime.framerate,
+        seed: this.seed,
+        startTime: this.startTime,
+        events: this.events.slice(),
+      };
+    }
+  }
+
+  /**
+   * Feeds a recorded input session into a stage.
+   * The stage should be freshly loaded and paused. It will be switched to the same virtual clock that the input was
+   * recorded on, so that the replay is deterministic.
+   */
+  export class InputReplayer {
+    private index: number = 0;
+    private startFrame: number;
+
+    constructor(public stage: P.core.Stage, private log: InputLog) {
+      stage.runtime.framerate = log.framerate;
+      stage.runtime.useVirtualClock(log.startTime, log.seed);
+      this.startFrame = stage.runtime.frameCount;
+    }
+
+    private applyEvent(event: InputEvent) {
+      const stage = this.stage;
+      switch (event.type) {
+        case 'mousemove': stage.setMousePosition(event.x, event.y); break;
+        case 'mousedown': stage.pressMouse(); break;
+        case 'mouseup': stage.releaseMouse(); break;
+        case 'click': stage.clickMouse(); break;
+        case 'keydown': stage.pressKey(event.key); break;
+        case 'keyup': stage.releaseKey(event.key); break;
+        case 'keypress': stage.triggerKey(event.key); break;
+        case 'answer':
+          stage.prompt.value = event.value;
+          stage.submitPrompt();
+          break;
+        case 'greenflag':
+          stage.runtime.stopAll();
+          stage.runtime.triggerGreenFlag();
+          break;
+        case 'stop': stage.runtime.stopAll(); break;
+        default: throw new Error('Unknown input event: ' + (event as InputEvent).type);
+      }
+    }
+
+    /**
+     * Whether every event in the log has been replayed.
+     */
+    isFinished(): boolean {
+      return this.index >= this.log.events.length;
+    }
+
+    /**
+     * Replays the input of the next frame and then runs that frame.
+     */
+    step() {
+      const events = this.log.events;
+      const frame = this.stage.runtime.frameCount - this.startFrame;
+      while (this.index < events.length && events[this.index].frame <= frame) {
+        this.applyEvent(events[this.index]);
+        this.index++;
+      }
+      this.stage.runtime.stepFrames(1);
+    }
+
+    /**
+     * Replays the entire log.
+     * @param extraFrames Frames to run after the last event, so that scripts started by it have time to finish.
+     */
+    run(extraFrames: number = 0) {
+      while (!this.isFinished()) {
+        this.step();
+      }
+      for (let i = 0; i < extraFrames; i++) {
+        this.step();
+      }
+    }
+  }
+}
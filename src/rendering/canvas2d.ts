@@ -292,6 +292,15 @@ namespace P.renderer.canvas2d {
       this._drawChild(sprite, this.penContext);
     }
 
+    penSave() {
+      return this.penLayer.toDataURL();
+    }
+
+    penRestore(image: HTMLImageElement) {
+      this.penModified = true;
+      this.penContext.drawImage(image, 0, 0, 480, 360);
+    }
+
     spriteTouchesPoint(sprite: P.core.Sprite, x: number, y: number) {
       const bounds = sprite.rotatedBounds();
       if (x < bounds.left || y < bounds.bottom || x > bounds.right || y > bounds.top || sprite.scale === 0) {
@@ -0,0 +1,92 @@
+/// <reference path="../phosphorus.ts" />
+/// <reference path="renderer.ts" />
+
+namespace P.renderer.headless {
+  /**
+   * A renderer that never draws anything, for running projects without a browser.
+   * Collisions are approximated with the bounding boxes of sprites, and color sensing never matches.
+   */
+  export class HeadlessProjectRenderer implements ProjectRenderer {
+    public canvas: HTMLCanvasElement;
+
+    constructor(public stage: P.core.Stage) {
+      // The canvas is never drawn to, but the stage expects one to exist.
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = 480;
+      this.canvas.height = 360;
+    }
+
+    init(root: HTMLElement) {
+      root.appendChild(this.canvas);
+    }
+
+    destroy() {
+
+    }
+
+    drawFrame() {
+
+    }
+
+    onStageFiltersChanged() {
+
+    }
+
+    resize(scale: number) {
+
+    }
+
+    penLine(color: P.core.PenColor, size: number, x: number, y: number, x2: number, y2: number) {
+
+    }
+
+    penDot(color: P.core.PenColor, size: number, x: number, y: number) {
+
+    }
+
+    penStamp(sprite: P.core.Base) {
+
+    }
+
+    penClear() {
+
+    }
+
+    penSave() {
+      return null;
+    }
+
+    penRestore(image: HTMLImageElement) {
+
+    }
+
+    spriteTouchesPoint(sprite: P.core.Sprite, x: number, y: number) {
+      const bounds = sprite.rotatedBounds();
+      return sprite.scale !== 0 && x >= bounds.left && y >= bounds.bottom && x <= bounds.right && y <= bounds.top;
+    }
+
+    spritesIntersect(spriteA: P.core.Base, otherSprites: P.core.Base[]) {
+      const mb = spriteA.rotatedBounds();
+      for (const spriteB of otherSprites) {
+        // Invisible sprites are ignored.
+        // Sprites cannot intersect with themselves.
+        if (!spriteB.visible || spriteA === spriteB) {
+          continue;
+        }
+        const ob = spriteB.rotatedBounds();
+        if (mb.bottom < ob.top && ob.bottom < mb.top && mb.left < ob.right && ob.left < mb.right) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    spriteTouchesColor(sprite: P.core.Base, color: number) {
+      return false;
+    }
+
+    spriteColorTouchesColor(sprite: P.core.Base, spriteColor: number, otherColor: number) {
+      return false;
+    }
+  }
+}
@@ -61,6 +61,15 @@ namespace P.renderer {
      * Clear the pen layer
      */
     penClear(): void;
+    /**
+     * Save the pen layer as a data: URL of a PNG image.
+     * Renderers that do not draw return null.
+     */
+    penSave(): string | null;
+    /**
+     * Draw an image saved by penSave() over the entire pen layer
+     */
+    penRestore(image: HTMLImageElement): void;
     /**
      * Determines if a Sprite is intersecting a point
      * @param sprite The sprite
@@ -1132,6 +1132,23 @@ namespace P.renderer.webgl {
       this.gl.clearColor(0, 0, 0, 0);
       this.gl.clear(this.gl.COLOR_BUFFER_BIT);
     }
+
+    penSave(): string {
+      if (this.pendingPenOperations()) {
+        this.drawPendingOperations();
+      }
+      return this.canvas.toDataURL();
+    }
+
+    penRestore(image: HTMLImageElement): void {
+      this.dirty = true;
+      if (this.pendingPenOperations()) {
+        this.drawPendingOperations();
+      }
+      const texture = this.convertToTexture(image);
+      this.drawTextureOverlay(texture);
+      this.gl.deleteTexture(texture);
+    }
   }
 
   export class WebGLProjectRenderer extends WebGLSpriteRenderer implements ProjectRenderer {
@@ -1215,6 +1232,14 @@ namespace P.renderer.webgl {
       this.penRenderer.penClear();
     }
 
+    penSave(): string {
+      return this.penRenderer.penSave();
+    }
+
+    penRestore(image: HTMLImageElement): void {
+      this.penRenderer.penRestore(image);
+    }
+
     private updatePenTexture() {
       // We prefer re-using the penTexture if it already exists.
       if (this.penTexture) {
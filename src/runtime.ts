@@ -1,6 +1,7 @@
 /// <reference path="phosphorus.ts" />
 /// <reference path="core.ts" />
 /// <reference path="audio.ts" />
+/// <reference path="profiler.ts" />
 
 // The phosphorus runtime for Scratch
 // Provides methods expected at runtime by scripts created by the compiler and an environment for Scratch scripts to run
@@ -29,10 +30,22 @@ namespace P.runtime {
   var BASE;
   // The ID of the active thread in the Runtime's queue
   var THREAD: number;
+  // The unique ID of the active thread, which unlike THREAD does not change as the queue changes
+  var THREAD_ID: number;
   // The next function to run immediately after this one.
   var IMMEDIATE: Fn | null | undefined;
   // Has a "visual change" been made in this frame?
   var VISUAL: boolean;
+  // The time at which the current thread started running in this frame, used by the warp timer.
+  var WARP_START: number;
+  // The number of times the warp timer has been checked since WARP_START, used instead of time by virtual clocks.
+  var WARP_CHECKS: number;
+  // Has a thread in warp mode been forced to yield in this frame?
+  var WARP_TIMED_OUT: boolean;
+  // Should the next breakpoint be ignored? Set when a thread resumes from a breakpoint.
+  var SKIP_BREAKPOINT: boolean;
+  // The ID of the block that is running, if known. Only tracked when the debugger is enabled.
+  var BLOCK_ID: string | null;
 
   // Note:
   // Your editor might warn you about "unused variables" or things like that.
@@ -41,6 +54,8 @@ namespace P.runtime {
   const epoch = Date.UTC(2000, 0, 1);
   const INSTRUMENTS = P.audio.instruments;
   const DRUMS = P.audio.drums;
+  const MIDI_INSTRUMENTS = P.audio.midiInstruments;
+  const MIDI_DRUMS = P.audio.midiDrums;
   const DIGIT = /\d/;
 
   var bool = function(v) {
@@ -149,9 +164,9 @@ namespace P.runtime {
       x = tmp;
     }
     if (!fractional && (x % 1 === 0 && y % 1 === 0)) {
-      return Math.floor(Math.random() * (y - x + 1)) + x;
+      return Math.floor(runtime.random() * (y - x + 1)) + x;
     }
-    return Math.random() * (y - x) + x;
+    return runtime.random() * (y - x) + x;
   };
 
   // Clone a sprite
@@ -164,6 +179,8 @@ namespace P.runtime {
     const c = parent.clone();
     self.children.splice(self.children.indexOf(parent), 0, c);
     runtime.triggerFor(c, 'whenCloned');
+    // Like in Scratch 3, clones check edge-activated hats such as "when this sprite touches" on their own.
+    runtime.triggerFor(c, 'edgeActivated');
     if (c.visible) {
       VISUAL = true;
     }
@@ -185,7 +202,7 @@ namespace P.runtime {
     var i = index | 0;
     if (i === index) return i > 0 && i <= length ? i - 1 : -1;
     if (index === 'random' || index === 'any') {
-      return Math.random() * length | 0;
+      return runtime.random() * length | 0;
     }
     if (index === 'last') {
       return length - 1;
@@ -335,21 +352,22 @@ namespace P.runtime {
   };
 
   var timeAndDate = function(format: any): number {
+    const date = runtime.currentDate();
     switch (format) {
       case 'year':
-        return new Date().getFullYear();
+        return date.getFullYear();
       case 'month':
-        return new Date().getMonth() + 1;
+        return date.getMonth() + 1;
       case 'date':
-        return new Date().getDate();
+        return date.getDate();
       case 'day of week':
-        return new Date().getDay() + 1;
+        return date.getDay() + 1;
       case 'hour':
-        return new Date().getHours();
+        return date.getHours();
       case 'minute':
-        return new Date().getMinutes();
+        return date.getMinutes();
       case 'second':
-        return new Date().getSeconds();
+        return date.getSeconds();
     }
     return 0;
   }
@@ -398,6 +416,13 @@ namespace P.runtime {
     };
 
     var playSpan = function(span, key, duration) {
+      // The soundbank may still be loading in the background, in which case the note is silent but still lasts as long.
+      if (!P.audio.isSpanLoaded(span)) {
+        return {
+          stopped: false,
+          base: BASE,
+        };
+      }
       const node = P.audio.playSpan(span, key, duration, S.getAudioNode());
       return {
         stopped: false,
@@ -430,6 +455,10 @@ namespace P.runtime {
     };
 
     var startSound = function(sound: P.core.Sound) {
+      // Sounds that are still being decoded are skipped, like sounds that could not be decoded.
+      if (!sound.buffer) {
+        return;
+      }
       // todo: this is a hack, won't work with clones
       // https://github.com/forkphorus/forkphorus/issues/298
       for (const s of S.activeSounds) {
@@ -467,6 +496,9 @@ namespace P.runtime {
         warp: procedure.warp,
       };
       R = {};
+      if (runtime.profiler) {
+        runtime.profiler.enterProcedure(S, procedure.fn);
+      }
       if (C.warp || WARP) {
         WARP++;
         IMMEDIATE = procedure.fn;
@@ -479,6 +511,7 @@ namespace P.runtime {
           for (var i = CALLS.length, j = 5; i-- && j--;) {
             if (CALLS[i].base === procedure.fn) {
               runtime.queue[THREAD] = {
+                id: THREAD_ID,
                 sprite: S,
                 base: BASE,
                 fn: procedure.fn,
@@ -498,6 +531,9 @@ namespace P.runtime {
 
   var endCall = function() {
     if (CALLS.length) {
+      if (runtime.profiler) {
+        runtime.profiler.exitProcedure();
+      }
       if (WARP) WARP--;
       IMMEDIATE = C.fn;
       C = CALLS.pop();
@@ -531,8 +567,23 @@ namespace P.runtime {
     return false;
   };
 
+  // Whether a thread in warp mode has run for too long and must yield to keep the page responsive.
+  // The yield does not count as a visual change.
+  var warpTimerExpired = function() {
+    if (runtime.virtualClock) {
+      // Time does not pass during a frame of a virtual clock, and counting checks keeps runs reproducible.
+      if (++WARP_CHECKS < runtime.warpCheckLimit) {
+        return false;
+      }
+    } else if (Date.now() - WARP_START < runtime.warpTimeLimit) {
+      return false;
+    }
+    WARP_TIMED_OUT = true;
+    return true;
+  };
+
   var queue = function(id) {
-    if (WARP) {
+    if (WARP && !warpTimerExpired()) {
       IMMEDIATE = S.fns[id];
     } else {
       forceQueue(id);
@@ -541,6 +592,7 @@ namespace P.runtime {
 
   var forceQueue = function(id) {
     runtime.queue[THREAD] = {
+      id: THREAD_ID,
       sprite: S,
       base: BASE,
       fn: S.fns[id],
@@ -549,6 +601,466 @@ namespace P.runtime {
     };
   };
 
+  // Called by compiled scripts before each block when the debugger is enabled.
+  // Returns true if the thread stopped at a breakpoint, in which case the script must return.
+  var debugBlock = function(blockId: string, label: number): boolean {
+    BLOCK_ID = blockId;
+    if (SKIP_BREAKPOINT) {
+      SKIP_BREAKPOINT = false;
+      return false;
+    }
+    if (runtime.breakpoints.indexOf(blockId) === -1) {
+      return false;
+    }
+    const thread: Thread = {
+      id: THREAD_ID,
+      sprite: S,
+      base: BASE,
+      fn: S.fns[label],
+      calls: CALLS,
+      warp: WARP,
+      paused: true,
+      breakpoint: blockId,
+    };
+    runtime.queue[THREAD] = thread;
+    runtime.handleBreakpoint(runtime.getThreadInfo(thread));
+    return true;
+  };
+
+  // Called by interpreted scripts before each block when the debugger is enabled.
+  // Returns true if the thread stopped at a breakpoint, in which case the thread must yield and call this again when it resumes.
+  var debugInterpretedBlock = function(blockId: string): boolean {
+    if (SKIP_BREAKPOINT) {
+      SKIP_BREAKPOINT = false;
+      return false;
+    }
+    if (runtime.breakpoints.indexOf(blockId) === -1) {
+      return false;
+    }
+    const thread: Thread = {
+      id: THREAD_ID,
+      sprite: S,
+      base: BASE,
+      fn: resumeInterpretedThread,
+      calls: CALLS,
+      warp: WARP,
+      paused: true,
+      breakpoint: blockId,
+    };
+    runtime.queue[THREAD] = thread;
+    runtime.handleBreakpoint(runtime.getThreadInfo(thread));
+    return true;
+  };
+
+  /**
+   * The helpers that compiled scripts use by name.
+   * Interpreted scripts cannot see the variables of this namespace, so they use these instead.
+   * Like in compiled scripts, they must only be called while a thread is running.
+   */
+  export const scriptFunctions = {
+    epoch,
+    INSTRUMENTS,
+    DRUMS,
+    MIDI_INSTRUMENTS,
+    MIDI_DRUMS,
+    bool,
+    compare,
+    equal,
+    numEqualExperimental,
+    numLessExperimental,
+    numGreaterExperimental,
+    strEqual,
+    stringContains,
+    mod,
+    random,
+    clone,
+    getLineOfList,
+    listContains,
+    listIndexOf,
+    watchedAppendToList,
+    watchedDeleteLineOfList,
+    watchedDeleteAllOfList,
+    watchedInsertInList,
+    watchedSetLineOfList,
+    attribute,
+    getKeyCode3,
+    // These are only defined when audio is supported.
+    playNote: playNote!,
+    playSpan: playSpan!,
+    playSound: playSound!,
+    startSound: startSound!,
+    updateSoundEffectsOnAllSounds: updateSoundEffectsOnAllSounds!,
+    cloudVariableChanged,
+    parseColor,
+    sceneChange,
+    broadcast,
+    running,
+    warpTimerExpired,
+    debugInterpretedBlock,
+  };
+
+  /**
+   * Whether a visual change has been made in this frame.
+   */
+  export function isVisual(): boolean {
+    return VISUAL;
+  }
+
+  /**
+   * Marks that a visual change has been made in this frame.
+   */
+  export function setVisual() {
+    VISUAL = true;
+  }
+
+  /**
+   * A running script that is interpreted instead of compiled.
+   * The iterator yields true when the thread must wait until the next tick, and false when it only has to wait if it is not in warp mode.
+   */
+  export interface InterpretedThread {
+    iterator: Iterator<boolean>;
+    warp: number;
+    /** The procedures that are running, innermost last. */
+    calls: { fn: Fn }[];
+    /** The ID of the block that is running, which errors are blamed on. */
+    blockId: string | null;
+  }
+
+  // Runs an interpreted thread until it yields or finishes. This is the continuation of every interpreted thread.
+  var resumeInterpretedThread = function() {
+    const thread: InterpretedThread = R.interpreted;
+    while (true) {
+      const result = thread.iterator.next();
+      if (result.done) {
+        return;
+      }
+      if (runtime.queue[THREAD]) {
+        // The thread stopped at a breakpoint and is already queued.
+        return;
+      }
+      if (result.value || !thread.warp || warpTimerExpired()) {
+        runtime.queue[THREAD] = {
+          id: THREAD_ID,
+          sprite: S,
+          base: BASE,
+          fn: resumeInterpretedThread,
+          calls: CALLS,
+          warp: WARP
+        };
+        return;
+      }
+    }
+  };
+
+  /**
+   * Creates the first function of a script that is interpreted instead of compiled.
+   * @param start Creates the thread of the script for a sprite.
+   */
+  export function createInterpretedScript(start: (sprite: P.core.Base) => InterpretedThread): Fn {
+    return function() {
+      R.interpreted = start(S);
+      resumeInterpretedThread();
+    };
+  }
+
+  /**
+   * Describes the hat block at the top of a script.
+   */
+  export interface ScriptInfo {
+    opcode: string;
+    /** The ID of the hat block, if the project format has block IDs. */
+    blockId: string | null;
+  }
+
+  // Maps the first function of a script to information about the script.
+  const scriptInfo = new WeakMap<Fn, ScriptInfo>();
+
+  /**
+   * Associates information about a script with the first function of that script.
+   * Compilers call this so that the debugger can describe running threads.
+   */
+  export function registerScript(fn: Fn, info: ScriptInfo) {
+    scriptInfo.set(fn, info);
+  }
+
+  /**
+   * Gets the information of the script that begins with a function, if any.
+   */
+  export function getScriptInfo(fn: Fn): ScriptInfo | null {
+    return scriptInfo.get(fn) || null;
+  }
+
+  /**
+   * Information that a compiler gives to createContinuation so that errors can be traced back to blocks.
+   * Compiled code marks the start of each block with a comment of @ followed by the block's index in blockIds.
+   */
+  export interface ContinuationSource {
+    /** The name of the sprite that owns the script. */
+    sprite: string;
+    blockIds: string[];
+    /** The index of the block that the continuation starts in, or -1. Continuations can start in the middle of a block. */
+    startBlock: number;
+  }
+
+  export interface SourceMapEntry {
+    line: number;
+    column: number;
+    blockId: string;
+  }
+
+  /**
+   * Maps positions in a generated function to the blocks they were compiled from.
+   */
+  export interface SourceMap {
+    /** The name of the function in stack traces, set with a sourceURL comment. */
+    url: string;
+    sprite: string;
+    /** The position where the code of each block starts, in order. Lines and columns start at 1 like in stack traces. */
+    entries: SourceMapEntry[];
+  }
+
+  const sourceMaps = new WeakMap<Fn, SourceMap>();
+  let sourceMapCount = 0;
+
+  const BLOCK_MARKER = /\/\*@(\d+)\*\//g;
+
+  /**
+   * Finds the positions of the blocks in a function's source, as made by transformContinuation.
+   */
+  export function findBlockPositions(source: string, info: ContinuationSource): SourceMapEntry[] {
+    const entries: SourceMapEntry[] = [];
+    if (info.startBlock !== -1) {
+      entries.push({ line: 1, column: 1, blockId: info.blockIds[info.startBlock] });
+    }
+    let line = 1;
+    let lineStart = 0;
+    let match: RegExpExecArray | null;
+    BLOCK_MARKER.lastIndex = 0;
+    while (match = BLOCK_MARKER.exec(source)) {
+      let newline = source.indexOf('\n', lineStart);
+      while (newline !== -1 && newline < match.index) {
+        line++;
+        lineStart = newline + 1;
+        newline = source.indexOf('\n', lineStart);
+      }
+      entries.push({ line, column: match.index - lineStart + 1, blockId: info.blockIds[+match[1]] });
+    }
+    return entries;
+  }
+
+  /**
+   * Gets the source map of a function made by createContinuation, if it has one.
+   */
+  export function getSourceMap(fn: Fn): SourceMap | null {
+    return sourceMaps.get(fn) || null;
+  }
+
+  /**
+   * Gets the ID of the block that a function starts running in, if it has a source map.
+   */
+  export function getStartBlock(fn: Fn): string | null {
+    const map = getSourceMap(fn);
+    if (!map || map.entries.length === 0) {
+      return null;
+    }
+    return map.entries[0].blockId;
+  }
+
+  /**
+   * Finds the block that was running in a function when an error was thrown, using the error's stack trace.
+   * Returns null if the function has no source map or the stack trace does not include it.
+   */
+  export function resolveErrorBlock(fn: Fn, error: any): string | null {
+    const map = getSourceMap(fn);
+    if (!map || !error || typeof error.stack !== 'string') {
+      return null;
+    }
+    const index = error.stack.indexOf(map.url + ':');
+    if (index === -1) {
+      return null;
+    }
+    const position = /^:(\d+):(\d+)/.exec(error.stack.substr(index + map.url.length));
+    if (!position) {
+      return null;
+    }
+    const line = +position[1];
+    const column = +position[2];
+    let blockId: string | null = null;
+    for (const entry of map.entries) {
+      if (entry.line > line || (entry.line === line && entry.column > column)) {
+        break;
+      }
+      blockId = entry.blockId;
+    }
+    return blockId;
+  }
+
+  /**
+   * Public description of a thread, as given by the debugger API of Runtime.
+   */
+  export interface ThreadInfo {
+    /** A unique ID that identifies this thread in other debugger methods. */
+    id: number;
+    sprite: P.core.Base;
+    /** The hat block that started this thread, if known. */
+    hat: ScriptInfo | null;
+    /** How many levels of "run without screen refresh" this thread is in. */
+    warp: number;
+    paused: boolean;
+    /** The ID of the block this thread is stopped at, if it hit a breakpoint. */
+    breakpoint: string | null;
+  }
+
+  /**
+   * The saved state of a thread. Contains only JSON-compatible data.
+   * Continuations are saved as the index of the sprite that owns them and their index in that sprite's fns.
+   */
+  export interface ThreadState {
+    target: number;
+    base: any;
+    fn: any;
+    calls: any[];
+    warp: number;
+    paused: boolean;
+  }
+
+  // Converts a value used by a thread to JSON-compatible data.
+  // Some thread state refers to things that cannot be saved, like playing sounds and pending promises.
+  // Those are saved as if they have finished, so threads waiting for them will continue after being restored.
+  // The times at which waits and glides started are saved relative to `now`, so they can continue in another runtime.
+  var saveThreadValue = function(value: any, targets: P.core.Base[], now: number): any {
+    if (typeof value === 'function') {
+      for (let i = 0; i < targets.length; i++) {
+        const index = targets[i].fns.indexOf(value);
+        if (index !== -1) {
+          return saveFunction(targets[i].fns, i, index);
+        }
+      }
+      return undefined;
+    }
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean' || value === null) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((i) => saveThreadValue(i, targets, now));
+    }
+    if (typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+      return undefined;
+    }
+    if ('stopped' in value && 'node' in value) {
+      // An active sound, see P.core.ActiveSound
+      return { stopped: true };
+    }
+    const result = {};
+    for (const key of Object.keys(value)) {
+      if (key === 'resume' && value[key] === false) {
+        result[key] = true;
+        continue;
+      }
+      if (key === 'start' && typeof value[key] === 'number') {
+        result[key] = value[key] - now;
+        continue;
+      }
+      const saved = saveThreadValue(value[key], targets, now);
+      if (saved !== undefined) {
+        result[key] = saved;
+      }
+    }
+    return result;
+  };
+
+  // Lazily compiled scripts add their functions to fns in the order that the scripts first run, which can differ between
+  // copies of a project, so those functions are saved by their index in their script instead.
+  var saveFunction = function(fns: Fn[], target: number, index: number): any {
+    for (let i = 0; i < fns.length; i++) {
+      const script = lazyScripts.get(fns[i]);
+      if (script && index >= script.start && index < script.end) {
+        return { $target: target, $fn: i, $offset: index - script.start };
+      }
+    }
+    return { $target: target, $fn: index };
+  };
+
+  var loadFunction = function(value: any, targets: P.core.Base[]): Fn {
+    const target = targets[value.$target];
+    let fn: Fn | undefined = target && target.fns[value.$fn];
+    if (fn && typeof value.$offset === 'number') {
+      const script = lazyScripts.get(fn);
+      fn = undefined;
+      if (script) {
+        script.compile();
+        if (script.start + value.$offset < script.end) {
+          fn = target.fns[script.start + value.$offset];
+        }
+      }
+    }
+    if (!fn) {
+      throw new Error('Cannot restore unknown function: ' + JSON.stringify(value));
+    }
+    return fn;
+  };
+
+  var loadThreadValue = function(value: any, targets: P.core.Base[], now: number): any {
+    if (Array.isArray(value)) {
+      return value.map((i) => loadThreadValue(i, targets, now));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (typeof value.$fn === 'number') {
+      return loadFunction(value, targets);
+    }
+    const result = {};
+    for (const key of Object.keys(value)) {
+      if (key === 'start' && typeof value[key] === 'number') {
+        result[key] = value[key] + now;
+        continue;
+      }
+      result[key] = loadThreadValue(value[key], targets, now);
+    }
+    return result;
+  };
+
+  /**
+   * An error thrown by a script, with information about where it came from.
+   */
+  export class ScriptError extends Error {
+    /** The name of the sprite that ran the script. */
+    public sprite: string;
+    /** The opcode of the hat block of the script, if known. */
+    public opcode: string | null;
+    /** The ID of the hat block of the script, if known. */
+    public hatBlockId: string | null;
+    /** The ID of the block that threw, if known. */
+    public blockId: string | null;
+
+    constructor(public error: any, sprite: P.core.Base, script: ScriptInfo | null, blockId: string | null) {
+      super(`Error in script ${script ? script.opcode : 'unknown'} of ${sprite.name}: ${error && error.message ? error.message : error}`);
+      this.name = 'ScriptError';
+      this.sprite = sprite.name;
+      this.opcode = script ? script.opcode : null;
+      this.hatBlockId = script ? script.blockId : null;
+      this.blockId = blockId;
+      if (error && error.stack) {
+        this.stack = error.stack;
+      }
+    }
+
+    /**
+     * Describes where the error came from, like "Sprite1 → script starting at block abc, in block def"
+     */
+    getLocation(): string {
+      let location = this.sprite + ' \u2192 script starting at ' + (this.hatBlockId ? 'block ' + this.hatBlockId : 'unknown block');
+      if (this.opcode) {
+        location += ' (' + this.opcode + ')';
+      }
+      if (this.blockId) {
+        location += ', in block ' + this.blockId;
+      }
+      return location;
+    }
+  }
+
   type ThreadResume = any;
 
   interface ThreadCall {
@@ -558,11 +1070,14 @@ namespace P.runtime {
   }
 
   interface Thread {
+    id: number;
     sprite: P.core.Base;
     base: Fn;
     fn: Fn;
     calls: ThreadCall[];
     warp: number;
+    paused?: boolean;
+    breakpoint?: string | null;
   }
 
   export class Runtime {
@@ -576,15 +1091,58 @@ namespace P.runtime {
     public framerate: number = 30;
     public currentMSecs: number = 0;
     public whenTimerMSecs: number = 0;
+    /**
+     * The number of frames that have been run.
+     */
+    public frameCount: number = 0;
+    /**
+     * Whether this runtime uses a virtual clock instead of the system clock.
+     * When enabled, time only advances through advance() and stepFrames(). While the runtime is started, the event loop
+     * calls stepFrames(1) on each tick, so time moves by exactly one frame per tick.
+     */
+    public virtualClock: boolean = false;
+    /**
+     * The current value of the virtual clock, in milliseconds since the Unix epoch.
+     */
+    public virtualTime: number = 0;
+    /**
+     * The state of the random number generator that is used instead of Math.random() while using a virtual clock.
+     */
+    public randomState: number = 0;
+    /**
+     * The maximum time, in milliseconds, that a thread in warp mode ("run without screen refresh") can run before it yields.
+     * Not used while using a virtual clock.
+     */
+    public warpTimeLimit: number = 500;
+    /**
+     * The number of loop iterations and queued functions after which a thread in warp mode yields while using a virtual clock.
+     */
+    public warpCheckLimit: number = 1000000;
+    /**
+     * Whether a thread in warp mode had to be forced to yield in the last frame.
+     */
+    public isRunningSlowly: boolean = false;
+    /**
+     * The IDs of the blocks that threads will stop at.
+     * Breakpoints only work in scripts compiled or interpreted while P.config.enableDebugger is set.
+     */
+    public breakpoints: string[] = [];
+    /**
+     * The profiler that records the time used by threads and procedures, if any.
+     */
+    public profiler: P.profiler.Profiler | null = null;
+    private nextThreadId: number = 0;
 
     constructor(public stage: P.core.Stage) {
       // Fix scoping
       this.onError = this.onError.bind(this);
       this.step = this.step.bind(this);
+      this.tick = this.tick.bind(this);
     }
 
     startThread(sprite: core.Base, base: Fn, replaceExisting: boolean) {
       const thread: Thread = {
+        id: this.nextThreadId++,
         sprite: sprite,
         base: base,
         fn: base,
@@ -674,8 +1232,8 @@ namespace P.runtime {
       this.isRunning = true;
       if (this.interval) return;
       window.addEventListener('error', this.onError);
-      this.baseTime = Date.now();
-      this.interval = setInterval(this.step, 1000 / this.framerate);
+      this.baseTime = this.currentTime();
+      this.interval = setInterval(this.tick, 1000 / this.framerate);
       if (audioContext) audioContext.resume();
       this.stage.startExtensions();
     }
@@ -705,7 +1263,7 @@ namespace P.runtime {
       if (this.interval) {
         clearInterval(this.interval);
       }
-      this.interval = setInterval(this.step, 1000 / this.framerate);
+      this.interval = setInterval(this.tick, 1000 / this.framerate);
     }
 
     /**
@@ -740,7 +1298,84 @@ namespace P.runtime {
      * The current time in the project
      */
     now(): number {
-      return this.baseNow + Date.now() - this.baseTime;
+      return this.baseNow + this.currentTime() - this.baseTime;
+    }
+
+    /**
+     * The current wall clock time, in milliseconds since the Unix epoch.
+     * Reads the virtual clock when it is enabled.
+     */
+    currentTime(): number {
+      if (this.virtualClock) {
+        return this.virtualTime;
+      }
+      return Date.now();
+    }
+
+    /**
+     * The current date, as read by the date blocks.
+     * Follows the virtual clock when it is enabled.
+     */
+    currentDate(): Date {
+      return new Date(this.currentTime());
+    }
+
+    /**
+     * Switches this runtime to a virtual clock.
+     * Must be called while the runtime is paused.
+     * @param startTime The initial value of the virtual clock, in milliseconds since the Unix epoch.
+     * @param seed The seed of the random numbers used while the virtual clock is used, so that runs can be reproduced.
+     */
+    useVirtualClock(startTime: number = epoch, seed: number = 0) {
+      if (this.isRunning) {
+        throw new Error('Cannot change clocks while running');
+      }
+      this.virtualClock = true;
+      this.virtualTime = startTime;
+      this.randomState = seed >>> 0;
+    }
+
+    /**
+     * Generates a random number between 0 (inclusive) and 1 (exclusive), like Math.random().
+     * The numbers are seeded while using a virtual clock.
+     */
+    random(): number {
+      if (!this.virtualClock) {
+        return Math.random();
+      }
+      // mulberry32
+      let t = this.randomState = (this.randomState + 0x6D2B79F5) >>> 0;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Moves the virtual clock forward without running any frames.
+     * @param ms The amount of time to advance, in milliseconds.
+     */
+    advance(ms: number) {
+      if (!this.virtualClock) {
+        throw new Error('Cannot advance time without a virtual clock');
+      }
+      if (ms < 0) {
+        throw new Error('Cannot advance time backwards');
+      }
+      this.virtualTime += ms;
+    }
+
+    /**
+     * Runs a number of frames on the virtual clock, advancing time by one frame before each.
+     * @param frames The number of frames to run.
+     */
+    stepFrames(frames: number) {
+      if (!this.virtualClock) {
+        throw new Error('Cannot step frames without a virtual clock');
+      }
+      for (let i = 0; i < frames; i++) {
+        this.advance(1000 / this.framerate);
+        this.step();
+      }
     }
 
     resetTimer() {
@@ -748,6 +1383,130 @@ namespace P.runtime {
       this.whenTimerMSecs = 0;
     }
 
+    /**
+     * Lists all threads that are running or waiting.
+     */
+    getThreads(): ThreadInfo[] {
+      const result: ThreadInfo[] = [];
+      for (const thread of this.queue) {
+        if (thread) {
+          result.push(this.getThreadInfo(thread));
+        }
+      }
+      return result;
+    }
+
+    getThreadInfo(thread: Thread): ThreadInfo {
+      return {
+        id: thread.id,
+        sprite: thread.sprite,
+        hat: getScriptInfo(thread.base),
+        warp: thread.warp,
+        paused: !!thread.paused,
+        breakpoint: thread.breakpoint || null,
+      };
+    }
+
+    private findThread(id: number): Thread {
+      for (const thread of this.queue) {
+        if (thread && thread.id === id) {
+          return thread;
+        }
+      }
+      throw new Error('Unknown thread: ' + id);
+    }
+
+    /**
+     * Stops a thread from running until resumeThread() is called.
+     */
+    pauseThread(id: number) {
+      this.findThread(id).paused = true;
+    }
+
+    /**
+     * Resumes a thread that was paused or stopped at a breakpoint.
+     */
+    resumeThread(id: number) {
+      this.findThread(id).paused = false;
+    }
+
+    /**
+     * Stops a thread permanently.
+     */
+    killThread(id: number) {
+      const thread = this.findThread(id);
+      this.queue[this.queue.indexOf(thread)] = undefined;
+    }
+
+    addBreakpoint(blockId: string) {
+      if (this.breakpoints.indexOf(blockId) === -1) {
+        this.breakpoints.push(blockId);
+      }
+    }
+
+    removeBreakpoint(blockId: string) {
+      const index = this.breakpoints.indexOf(blockId);
+      if (index !== -1) {
+        this.breakpoints.splice(index, 1);
+      }
+    }
+
+    /**
+     * Saves the state of every thread.
+     * Threads of scripts run by the interpreter keep their state in iterators, which cannot be saved, so they are saved
+     * as if their script had just started.
+     * @param targets All sprites that threads may refer to. The indices of this list are used in the result.
+     */
+    saveThreads(targets: P.core.Base[]): ThreadState[] {
+      const result: ThreadState[] = [];
+      const now = this.now();
+      for (const thread of this.queue) {
+        if (!thread) {
+          continue;
+        }
+        if (thread.fn === resumeInterpretedThread) {
+          result.push({
+            target: targets.indexOf(thread.sprite),
+            base: saveThreadValue(thread.base, targets, now),
+            fn: saveThreadValue(thread.base, targets, now),
+            calls: [{ args: [], stack: [{}] }],
+            warp: 0,
+            paused: !!thread.paused,
+          });
+          continue;
+        }
+        result.push({
+          target: targets.indexOf(thread.sprite),
+          base: saveThreadValue(thread.base, targets, now),
+          fn: saveThreadValue(thread.fn, targets, now),
+          calls: saveThreadValue(thread.calls, targets, now),
+          warp: thread.warp,
+          paused: !!thread.paused,
+        });
+      }
+      return result;
+    }
+
+    /**
+     * Replaces all threads with threads restored from saveThreads()
+     * @param targets All sprites that threads may refer to, in the same order as when they were saved.
+     */
+    restoreThreads(targets: P.core.Base[], states: ThreadState[]) {
+      this.queue.length = 0;
+      const now = this.now();
+      for (const state of states) {
+        this.queue.push({
+          id: this.nextThreadId++,
+          sprite: targets[state.target],
+          base: loadThreadValue(state.base, targets, now),
+          fn: loadThreadValue(state.fn, targets, now),
+          calls: loadThreadValue(state.calls, targets, now),
+          warp: state.warp,
+          paused: state.paused,
+        });
+      }
+    }
+
     evaluateExpression(sprite: P.core.Base, fn: () => any) {
       // We will load a few runtime values for this.
       // These are the values that are most commonly used in expressions, in addition the runtime methods.
@@ -769,6 +1528,12 @@ namespace P.runtime {
       self = this.stage;
       runtime = this;
       VISUAL = false;
+      WARP_TIMED_OUT = false;
+
+      const profiler = this.profiler;
+      if (profiler) {
+        profiler.beginFrame();
+      }
 
       // TODO: instead of looping through all sprites, maintain a separate list of draggable sprites?
       for (var i = 0; i < this.stage.children.length; i++) {
@@ -788,8 +1553,11 @@ namespace P.runtime {
       do {
         for (THREAD = 0; THREAD < queue.length; THREAD++) {
           const thread = queue[THREAD];
-          if (thread) {
+          if (thread && !thread.paused) {
             // Load thread data
+            THREAD_ID = thread.id;
+            SKIP_BREAKPOINT = !!thread.breakpoint;
+            BLOCK_ID = null;
             S = thread.sprite;
             IMMEDIATE = thread.fn;
             BASE = thread.base;
@@ -799,11 +1567,43 @@ namespace P.runtime {
             R = STACK.pop();
             queue[THREAD] = undefined;
             WARP = thread.warp;
+            WARP_START = Date.now();
+            WARP_CHECKS = 0;
+
+            if (profiler) {
+              const procedures: Fn[] = [];
+              for (const call of CALLS.concat(C)) {
+                if (call.base) {
+                  procedures.push(call.base);
+                }
+              }
+              if (IMMEDIATE === resumeInterpretedThread) {
+                // Interpreted threads keep track of their own procedures.
+                for (const call of (R.interpreted as InterpretedThread).calls) {
+                  procedures.push(call.fn);
+                }
+              }
+              profiler.beginThread(THREAD_ID, S, BASE, procedures, IMMEDIATE!);
+            }
 
-            while (IMMEDIATE) {
-              const fn = IMMEDIATE;
+            let fn: Fn | null = null;
+            try {
+              while (IMMEDIATE) {
+                fn = IMMEDIATE;
+                IMMEDIATE = null;
+                fn();
+              }
+            } catch (e) {
+              // Only the thread that threw is stopped, everything else keeps running.
+              queue[THREAD] = undefined;
               IMMEDIATE = null;
-              fn();
+              const interpreted: InterpretedThread | undefined = R.interpreted;
+              const blockId = BLOCK_ID || (interpreted ? interpreted.blockId : fn && resolveErrorBlock(fn, e));
+              this.handleError(new ScriptError(e, S, getScriptInfo(BASE), blockId));
+            }
+
+            if (profiler) {
+              profiler.endThread();
             }
 
             STACK.push(R);
@@ -817,11 +1617,34 @@ namespace P.runtime {
             queue.splice(i, 1);
           }
         }
-      } while ((this.isTurbo || !VISUAL) && Date.now() - start < 1000 / this.framerate && queue.length);
+        // The virtual clock does not move during a frame, so it only runs one tick per frame to remain deterministic.
+      } while ((this.isTurbo || !VISUAL) && !this.virtualClock && Date.now() - start < 1000 / this.framerate && queue.length);
+
+      if (WARP_TIMED_OUT !== this.isRunningSlowly) {
+        this.isRunningSlowly = WARP_TIMED_OUT;
+        this.handleRunningSlowly(WARP_TIMED_OUT);
+      }
 
       this.stage.updateExtensions();
 
       this.stage.draw();
+
+      this.frameCount++;
+
+      if (profiler) {
+        profiler.endFrame();
+      }
+    }
+
+    /**
+     * Runs one tick of the event loop.
+     */
+    private tick() {
+      if (this.virtualClock) {
+        this.stepFrames(1);
+      } else {
+        this.step();
+      }
     }
 
     onError(e) {
@@ -833,9 +1656,36 @@ namespace P.runtime {
       // Default error handler
       console.error(e);
     }
+
+    handleRunningSlowly(isRunningSlowly: boolean) {
+      // Called when the warp timer starts or stops forcing threads to yield.
+    }
+
+    handleBreakpoint(thread: ThreadInfo) {
+      // Called when a thread stops at a breakpoint.
+    }
+
+    handleSay(target: P.core.Base, text: string, thinking: boolean) {
+      // Called when a sprite or the stage starts saying or thinking something.
+    }
   }
 
-  export function createContinuation(source: string): P.runtime.Fn {
+  /**
+   * Converts a part of a generated script to a function that starts running at the beginning of that part.
+   * @param info Used to create a source map of the function, if given.
+   */
+  export function createContinuation(source: string, info?: ContinuationSource): P.runtime.Fn {
+    const result = transformContinuation(source);
+    if (!info) {
+      return evaluateContinuation(result);
+    }
+    return evaluateContinuation(result, info.sprite, findBlockPositions(result, info));
+  }
+
+  /**
+   * Converts a part of a generated script to the source of a function, without evaluating it.
+   */
+  export function transformContinuation(source: string): string {
     // TODO: make understandable
     var result = '(function() {\n';
     var brackets = 0;
@@ -897,7 +1747,68 @@ namespace P.runtime {
       }
     }
     result += '})';
-    return scopedEval(result);
+    return result;
+  }
+
+  /**
+   * Evaluates a function made by transformContinuation.
+   * @param sprite The name of the sprite that owns the function, if it has a source map.
+   * @param entries The source map entries of the function, from findBlockPositions.
+   */
+  export function evaluateContinuation(source: string, sprite?: string, entries?: SourceMapEntry[]): P.runtime.Fn {
+    if (sprite === undefined || !entries) {
+      return scopedEval(source);
+    }
+    const url = 'forkphorus:///' + encodeURIComponent(sprite) + '/' + (sourceMapCount++) + '.js';
+    const fn = scopedEval(source + '\n//# sourceURL=' + url);
+    sourceMaps.set(fn, { url, sprite, entries });
+    return fn;
+  }
+
+  /**
+   * A script that is compiled the first time it runs, see createLazyFunction().
+   */
+  interface LazyScript {
+    /** Compiles the script if it has not been compiled yet. */
+    compile(): void;
+    /** The index of the first function of the compiled script in the functions of the sprite, or -1 before it is compiled. */
+    start: number;
+    /** The index after the last function of the compiled script, or -1 before it is compiled. */
+    end: number;
+  }
+
+  const lazyScripts = new WeakMap<Fn, LazyScript>();
+
+  /**
+   * Creates a function that compiles a script the first time it runs, then continues with the compiled function.
+   * The returned function is never replaced by the compiled function: threads, sounds, and "broadcast and wait"
+   * identify scripts by their first function, so it stays in the listeners and procedures of the sprite.
+   * After the first run, it only passes control to the compiled function.
+   * @param fns The functions of the sprite, which the compiled functions are added to.
+   * @param compile Compiles the script and returns its first function. Called at most once.
+   */
+  export function createLazyFunction(fns: Fn[], compile: () => Fn): Fn {
+    let compiler: (() => Fn) | null = compile;
+    let compiled: Fn | null = null;
+    const script: LazyScript = {
+      compile() {
+        if (!compiled) {
+          script.start = fns.length;
+          compiled = compiler!();
+          script.end = fns.length;
+          // The compiler holds on to the project's blocks, which are no longer needed.
+          compiler = null;
+        }
+      },
+      start: -1,
+      end: -1,
+    };
+    const fn = function() {
+      script.compile();
+      IMMEDIATE = compiled;
+    };
+    lazyScripts.set(fn, script);
+    return fn;
   }
 
   // Evaluate JavaScript within the scope of the runtime.
@@ -1,6 +1,8 @@
 /// <reference path="phosphorus.ts" />
 /// <reference path="utils.ts" />
 /// <reference path="core.ts" />
+/// <reference path="compatibility.ts" />
+/// <reference path="cache.ts" />
 /// <reference path="fonts.ts" />
 /// <reference path="config.ts" />
 
@@ -160,21 +162,22 @@ namespace P.sb2 {
     }
 
     timeAndDate(format: any): number {
+      const date = this.stage.runtime.currentDate();
       switch (format) {
         case 'year':
-          return new Date().getFullYear();
+          return date.getFullYear();
         case 'month':
-          return new Date().getMonth() + 1;
+          return date.getMonth() + 1;
         case 'date':
-          return new Date().getDate();
+          return date.getDate();
         case 'day of week':
-          return new Date().getDay() + 1;
+          return date.getDay() + 1;
         case 'hour':
-          return new Date().getHours();
+          return date.getHours();
         case 'minute':
-          return new Date().getMinutes();
+          return date.getMinutes();
         case 'second':
-          return new Date().getSeconds();
+          return date.getSeconds();
       }
       return 0;
     }
@@ -361,12 +364,17 @@ namespace P.sb2 {
 
   export abstract class BaseSB2Loader extends P.io.Loader<P.core.Stage> {
     protected projectData: SB2Project;
+    private cache: P.cache.ProjectCache | null = null;
 
     loadImage(url: string): Promise<HTMLImageElement> {
       return this.addTask(new P.io.Img(url)).load();
     }
 
     loadFonts(): Promise<void> {
+      // Fonts are only used to draw text, which never happens in a headless environment.
+      if (P.config.headless) {
+        return Promise.resolve();
+      }
       return Promise.all([
         this.addTask(new P.io.PromiseTask((P.utils.settled(P.fonts.loadWebFont('Donegal One'))))),
         this.addTask(new P.io.PromiseTask((P.utils.settled(P.fonts.loadWebFont('Gloria Hallelujah'))))),
@@ -380,8 +388,8 @@ namespace P.sb2 {
       var sounds;
 
       return Promise.all([
-        this.loadArray(data.costumes, this.loadCostume.bind(this)).then((c) => costumes = c),
-        this.loadArray(data.sounds, this.loadSound.bind(this)).then((s) => sounds = s),
+        this.loadArray(data.costumes, (c: SB2Costume) => this.loadCostume(c, data.objName)).then((c) => costumes = c),
+        this.loadArray(data.sounds, (s: SB2Sound) => this.loadSound(s, data.objName)).then((s) => sounds = s),
       ]).then(() => {
         // Dirty hack to construct a target with a null stage
         const object = new (isStage ? Scratch2Stage : Scratch2Sprite)(null!);
@@ -453,7 +461,19 @@ namespace P.sb2 {
       return watcher;
     }
 
-    loadCostume(data: SB2Costume) {
+    loadCostume(data: SB2Costume, targetName: string): Promise<P.core.Costume> {
+      const costumeOptions = {
+        name: data.costumeName,
+        bitmapResolution: data.bitmapResolution,
+        rotationCenterX: data.rotationCenterX,
+        rotationCenterY: data.rotationCenterY,
+      };
+      // Files that are missing from an sb2 are errors before a promise is returned.
+      return new Promise<P.core.Costume>((resolve) => resolve(this.loadCostumeLayers(data, costumeOptions)))
+        .catch((err) => this.substituteCostume(err, { target: targetName, name: data.costumeName, asset: data.baseLayerMD5 }, costumeOptions));
+    }
+
+    private loadCostumeLayers(data: SB2Costume, costumeOptions: P.core.CostumeOptions): Promise<P.core.Costume> {
       const promises = [
         this.loadMD5(data.baseLayerMD5, data.baseLayerID)
           .then((asset) => data.$image = asset)
@@ -480,32 +500,39 @@ namespace P.sb2 {
             image = layers[0];
           }
 
-          return new P.core.BitmapCostume(image, {
-            name: data.costumeName,
-            bitmapResolution: data.bitmapResolution,
-            rotationCenterX: data.rotationCenterX,
-            rotationCenterY: data.rotationCenterY,
-          });
+          return new P.core.BitmapCostume(image, costumeOptions);
         });
     }
 
-    loadSound(data: SB2Sound): Promise<P.core.Sound | null> {
+    loadSound(data: SB2Sound, targetName: string): Promise<P.core.Sound | null> {
       return new Promise((resolve, reject) => {
-        this.loadMD5(data.md5, data.soundID, true)
+        const cachedBuffer = this.cache && this.cache.getSound(data.md5);
+        (cachedBuffer ? Promise.resolve(cachedBuffer) : new Promise<AudioBuffer>((resolve) => resolve(this.loadMD5(data.md5, data.soundID, true))))
           .then((buffer) => {
+            if (this.cache && !cachedBuffer) {
+              this.cache.addSound(data.md5, buffer);
+            }
             resolve(new P.core.Sound({
               name: data.soundName,
               buffer,
             }));
           })
           .catch((err) => {
-            resolve(null);
-            console.warn('Could not load sound: ' + err);
+            resolve(this.substituteSound(err, { target: targetName, name: data.soundName, asset: data.md5 }, data.sampleCount, data.rate));
           });
       });
     }
 
     loadSVG(source: string): Promise<HTMLCanvasElement | HTMLImageElement> {
+      // There is no SVG parser or rasterizer in a headless environment, so the source is used unmodified.
+      if (P.config.headless) {
+        return new Promise((resolve, reject) => {
+          const image = new Image();
+          image.onload = () => resolve(image);
+          image.onerror = () => reject(new Error('Failed to load SVG'));
+          image.src = 'data:image/svg+xml,' + encodeURIComponent(source);
+        });
+      }
       const parser = new DOMParser();
       var doc = parser.parseFromString(source, 'image/svg+xml');
       var svg = doc.documentElement as any;
@@ -560,7 +587,17 @@ namespace P.sb2 {
       var children: any[];
       var stage: P.core.Stage;
 
-      return this.loadFonts()
+      if (P.config.useInterpreter) {
+        // Scratch 2 scripts can only be compiled, which is what the interpreter is used to avoid.
+        return Promise.reject(new Error('Scratch 2 projects cannot be run by the interpreter'));
+      }
+
+      // The key of the cache must be determined before anything changes the project data.
+      return P.cache.ProjectCache.open('sb2', this.projectData)
+        .then((cache) => {
+          this.cache = cache;
+          return this.loadFonts();
+        })
         .then(() => Promise.all<any>([
           P.audio.loadSoundbankSB2(this),
           this.loadArray(this.projectData.children, this.loadObject.bind(this)).then((c) => children = c),
@@ -580,7 +617,18 @@ namespace P.sb2 {
           stage.allWatchers = watchers;
           stage.allWatchers.forEach((w) => w.init());
 
-          P.sb2.compiler.compile(stage);
+          if (this.cache && this.cache.entry) {
+            try {
+              P.sb2.compiler.restore(stage, this.cache.entry.scripts as P.sb2.compiler.CompiledProject);
+              return stage;
+            } catch (e) {
+              console.warn('Could not use cached scripts', e);
+            }
+          }
+          const compiled = P.sb2.compiler.compile(stage, !!this.cache);
+          if (this.cache && compiled) {
+            this.cache.save(compiled);
+          }
           return stage;
         });
     }
@@ -660,27 +708,35 @@ namespace P.sb2 {
       }
     }
 
+    private loadBlob(hash: string): Promise<Blob> {
+      return P.io.getAssetManager().loadProjectAsset(hash, ASSET_URL + hash + '/get/', this);
+    }
+
     loadMD5(hash: string, id: string, isAudio?: true): Promise<AudioBuffer>;
     loadMD5(hash: string, id: string, isAudio?: false): Promise<HTMLImageElement | HTMLCanvasElement | null>;
     loadMD5(hash: string, id: string, isAudio: boolean = false): Promise<HTMLImageElement | HTMLCanvasElement | AudioBuffer | null> {
       const ext = hash.split('.').pop();
 
       if (ext === 'svg') {
-        return this.addTask(new P.io.Request(ASSET_URL + hash + '/get/')).load('text')
+        return this.loadBlob(hash)
+          .then((blob) => P.io.readers.toText(blob))
           .then((text) => this.loadSVG(text));
       } else if (ext === 'wav') {
-        return this.addTask(new P.io.Request(ASSET_URL + hash + '/get/')).load('arraybuffer')
+        return this.loadBlob(hash)
+          .then((blob) => P.io.readers.toArrayBuffer(blob))
           .then((buffer) => P.audio.decodeAudio(buffer));
       } else {
-        return this.loadImage(ASSET_URL + hash + '/get/');
+        return this.loadBlob(hash)
+          .then((blob) => P.io.readers.toImage(blob));
       }
     }
 
     load() {
       if (this.projectId) {
-        return this.addTask(new P.io.Request(P.config.PROJECT_API.replace('$id', '' + this.projectId))).load('json')
-          .then((data) => {
-            this.projectData = data;
+        return P.io.getAssetManager().loadProject(P.config.PROJECT_API.replace('$id', '' + this.projectId), this)
+          .then((blob) => P.io.readers.toText(blob))
+          .then((text) => {
+            this.projectData = P.json.parse(text);
             return super.load();
           });
       } else {
@@ -772,15 +828,41 @@ namespace P.sb2.compiler {
     'whenSensorGreaterThan' // TODO
   ];
 
+  /**
+   * The compiled scripts of a Scratch 2 project, which can be used to set up the project again without compiling it.
+   * @see restore
+   */
+  export interface CompiledProject {
+    /** The stage, then its children in order. */
+    objects: CompiledObject[];
+    usesMicrophone: boolean;
+    compatibility: P.compatibility.ReportEntry[];
+  }
+
+  export interface CompiledObject {
+    scripts: CompiledScript[];
+    /** The names of all lists after compiling, including lists that the compiler created because they were missing. */
+    lists: string[];
+  }
+
+  export interface CompiledScript {
+    /** The first block of the script. */
+    hat: any[];
+    /** The sources of the functions of the script, from P.runtime.transformContinuation */
+    sources: string[];
+  }
+
+  // While compile() is recording, the scripts compiled by compileListener are added here.
+  var recordedScripts: CompiledScript[] | null = null;
+
   var compileScripts = function(object) {
     for (var i = 0; i < object.scripts.length; i++) {
       compileListener(object, object.scripts[i][2]);
     }
   };
 
-  var warnings;
-  var warn = function(message) {
-    warnings[message] = (warnings[message] || 0) + 1;
+  var warn = function(object: P.core.Base, severity: P.compatibility.Severity, message: string, opcode: string) {
+    object.stage.compatibility.add(object, severity, message, opcode);
   };
 
   export var compileListener = function(object: P.core.Base, script) {
@@ -926,7 +1008,7 @@ namespace P.sb2.compiler {
 
       } else {
 
-        warn('Undefined val: ' + e[0]);
+        warn(object, 'error', 'Undefined val', e[0]);
 
       }
     };
@@ -1104,7 +1186,7 @@ namespace P.sb2.compiler {
 
       } else if (e[0] === 'timestamp') {
 
-        return '((Date.now() - epoch) / 86400000)';
+        return '((runtime.currentTime() - epoch) / 86400000)';
 
       } else if (e[0] === 'timeAndDate') {
 
@@ -1500,7 +1582,13 @@ namespace P.sb2.compiler {
           source += 'self.stopAllSounds();\n';
         }
 
-      // } else if (block[0] === 'drum:duration:elapsed:from:') {
+      } else if (block[0] === 'drum:duration:elapsed:from:') {
+
+        beatHead(block[2]);
+        if (P.audio.context) {
+          source += 'R.sound = playSpan(DRUMS[MIDI_DRUMS[Math.round(' + num(block[1]) + ') - 35]] || DRUMS[2], 60, 10);\n';
+        }
+        beatTail();
 
       } else if (block[0] === 'playDrum') {
 
@@ -1523,7 +1611,11 @@ namespace P.sb2.compiler {
         }
         beatTail();
 
-      // } else if (block[0] === 'midiInstrument:') {
+      } else if (block[0] === 'midiInstrument:') {
+
+        source += 'var program = Math.round(' + num(block[1]) + ') - 1;\n';
+        // Unknown instruments are played with the first instrument.
+        source += 'S.instrument = program >= 0 && program < MIDI_INSTRUMENTS.length ? MIDI_INSTRUMENTS[program] : MIDI_INSTRUMENTS[0];\n';
 
       } else if (block[0] === 'instrument:') {
 
@@ -1637,7 +1729,7 @@ namespace P.sb2.compiler {
           var o = object.vars[block[1]] !== undefined ? 'S' : 'self';
           source += o + '.showVariable(' + val(block[1]) + ', ' + isShow + ');\n';
         } else {
-          warn('ignoring dynamic variable');
+          warn(object, 'warning', 'ignoring dynamic variable', block[0]);
         }
 
       // } else if (block[0] === 'showList:') {
@@ -1846,7 +1938,7 @@ namespace P.sb2.compiler {
 
       } else {
 
-        warn('Undefined command: ' + block[0]);
+        warn(object, 'error', 'Undefined command', block[0]);
 
       }
     };
@@ -1886,60 +1978,139 @@ namespace P.sb2.compiler {
       source += 'return;\n';
     }
 
+    const sources: string[] = [];
     for (let i = 0; i < fns.length; i++) {
-      object.fns.push(P.runtime.createContinuation(source.slice(fns[i])));
+      const continuation = P.runtime.transformContinuation(source.slice(fns[i]));
+      sources.push(continuation);
+      object.fns.push(P.runtime.evaluateContinuation(continuation));
+    }
+    if (recordedScripts) {
+      recordedScripts.push({ hat: script[0], sources });
+    }
+
+    installScript(object, script[0], object.fns[startfn]);
+
+    if (P.config.debug) {
+      var variant = script[0][0];
+      if (variant === 'procDef') {
+        variant += ':' + script[0][1];
+      }
+      console.log('compiled sb2 script', variant, source);
     }
+  };
 
-    var f = object.fns[startfn];
+  // Adds the first function of a script to the listeners or procedures of an object.
+  var installScript = function(object: P.core.Base, hat: any[], f: P.runtime.Fn) {
+    P.runtime.registerScript(f, {
+      opcode: hat[0],
+      blockId: null,
+    });
 
-    if (script[0][0] === 'whenClicked') {
+    if (hat[0] === 'whenClicked') {
       object.listeners.whenClicked.push(f);
-    } else if (script[0][0] === 'whenGreenFlag') {
+    } else if (hat[0] === 'whenGreenFlag') {
       object.listeners.whenGreenFlag.push(f);
-    } else if (script[0][0] === 'whenCloned') {
+    } else if (hat[0] === 'whenCloned') {
       object.listeners.whenCloned.push(f);
-    } else if (script[0][0] === 'whenIReceive') {
-      var key = script[0][1].toLowerCase();
+    } else if (hat[0] === 'whenIReceive') {
+      var key = hat[1].toLowerCase();
       (object.listeners.whenIReceive[key] || (object.listeners.whenIReceive[key] = [])).push(f);
-    } else if (script[0][0] === 'whenKeyPressed') {
-      const key = P.runtime.getKeyCode(script[0][1]);
+    } else if (hat[0] === 'whenKeyPressed') {
+      const key = P.runtime.getKeyCode(hat[1]);
       object.addWhenKeyPressedHandler(key, f);
-    } else if (script[0][0] === 'whenSceneStarts') {
-      var key = script[0][1].toLowerCase();
+    } else if (hat[0] === 'whenSceneStarts') {
+      var key = hat[1].toLowerCase();
       (object.listeners.whenSceneStarts[key] || (object.listeners.whenSceneStarts[key] = [])).push(f);
-    } else if (script[0][0] === 'procDef') {
-      const warp = script[0][4];
-      const name = script[0][1];
+    } else if (hat[0] === 'procDef') {
+      const warp = hat[4];
+      const name = hat[1];
       // don't define procedure if it already exists
       // https://github.com/forkphorus/forkphorus/issues/186
       if (!object.procedures[name]) {
-        object.procedures[name] = new Scratch2Procedure(f, warp, inputs);
+        object.procedures[name] = new Scratch2Procedure(f, warp, hat[2]);
       } else {
-        warn('procedure already exists: ' + name);
+        warn(object, 'warning', 'procedure already exists: ' + name, hat[0]);
       }
     } else {
-      warn('Undefined event: ' + script[0][0]);
+      warn(object, 'error', 'Undefined event', hat[0]);
     }
+  };
 
-    if (P.config.debug) {
-      var variant = script[0][0];
-      if (variant === 'procDef') {
-        variant += ':' + script[0][1];
-      }
-      console.log('compiled sb2 script', variant, source);
+  var printCompatibility = function(stage: P.core.Stage) {
+    for (const entry of stage.compatibility.entries) {
+      console.warn(entry.sprite + ': ' + entry.message + ' ' + entry.opcode + (entry.count > 1 ? ' (repeated ' + entry.count + ' times)' : ''));
     }
   };
 
-  export function compile(stage) {
-    warnings = Object.create(null);
+  /**
+   * Compiles the scripts of a project.
+   * @param record If true, the compiled scripts are also returned so that they can be restored later.
+   */
+  export function compile(stage: P.core.Stage, record: boolean = false): CompiledProject | null {
+    if (P.config.useInterpreter) {
+      throw new Error('Scratch 2 projects cannot be run by the interpreter');
+    }
 
-    compileScripts(stage);
-    for (var i = 0; i < stage.children.length; i++) {
-      compileScripts(stage.children[i]);
+    const objects: CompiledObject[] = [];
+    for (const object of [stage as P.core.Base].concat(stage.children)) {
+      if (record) {
+        recordedScripts = [];
+      }
+      compileScripts(object);
+      if (recordedScripts) {
+        objects.push({ scripts: recordedScripts, lists: Object.keys(object.lists) });
+        recordedScripts = null;
+      }
+    }
+
+    printCompatibility(stage);
+
+    if (!record) {
+      return null;
+    }
+    return {
+      objects,
+      usesMicrophone: !!stage.microphone,
+      compatibility: stage.compatibility.entries.slice(),
+    };
+  }
+
+  /**
+   * Sets up the scripts of a project from the result of compile(), as if the project had been compiled.
+   * @throws If the compiled project has a different number of objects.
+   */
+  export function restore(stage: P.core.Stage, project: CompiledProject) {
+    const objects = [stage as P.core.Base].concat(stage.children);
+    if (project.objects.length !== objects.length) {
+      throw new Error('Compiled project does not match project: expected ' + project.objects.length + ' objects but found ' + objects.length);
     }
 
-    for (var key in warnings) {
-      console.warn(key + (warnings[key] > 1 ? ' (repeated ' + warnings[key] + ' times)' : ''));
+    for (let i = 0; i < objects.length; i++) {
+      const object = objects[i];
+      const data = project.objects[i];
+      for (const name of data.lists) {
+        if (!object.lists[name]) {
+          object.lists[name] = [];
+        }
+      }
+      for (const script of data.scripts) {
+        const startfn = object.fns.length;
+        for (const source of script.sources) {
+          object.fns.push(P.runtime.evaluateContinuation(source));
+        }
+        installScript(object, script.hat, object.fns[startfn]);
+      }
     }
+
+    if (project.usesMicrophone) {
+      stage.initMicrophone();
+    }
+    // Installing the scripts again may have repeated some warnings.
+    stage.compatibility = new P.compatibility.CompatibilityReport();
+    for (const entry of project.compatibility) {
+      stage.compatibility.addEntry(entry);
+    }
+
+    printCompatibility(stage);
   }
 }
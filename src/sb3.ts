@@ -1,8 +1,11 @@
 /// <reference path="phosphorus.ts" />
 /// <reference path="utils.ts" />
 /// <reference path="core.ts" />
+/// <reference path="compatibility.ts" />
+/// <reference path="cache.ts" />
 /// <reference path="fonts.ts" />
 /// <reference path="config.ts" />
+/// <reference path="io.ts" />
 /// <reference path="runtime.ts" />
 
 // Scratch 3 project loader and runtime objects
@@ -19,6 +22,7 @@ namespace P.sb3 {
   interface SB3Project {
     targets: SB3Target[];
     monitors: SB3Watcher[];
+    extensions?: string[];
     meta: any;
   }
 
@@ -40,6 +44,10 @@ namespace P.sb3 {
     variables: ObjectMap<SB3Variable>;
     blocks: ObjectMap<SB3Block>;
     broadcasts: ObjectMap<string>;
+    /** Only on the stage. */
+    videoState?: string;
+    /** Only on the stage. */
+    videoTransparency?: number;
   }
 
   interface SB3Costume {
@@ -148,7 +156,10 @@ namespace P.sb3 {
     private containerEl: HTMLElement;
     private valueEl: HTMLElement;
 
-    constructor(stage: Scratch3Stage, data: SB3Watcher) {
+    /**
+     * @param extensions The custom extensions that the project uses, which may define more watchers.
+     */
+    constructor(stage: Scratch3Stage, data: SB3Watcher, extensions: P.ext.custom.ExtensionDefinition[] = []) {
       super(stage, data.spriteName || '');
 
       // Unique ID
@@ -158,8 +169,6 @@ namespace P.sb3 {
       this.mode = data.mode;
       // Watcher options, varies by opcode.
       this.params = data.params;
-      // This opcode's watcherLibrary entry.
-      this.libraryEntry = P.sb3.compiler.watcherLibrary[this.opcode];
 
       this.x = data.x;
       this.y = data.y;
@@ -174,8 +183,12 @@ namespace P.sb3 {
         this.sliderStep = 1;
       }
 
-      // Mark ourselves as invalid if the opcode is not recognized.
-      if (!this.libraryEntry) {
+      // This opcode's watcherLibrary entry.
+      const libraryEntry = P.sb3.compiler.watcherLibrary[this.opcode] || P.ext.custom.findWatcher(extensions, this.opcode);
+      if (libraryEntry) {
+        this.libraryEntry = libraryEntry;
+      } else {
+        // Mark ourselves as invalid if the opcode is not recognized.
         console.warn('unknown watcher', this.opcode, this);
         this.valid = false;
       }
@@ -385,6 +398,72 @@ namespace P.sb3 {
   const enum ScrollDirection {
     Up, Down,
   }
+
+  /**
+   * Splits CSV or TSV text into rows of fields. Fields may be quoted with double quotes.
+   */
+  function parseDelimitedText(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            quoted = false;
+          }
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    // The last line may or may not end with a line break.
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Parses a file imported into a list, guessing the delimiter like Scratch does.
+   * Plain text files become a single column with one item per line.
+   */
+  function parseListImport(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    // An empty delimiter never matches, so each line becomes a single item.
+    let bestDelimiter = '';
+    let bestCount = 0;
+    for (const delimiter of [',', '\t', ';', '|']) {
+      const count = firstLine.split(delimiter).length - 1;
+      if (count > bestCount) {
+        bestDelimiter = delimiter;
+        bestCount = count;
+      }
+    }
+    return parseDelimitedText(text, bestDelimiter);
+  }
+
   export class Scratch3ListWatcher extends P.core.Watcher {
     private params: any;
     private id: string;
@@ -406,6 +485,7 @@ namespace P.sb3 {
     private scrollBack: number = 3;
     private scrollDirection: ScrollDirection = ScrollDirection.Down;
     private _contentHeight: number = -1;
+    private contextMenuEl: HTMLElement | null = null;
 
     constructor(stage: Scratch3Stage, data: SB3Watcher) {
       super(stage, data.spriteName || '');
@@ -417,6 +497,7 @@ namespace P.sb3 {
       this.visible = typeof data.visible === 'boolean' ? data.visible : true;
       this.width = data.width || 100;
       this.height = data.height || 200;
+      this.closeContextMenu = this.closeContextMenu.bind(this);
     }
 
     shouldUpdate() {
@@ -546,6 +627,115 @@ namespace P.sb3 {
       return this._rowHeight;
     }
 
+    /**
+     * Replaces the contents of the list with items from a .txt, .csv, or .tsv file chosen by the user.
+     * When the file has multiple columns, the user is asked which one to use.
+     */
+    importList() {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.txt,.csv,.tsv';
+      input.addEventListener('change', () => {
+        const file = input.files && input.files[0];
+        if (!file) {
+          return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => {
+          const rows = parseListImport(reader.result as string);
+          let columns = 0;
+          for (const row of rows) {
+            columns = Math.max(columns, row.length);
+          }
+          let column = 1;
+          if (columns > 1) {
+            const answer = prompt('Which column do you want to use (1 - ' + columns + ')?', '1');
+            if (answer === null) {
+              return;
+            }
+            column = parseInt(answer, 10);
+            if (!(column >= 1 && column <= columns)) {
+              return;
+            }
+          }
+          // Like Scratch, rows without the column are skipped.
+          const items = rows.filter((row) => row.length >= column).map((row) => row[column - 1]);
+          this.setListContents(items);
+        };
+        reader.onerror = () => {
+          console.warn('Could not import list', reader.error);
+        };
+        reader.readAsText(file);
+      });
+      input.click();
+    }
+
+    /**
+     * Downloads the contents of the list as a .txt file with one item per line.
+     */
+    exportList() {
+      const blob = new Blob([this.list.join('\r\n')], { type: 'text/plain;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = this.params.LIST + '.txt';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    setListContents(items: string[]) {
+      // The list is modified in place as scripts may hold references to it.
+      this.list.length = 0;
+      for (const item of items) {
+        this.list.push(item);
+      }
+      this.list.modified = true;
+      this.update();
+    }
+
+    openContextMenu(e: MouseEvent) {
+      e.preventDefault();
+      this.closeContextMenu();
+
+      const menu = document.createElement('div');
+      menu.className = 's3-list-menu';
+      const rect = this.stage.ui.getBoundingClientRect();
+      menu.style.left = ((e.clientX - rect.left) / this.stage.zoom / 10) + 'em';
+      menu.style.top = ((e.clientY - rect.top) / this.stage.zoom / 10) + 'em';
+      // Clicks on the menu must not be seen by the stage or close the menu before the item is chosen.
+      menu.onmousedown = (e) => e.stopPropagation();
+      menu.ontouchstart = (e) => e.stopPropagation();
+
+      const addItem = (label: string, action: () => void) => {
+        const item = document.createElement('div');
+        item.className = 's3-list-menu-item';
+        item.textContent = label;
+        item.addEventListener('click', () => {
+          this.closeContextMenu();
+          action();
+        });
+        menu.appendChild(item);
+      };
+      addItem('import', () => this.importList());
+      addItem('export', () => this.exportList());
+
+      this.contextMenuEl = menu;
+      this.stage.ui.appendChild(menu);
+      document.addEventListener('mousedown', this.closeContextMenu);
+      document.addEventListener('touchstart', this.closeContextMenu);
+    }
+
+    closeContextMenu() {
+      if (this.contextMenuEl) {
+        this.stage.ui.removeChild(this.contextMenuEl);
+        this.contextMenuEl = null;
+        document.removeEventListener('mousedown', this.closeContextMenu);
+        document.removeEventListener('touchstart', this.closeContextMenu);
+      }
+    }
+
     addRow(): ListWatcherRow {
       const row = new ListWatcherRow();
       this.rows.push(row);
@@ -585,6 +775,7 @@ namespace P.sb3 {
       // fix https://github.com/forkphorus/forkphorus/issues/195
       this.containerEl.onmousedown = (e) => e.stopPropagation();
       this.containerEl.ontouchstart = (e) => e.stopPropagation();
+      this.containerEl.addEventListener('contextmenu', (e) => this.openContextMenu(e));
 
       this.topLabelEl.textContent = this.getTopLabel();
       this.topLabelEl.classList.add('s3-list-top-label');
@@ -757,12 +948,26 @@ namespace P.sb3 {
     return svg;
   }
 
+  /**
+   * The data of an asset does not match its MD5 hash, and a placeholder should be used instead.
+   */
+  class AssetIntegrityError extends Error {}
+
   // Implements base SB3 loading logic.
   // Needs to be extended to add file loading methods.
   // Implementations are expected to set `this.projectData` to something before calling super.load()
   export abstract class BaseSB3Loader extends P.io.Loader<P.core.Stage> {
     protected projectData: SB3Project;
-    private needsMusic: boolean = false;
+    protected needsMusic: boolean = false;
+    private customExtensions: P.ext.custom.ExtensionDefinition[] = [];
+    private cache: P.cache.ProjectCache | null = null;
+    /**
+     * If true, the compiled scripts are saved to `bundle` while loading, so that later loads can skip compiling.
+     * @see P.sb3.bundle
+     */
+    public createBundle: boolean = false;
+    public bundle: P.sb3.bundle.CompiledProject | null = null;
+    private backgroundLoads: Promise<void>[] = [];
 
     protected abstract getAsText(path: string): Promise<string>;
     protected abstract getAsArrayBuffer(path: string): Promise<ArrayBuffer>;
@@ -770,36 +975,96 @@ namespace P.sb3 {
 
     getSVG(path: string, costumeOptions: P.core.CostumeOptions): Promise<HTMLImageElement> {
       return this.getAsText(path)
-        .then((source) => {
-          const parser = new DOMParser();
-          const doc = parser.parseFromString(source, 'image/svg+xml');
-          const svg = patchSVG(doc.documentElement as any, costumeOptions);
+        .then((source) => this.loadSVG(source, path, costumeOptions));
+    }
 
-          return new Promise((resolve, reject) => {
-            const image = new Image();
-            image.onload = (e) => {
-              resolve(image);
-            };
-            image.onerror = (e) => {
-              reject(new Error('Failed to load SVG: ' + path));
-            };
-            image.src = 'data:image/svg+xml,' + encodeURIComponent(new XMLSerializer().serializeToString(svg));
-          });
-        });
+    loadSVG(source: string, path: string, costumeOptions: P.core.CostumeOptions): Promise<HTMLImageElement> {
+      // There is no SVG parser in a headless environment, so the source is used unmodified.
+      if (!P.config.headless) {
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(source, 'image/svg+xml');
+        const svg = patchSVG(doc.documentElement as any, costumeOptions);
+        source = new XMLSerializer().serializeToString(svg);
+      }
+
+      return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = (e) => {
+          resolve(image);
+        };
+        image.onerror = (e) => {
+          reject(new Error('Failed to load SVG: ' + path));
+        };
+        image.src = 'data:image/svg+xml,' + encodeURIComponent(source);
+      });
     }
 
     getBitmapImage(path: string, format: string): Promise<HTMLImageElement> {
       return this.getAsImage(path, format);
     }
 
-    loadCostume(data: SB3Costume, index: number): Promise<P.core.Costume> {
-      const path = data.assetId + '.' + data.dataFormat;
-      const costumeOptions = {
+    loadBitmapImage(buffer: ArrayBuffer, path: string, format: string): Promise<HTMLImageElement> {
+      const blob = new Blob([buffer], { type: 'image/' + (format === 'jpg' ? 'jpeg' : format) });
+      return P.io.readers.toImage(blob)
+        .catch(() => {
+          throw new Error('Failed to load image: ' + path);
+        });
+    }
+
+    /**
+     * Checks the data of an asset against the MD5 hash in its ID, when P.config.assetIntegrity is enabled.
+     * Throws an AssetIntegrityError if a placeholder should be used instead of the data.
+     */
+    checkIntegrity(assetId: string, path: string, buffer: ArrayBuffer): void {
+      // Projects made by other editors may not use hashes as IDs.
+      if (P.config.assetIntegrity === 'off' || !/^[0-9a-f]{32}$/i.test(assetId)) {
+        return;
+      }
+      const hash = P.utils.md5(buffer);
+      if (hash === assetId.toLowerCase()) {
+        return;
+      }
+      if (P.config.assetIntegrity === 'placeholder') {
+        throw new AssetIntegrityError(`Data does not match its MD5 hash (${hash})`);
+      }
+      this.warn(`Asset ${path} does not match its MD5 hash (${hash})`);
+    }
+
+    shouldSubstitute(err: unknown, type: P.io.Substitution['type']): boolean {
+      return err instanceof AssetIntegrityError || super.shouldSubstitute(err, type);
+    }
+
+    getCostumeOptions(data: SB3Costume): P.core.CostumeOptions {
+      return {
         name: data.name,
         bitmapResolution: data.bitmapResolution || 1,
         rotationCenterX: data.rotationCenterX,
         rotationCenterY: data.rotationCenterY,
       };
+    }
+
+    loadCostume(data: SB3Costume, index: number, targetName: string): Promise<P.core.Costume> {
+      const path = data.assetId + '.' + data.dataFormat;
+      const costumeOptions = this.getCostumeOptions(data);
+      // Files that are missing from an sb3 are errors before a promise is returned.
+      return new Promise<P.core.Costume>((resolve) => resolve(this.loadCostumeData(data, path, costumeOptions)))
+        .catch((err) => this.substituteCostume(err, { target: targetName, name: data.name, asset: path }, costumeOptions));
+    }
+
+    private loadCostumeData(data: SB3Costume, path: string, costumeOptions: P.core.CostumeOptions): Promise<P.core.Costume> {
+      if (P.config.assetIntegrity !== 'off') {
+        // Checking the data needs its bytes, so the image is made from them instead of being loaded directly.
+        return this.getAsArrayBuffer(path)
+          .then((buffer) => {
+            this.checkIntegrity(data.assetId, path, buffer);
+            if (data.dataFormat === 'svg') {
+              return this.loadSVG(new TextDecoder().decode(buffer), path, costumeOptions)
+                .then((svg) => new P.core.VectorCostume(svg, costumeOptions));
+            }
+            return this.loadBitmapImage(buffer, path, data.dataFormat)
+              .then((image) => new P.core.BitmapCostume(image, costumeOptions));
+          });
+      }
       if (data.dataFormat === 'svg') {
         return this.getSVG(path, costumeOptions)
           .then((svg) => new P.core.VectorCostume(svg, costumeOptions));
@@ -809,17 +1074,36 @@ namespace P.sb3 {
       }
     }
 
-    getAudioBuffer(path: string) {
-      return this.getAsArrayBuffer(path)
-        .then((buffer) => P.audio.decodeAudio(buffer))
+    getAudioBuffer(path: string, data?: SB3Sound) {
+      // The data of cached sounds is not available to be checked, so the cache is skipped when it has to be.
+      const cachedBuffer = P.config.assetIntegrity === 'off' && this.cache && this.cache.getSound(path);
+      if (cachedBuffer) {
+        return Promise.resolve(cachedBuffer);
+      }
+      return new Promise<ArrayBuffer>((resolve) => resolve(this.getAsArrayBuffer(path)))
+        .then((buffer) => {
+          if (data) {
+            this.checkIntegrity(data.assetId, path, buffer);
+          }
+          return P.audio.decodeAudio(buffer);
+        })
+        .then((buffer) => {
+          if (this.cache) {
+            this.cache.addSound(path, buffer);
+          }
+          return buffer;
+        })
         .catch((err) => {
+          if (err instanceof AssetIntegrityError) {
+            throw err;
+          }
           throw new Error(`Could not load audio: ${path} (${err})`);
         });
     }
 
-    loadSound(data: SB3Sound): Promise<P.core.Sound | null> {
+    loadSound(data: SB3Sound, targetName: string): Promise<P.core.Sound | null> {
       return new Promise((resolve, reject) => {
-        this.getAudioBuffer(data.md5ext)
+        this.getAudioBuffer(data.md5ext, data)
           .then((buffer) => {
             resolve(new P.core.Sound({
               name: data.name,
@@ -827,8 +1111,7 @@ namespace P.sb3 {
             }))
           })
           .catch((err) => {
-            console.warn('Could not load sound: ' + err);
-            resolve(null);
+            resolve(this.substituteSound(err, { target: targetName, name: data.name, asset: data.md5ext }, data.sampleCount, data.rate));
           });
       });
     }
@@ -838,7 +1121,7 @@ namespace P.sb3 {
         return new Scratch3ListWatcher(stage, data);
       }
 
-      return new Scratch3VariableWatcher(stage, data);
+      return new Scratch3VariableWatcher(stage, data, this.customExtensions);
     }
 
     loadTarget(data: SB3Target): Promise<Target> {
@@ -897,21 +1180,75 @@ namespace P.sb3 {
         sprite.rotationStyle = P.utils.parseRotationStyle(data.rotationStyle);
       }
 
-      const costumesPromise = Promise.all<P.core.Costume>(data.costumes.map((c: any, i: any) => this.loadCostume(c, i)));
-      const soundsPromise = Promise.all<P.core.Sound | null>(data.sounds.map((c) => this.loadSound(c)));
-
-      return Promise.all<P.core.Costume[], Array<P.core.Sound | null>>([costumesPromise, soundsPromise])
-        .then((result) => {
-          const costumes = result[0];
-          const sounds = result[1];
+      // When loading progressively, only the costumes that are shown when the project starts are waited for.
+      // The other costumes are empty until they load, and sounds are decoded in the background.
+      const progressive = P.config.progressiveLoading;
+      const isShownFirst = (index: number) => index === data.currentCostume && (data.isStage || data.visible);
 
+      const costumePromises = data.costumes.map((c: any, i: any) => this.loadCostume(c, i, data.name));
+      const costumesPromise = Promise.all<P.core.Costume>(costumePromises.map((promise, i) => {
+        if (!progressive || isShownFirst(i)) {
+          return promise;
+        }
+        return P.core.createEmptyCostume(this.getCostumeOptions(data.costumes[i]));
+      }))
+        .then((costumes) => {
           target.costumes = costumes;
-          sounds.forEach((sound) => sound && target.addSound(sound));
+        });
+      if (progressive) {
+        costumePromises.forEach((promise, i) => {
+          if (!isShownFirst(i)) {
+            this.loadInBackground(Promise.all([promise, costumesPromise])
+              .then((result) => {
+                target.costumes[i] = result[0];
+              }));
+          }
+        });
+      }
 
+      const soundsPromise = Promise.all<P.core.Sound | null>(data.sounds.map((c) => {
+        const promise = this.loadSound(c, data.name);
+        if (!progressive) {
+          return promise;
+        }
+        this.loadInBackground(promise);
+        return new P.core.Sound({
+          name: c.name,
+          buffer: promise.then((sound) => sound && sound.buffer),
+        });
+      }));
+
+      return Promise.all<void, Array<P.core.Sound | null>>([costumesPromise, soundsPromise])
+        .then((result) => {
+          const sounds = result[1];
+          // Sounds that could not be loaded are kept without a buffer, as they are when loading progressively.
+          sounds.forEach((sound, i) => target.addSound(sound || new P.core.Sound({
+            name: data.sounds[i].name,
+            buffer: null,
+          })));
           return target;
         });
     }
 
+    /**
+     * Continues loading something after the project has started.
+     */
+    private loadInBackground(promise: Promise<unknown>) {
+      this.backgroundLoads.push(promise
+        .then(() => undefined)
+        .catch((err) => {
+          this.warn('Could not load in the background: ' + err);
+        }));
+    }
+
+    /**
+     * Resolves once the costumes and sounds that load in the background have loaded or failed to load.
+     * Resolves immediately unless P.config.progressiveLoading was set while loading.
+     */
+    finishedLoadingInBackground(): Promise<void> {
+      return Promise.all(this.backgroundLoads).then(() => undefined);
+    }
+
     loadRequiredAssets() {
       return Promise.all([
         this.loadFonts(),
@@ -924,6 +1261,10 @@ namespace P.sb3 {
 
     loadFonts() {
       const promises: Promise<unknown>[] = [];
+      // Fonts are only used to draw text, which never happens in a headless environment.
+      if (P.config.headless) {
+        return Promise.all(promises);
+      }
       for (const family in P.fonts.scratch3) {
         const promise = P.utils.settled(P.fonts.loadLocalFont(family, P.fonts.scratch3[family]));
         promises.push(promise);
@@ -933,16 +1274,62 @@ namespace P.sb3 {
     }
 
     compileTargets(targets: Target[], stage: P.core.Stage): void {
+      if (this.cache && this.cache.entry) {
+        try {
+          P.sb3.bundle.restore(this.cache.entry.scripts as P.sb3.bundle.CompiledProject, targets, stage);
+          this.needsMusic = (this.cache.entry.scripts as P.sb3.bundle.CompiledProject).needsMusic;
+          return;
+        } catch (e) {
+          console.warn('Could not use cached scripts', e);
+        }
+      }
       if (P.config.debug) {
         console.time('Scratch 3 compile');
       }
-      for (const target of targets) {
-        const compiler = new P.sb3.compiler.Compiler(target);
+      // Bundles need the source of every script, so scripts are not compiled lazily when one is created.
+      const createBundle = this.createBundle || (!!this.cache && !P.config.lazyCompilation);
+      // The interpreter does not need eval(), so it can be used where a Content Security Policy forbids it.
+      const compilers = targets.map((target) => P.config.useInterpreter ?
+        new P.sb3.interpreter.Interpreter(target, this.customExtensions) :
+        new P.sb3.compiler.Compiler(target, this.customExtensions));
+      if (P.config.optimizeScripts && !P.config.useInterpreter) {
+        const numberVariables = P.sb3.compiler.findNumberVariables(compilers);
+        for (const compiler of compilers) {
+          compiler.numberVariables = numberVariables;
+        }
+      }
+      if (P.config.lazyCompilation && !createBundle) {
+        for (const compiler of compilers) {
+          if (compiler instanceof P.sb3.compiler.Compiler) {
+            compiler.lazy = true;
+          }
+        }
+      }
+      if (createBundle) {
+        for (const compiler of compilers) {
+          if (!(compiler instanceof P.sb3.compiler.Compiler)) {
+            throw new Error('Bundles cannot be created with the interpreter');
+          }
+          compiler.functionSources = [];
+        }
+      }
+      for (const compiler of compilers) {
         compiler.compile();
         if (compiler.needsMusic) {
           this.needsMusic = true;
         }
       }
+      if (createBundle) {
+        const bundle = P.sb3.bundle.create(compilers as P.sb3.compiler.Compiler[], stage, this.needsMusic);
+        if (this.createBundle) {
+          this.bundle = bundle;
+        }
+        if (this.cache) {
+          // Sounds are saved too, so the cache must wait for those that are decoded in the background.
+          const cache = this.cache;
+          this.finishedLoadingInBackground().then(() => cache.save(bundle));
+        }
+      }
       if (P.config.debug) {
         console.timeEnd('Scratch 3 compile');
       }
@@ -956,6 +1343,10 @@ namespace P.sb3 {
         throw new Error('Invalid project data: missing targets');
       }
 
+      this.customExtensions = P.ext.custom.findExtensions(this.projectData.extensions || []);
+      // The key of the cache must be determined before anything changes the project data.
+      this.cache = await P.cache.ProjectCache.open('sb3', this.projectData, this.customExtensions);
+
       await this.loadRequiredAssets();
 
       this.resetTasks();
@@ -984,9 +1375,22 @@ namespace P.sb3 {
       }
 
       this.compileTargets(targets, stage);
+      P.ext.custom.activate(stage, this.customExtensions);
+
+      if (stage.videoSensing) {
+        // Like in Scratch, the video starts the way it was when the project was saved.
+        const stageData = this.projectData.targets.filter((i) => i.isStage)[0];
+        stage.videoSensing.setTransparency(typeof stageData.videoTransparency === 'number' ? stageData.videoTransparency : 50);
+        stage.videoSensing.setVideoState(stageData.videoState || 'on');
+      }
 
       if (this.needsMusic) {
-        await this.loadSoundbank();
+        // Notes are silent until the soundbank has loaded in the background.
+        if (P.config.progressiveLoading) {
+          this.loadInBackground(this.loadSoundbank());
+        } else {
+          await this.loadSoundbank();
+        }
       }
 
       // projectData is now unused and can be removed. This reduces memory usage
@@ -1091,23 +1495,28 @@ namespace P.sb3 {
       }
     }
 
+    private getAsBlob(path: string): Promise<Blob> {
+      return P.io.getAssetManager().loadProjectAsset(path, ASSETS_API.replace('$md5ext', path), this);
+    }
+
     getAsText(path: string) {
-      return this.addTask(new P.io.Request(ASSETS_API.replace('$md5ext', path))).load('text');
+      return this.getAsBlob(path).then((blob) => P.io.readers.toText(blob));
     }
 
     getAsArrayBuffer(path: string) {
-      return this.addTask(new P.io.Request(ASSETS_API.replace('$md5ext', path))).load('arraybuffer');
+      return this.getAsBlob(path).then((blob) => P.io.readers.toArrayBuffer(blob));
     }
 
     getAsImage(path: string) {
-      return this.addTask(new P.io.Img(ASSETS_API.replace('$md5ext', path))).load();
+      return this.getAsBlob(path).then((blob) => P.io.readers.toImage(blob));
     }
 
     load() {
       if (this.projectId) {
-        return this.addTask(new P.io.Request(P.config.PROJECT_API.replace('$id', '' + this.projectId))).load('json')
-          .then((data) => {
-            this.projectData = data;
+        return P.io.getAssetManager().loadProject(P.config.PROJECT_API.replace('$id', '' + this.projectId), this)
+          .then((blob) => P.io.readers.toText(blob))
+          .then((text) => {
+            this.projectData = JSON.parse(text);
             return super.load();
           });
       } else {
@@ -1162,6 +1571,10 @@ namespace P.sb3.compiler {
      *  - it is a string that represents a number or a boolean
      */
     public potentialNumber: boolean = true;
+    /**
+     * Whether this input always has the same value, which makes it possible to evaluate it at compile-time.
+     */
+    public constant: boolean = false;
     private flags: number = 0;
 
     constructor(public source: string, public type: InputType) {
@@ -1221,6 +1634,24 @@ namespace P.sb3.compiler {
 
   export type InputType = 'string' | 'boolean' | 'number' | 'any' | 'list' | 'color';
 
+  /**
+   * A translate block in the inputs of a statement, which the statement waits for.
+   * @see Compiler#findTranslations
+   */
+  export interface TranslationRequest {
+    block: SB3Block;
+    /**
+     * The name under which the statement passes the text and language that it evaluated on to the block, or null if the
+     * block is in the inputs of another translate block and is not evaluated by the statement itself.
+     */
+    key: string | null;
+    /**
+     * Whether other translate blocks are in the inputs of the block, so its text and language must be evaluated again
+     * once they are translated.
+     */
+    dependent: boolean;
+  }
+
   /**
    * General block generation utilities.
    */
@@ -1237,11 +1668,20 @@ namespace P.sb3.compiler {
       return this.compiler.target.stage;
     }
 
+    /**
+     * Whether any input that this block used is not a constant.
+     */
+    public usesDynamicInputs: boolean = false;
+
     /**
      * Compile an input, and give it a type.
      */
     getInput(name: string, type: InputType): CompiledInput {
-      return this.compiler.compileInput(this.block, name, type);
+      const input = this.compiler.compileInput(this.block, name, type);
+      if (!input.constant) {
+        this.usesDynamicInputs = true;
+      }
+      return input;
     }
 
     /**
@@ -1272,6 +1712,14 @@ namespace P.sb3.compiler {
       return this.compiler.sanitizedString(string);
     }
 
+    /**
+     * Gets a reference to the runtime object of the custom extension that this block belongs to.
+     */
+    getExtensionRuntime(): string {
+      const id = P.ext.custom.getExtensionId(this.block.opcode);
+      return `P.ext.custom.registeredExtensions[${this.sanitizedString(id)}].runtime`;
+    }
+
     /**
      * Gets a field's reference to a variable.
      */
@@ -1381,6 +1829,16 @@ namespace P.sb3.compiler {
       this.writeLn(`forceQueue(${label}); return;`);
     }
 
+    /**
+     * Writes a check that yields to a label when a thread in warp mode has run for too long.
+     * Loops that run without queueing must do this each iteration so they cannot freeze the page.
+     */
+    warpTimerCheck(label: number): void {
+      this.writeLn('if (warpTimerExpired()) {');
+      this.forceQueue(label);
+      this.writeLn('}');
+    }
+
     /**
      * Writes an appropriate VISUAL check
      */
@@ -1417,6 +1875,50 @@ namespace P.sb3.compiler {
       this.writeLn('restore();');
     }
 
+    /**
+     * Write JS to pause script execution until the translate blocks in the inputs of this block know their translation,
+     * as reporters cannot wait. A translate block can translate the result of another, so this repeats until all
+     * translations are known. The text and language that were translated are passed on to the translate blocks, so they
+     * do not evaluate their inputs again.
+     */
+    waitForTranslations(): void {
+      const translations = this.compiler.findTranslations(this.block);
+      if (translations.length === 0) {
+        return;
+      }
+      this.writeLn('save();');
+      this.writeLn('R.resume = true;');
+      this.writeLn('R.translations = [];');
+      const label = this.addLabel();
+      this.writeLn('if (!R.resume) {');
+      this.forceQueue(label);
+      this.writeLn('}');
+      // The text and language of each block are evaluated once, unless they depend on other translate blocks.
+      translations.forEach((translation, i) => {
+        const util = new InputUtil(this.compiler, translation.block);
+        const request = `[${util.getInput('WORDS', 'string')}, ${util.getInput('LANGUAGE', 'string')}]`;
+        if (translation.dependent) {
+          this.writeLn(`R.translations[${i}] = ${request};`);
+        } else {
+          this.writeLn(`if (!R.translations[${i}]) R.translations[${i}] = ${request};`);
+        }
+      });
+      this.writeLn('var translating = self.translate.prepare(R.translations);');
+      this.writeLn('if (translating) {');
+      this.writeLn('  R.resume = false;');
+      this.writeLn('  var localR = R;');
+      this.writeLn('  translating.then(function() { localR.resume = true; });');
+      this.forceQueue(label);
+      this.writeLn('}');
+      this.writeLn('var translations = R.translations;');
+      this.writeLn('restore();');
+      translations.forEach((translation, i) => {
+        if (translation.key) {
+          this.writeLn(`R.${translation.key} = translations[${i}];`);
+        }
+      });
+    }
+
     /**
      * Write JS to pause script execution for one tick.
      */
@@ -1490,6 +1992,119 @@ namespace P.sb3.compiler {
     isWarp: boolean;
     isProcedure: boolean;
     argumentNames: string[];
+    /**
+     * When a procedure is being inlined, maps its argument names to the JS variables that hold their values.
+     */
+    inlinedArguments: ObjectMap<string> | null;
+  }
+
+  /**
+   * Opcodes of inputs without side effects, whose result only depends on their inputs and fields.
+   * When all of their inputs are constants, optimizeScripts replaces them with their result.
+   */
+  const PURE_INPUTS = [
+    'operator_add',
+    'operator_and',
+    'operator_contains',
+    'operator_divide',
+    'operator_equals',
+    'operator_gt',
+    'operator_join',
+    'operator_length',
+    'operator_letter_of',
+    'operator_lt',
+    'operator_mathop',
+    'operator_mod',
+    'operator_multiply',
+    'operator_not',
+    'operator_or',
+    'operator_round',
+    'operator_subtract',
+  ];
+
+  /**
+   * The largest procedure, in blocks, that optimizeScripts will inline into the scripts that call it.
+   */
+  const MAX_INLINED_BLOCKS = 20;
+
+  /**
+   * Finds the variables that always contain numbers, so that reading them does not need type conversions.
+   * A variable qualifies if it starts as a number, is not a cloud variable, and every block that changes it stores a number.
+   * Watchers are not checked as sliders only set numbers.
+   * @param compilers The compilers of all targets in the project.
+   * @returns The keys of the variables, from Compiler.getVariableKey()
+   */
+  export function findNumberVariables(compilers: Compiler[]): Set<string> {
+    const candidates = new Set<string>();
+    const rejected = new Set<string>();
+    // Variables are compared by where they are stored, as IDs can refer to the same variable as another ID with the same name.
+    for (const compiler of compilers) {
+      const variables = compiler.data.variables;
+      for (const id of Object.keys(variables)) {
+        const variable = variables[id];
+        const isCloud = variable.length > 2 && variable[2];
+        const key = compiler.getVariableKey(id);
+        if (typeof variable[1] === 'number' && !isCloud) {
+          candidates.add(key);
+        } else {
+          rejected.add(key);
+        }
+      }
+    }
+    rejected.forEach((id) => candidates.delete(id));
+
+    const assignments: { compiler: Compiler; block: SB3Block; key: string; }[] = [];
+    for (const compiler of compilers) {
+      // Inputs are compiled as if they were in a procedure that has every argument, as arguments can have any value.
+      compiler.state = compiler.getNewState();
+      compiler.state.isProcedure = true;
+      for (const blockId of Object.keys(compiler.blocks)) {
+        const block = compiler.blocks[blockId];
+        if (block.opcode === 'argument_reporter_string_number' || block.opcode === 'argument_reporter_boolean') {
+          compiler.state.argumentNames.push(compiler.getField(block, 'VALUE'));
+        }
+        if (!block.fields || !block.fields.VARIABLE) {
+          continue;
+        }
+        const key = compiler.getVariableKey(block.fields.VARIABLE[1]);
+        switch (block.opcode) {
+          // These blocks only read variables.
+          case 'data_variable':
+          case 'data_showvariable':
+          case 'data_hidevariable':
+          // This block always stores a number.
+          case 'data_changevariableby':
+            break;
+          case 'data_setvariableto':
+            assignments.push({ compiler, block, key });
+            break;
+          // Anything else, like blocks of custom extensions, could store any value.
+          default:
+            candidates.delete(key);
+        }
+      }
+    }
+
+    // Assignments can copy other variables, so removing one variable can affect others.
+    // This is repeated until nothing changes. Inputs are compiled without reporting problems as they will be compiled again later.
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const { compiler, block, key } of assignments) {
+        if (!candidates.has(key)) {
+          continue;
+        }
+        compiler.numberVariables = candidates;
+        compiler.reportProblems = false;
+        const type = compiler.compileInput(block, 'VALUE', 'any').type;
+        compiler.reportProblems = true;
+        if (type !== 'number') {
+          candidates.delete(key);
+          changed = true;
+        }
+      }
+    }
+    return candidates;
   }
 
   // Block definitions
@@ -1518,6 +2133,10 @@ namespace P.sb3.compiler {
      * Total number of labels created by this compiler.
      */
     public labelCount: number = 0;
+    /**
+     * The IDs of the blocks in the script being compiled. Source map markers refer to blocks by their index in this list.
+     */
+    public blockIds: string[] = [];
     /**
      * Compilation state metadata.
      */
@@ -1530,9 +2149,58 @@ namespace P.sb3.compiler {
      * Set of the names of all costumes and sounds in the sprite.
      */
     public costumeAndSoundNames: Set<string> = new Set();
+    /**
+     * The custom extensions that the project uses.
+     */
+    public extensions: P.ext.custom.ExtensionDefinition[];
+    /**
+     * The keys of the variables that always contain numbers.
+     * @see findNumberVariables
+     */
+    public numberVariables: Set<string> = new Set();
+    /**
+     * Whether problems are added to the compatibility report.
+     */
+    public reportProblems: boolean = true;
+    /**
+     * The blocks and messages of problems that have been reported.
+     */
+    private reportedProblems: Set<string> = new Set();
+    /**
+     * Whether scripts are compiled the first time they run instead of in compile().
+     * Listeners and procedures are still set up in compile(), with functions that compile the script when called.
+     */
+    public lazy: boolean = false;
+    /**
+     * The number of scripts that will be compiled when they first run.
+     */
+    private pendingScripts: number = 0;
+    /**
+     * If not null, the source of every function that is created is kept here, indexed like target.fns.
+     * @see P.sb3.bundle
+     */
+    public functionSources: P.sb3.bundle.CompiledFunction[] | null = null;
+    /**
+     * Caches whether procedures can be inlined, by procedure code.
+     */
+    private inlinableProcedures: ObjectMap<boolean> = Object.create(null);
+    /**
+     * The procedure codes of procedures that were found to yield, in normal and warp mode.
+     */
+    private yieldingProcedures = { normal: new Set<string>(), warp: new Set<string>() };
+    /**
+     * The number of procedure calls that have been inlined, used to give their arguments unique names.
+     */
+    private inlinedCallCount: number = 0;
+    /**
+     * The keys of translate blocks whose text and language are evaluated by the statement that contains them.
+     * @see findTranslations
+     */
+    private translationKeys: Map<SB3Block, string> = new Map();
 
-    constructor(target: Target) {
+    constructor(target: Target, extensions: P.ext.custom.ExtensionDefinition[] = []) {
       this.target = target;
+      this.extensions = extensions;
       this.data = target.sb3data;
       this.blocks = this.data.blocks;
       for (const costume of target.costumes) {
@@ -1558,6 +2226,10 @@ namespace P.sb3.compiler {
       if (statementLibrary[opcode]) {
         return statementLibrary[opcode];
       }
+      const extension = this.getExtension(opcode);
+      if (extension && extension.statements && extension.statements[opcode]) {
+        return extension.statements[opcode];
+      }
       return null;
     }
 
@@ -1568,6 +2240,10 @@ namespace P.sb3.compiler {
       if (inputLibrary[opcode]) {
         return inputLibrary[opcode];
       }
+      const extension = this.getExtension(opcode);
+      if (extension && extension.inputs && extension.inputs[opcode]) {
+        return extension.inputs[opcode];
+      }
       return null;
     }
 
@@ -1578,6 +2254,23 @@ namespace P.sb3.compiler {
       if (hatLibrary[opcode]) {
         return hatLibrary[opcode];
       }
+      const extension = this.getExtension(opcode);
+      if (extension && extension.hats && extension.hats[opcode]) {
+        return extension.hats[opcode];
+      }
+      return null;
+    }
+
+    /**
+     * Get the custom extension that an opcode belongs to, if the project uses it.
+     */
+    getExtension(opcode: string): P.ext.custom.ExtensionDefinition | null {
+      const id = P.ext.custom.getExtensionId(opcode);
+      for (const extension of this.extensions) {
+        if (extension.id === id) {
+          return extension;
+        }
+      }
       return null;
     }
 
@@ -1619,7 +2312,7 @@ namespace P.sb3.compiler {
       if (input.type === type) {
         // if the input could be NaN, number conversion is always required (NaN will be converted to 0)
         if (type === 'number' && input.hasFlag(InputFlags.NaN)) {
-          return new CompiledInput('(' + input.source + ' || 0)', type);
+          return this.constantIfConstant(new CompiledInput('(' + input.source + ' || 0)', type), input);
         }
         return input;
       }
@@ -1633,7 +2326,74 @@ namespace P.sb3.compiler {
           return input;
         }
       }
-      return new CompiledInput(this.asType(input.source, type), type);
+      return this.constantIfConstant(new CompiledInput(this.asType(input.source, type), type), input);
+    }
+
+    /**
+     * Marks a converted input as constant if the original input was constant.
+     */
+    private constantIfConstant(converted: CompiledInput, original: CompiledInput): CompiledInput {
+      converted.constant = original.constant;
+      return converted;
+    }
+
+    /**
+     * Gets an input for the value that a missing or empty input of some type has.
+     */
+    fallbackInput(type: InputType): CompiledInput {
+      const input = new CompiledInput(this.getInputFallback(type), type);
+      input.constant = true;
+      return input;
+    }
+
+    /**
+     * Converts a JavaScript value to source code, or null if it can't be.
+     */
+    valueToSource(value: any): string | null {
+      switch (typeof value) {
+        case 'number':
+          if (Object.is(value, -0)) {
+            return '-0';
+          }
+          // NaN and Infinity are converted to the names of the global variables, which is fine.
+          return value < 0 ? `(${value})` : '' + value;
+        case 'string':
+          return this.sanitizedString(value);
+        case 'boolean':
+          return '' + value;
+      }
+      return null;
+    }
+
+    /**
+     * Replaces an input with its result, if it only depends on constants.
+     * The input is evaluated in the same way as at runtime, so the result is always the same.
+     * @param util The util that compiled the input
+     */
+    foldConstantInput(input: CompiledInput, util: InputUtil): CompiledInput {
+      if (util.usesDynamicInputs || PURE_INPUTS.indexOf(util.block.opcode) === -1) {
+        return input;
+      }
+      let value: any;
+      try {
+        value = P.runtime.scopedEval(`(${input.source})`);
+      } catch (e) {
+        // Leave the error for runtime.
+        return input;
+      }
+      const source = this.valueToSource(value);
+      if (source === null) {
+        return input;
+      }
+      const result = new CompiledInput(source, input.type);
+      result.constant = true;
+      if (typeof value === 'number' && isNaN(value)) {
+        result.enableFlag(InputFlags.NaN);
+      }
+      if (typeof value === 'string') {
+        result.potentialNumber = this.isStringLiteralPotentialNumber(value);
+      }
+      return result;
     }
 
     /**
@@ -1647,6 +2407,7 @@ namespace P.sb3.compiler {
      * Sanitize a string for use in the runtime.
      */
     sanitizedString(string: string): string {
+      // Braces and asterisks are escaped so that strings can't be confused with the structure of the script or source map markers.
       string = string
         .replace(/\\/g, '\\\\')
         .replace(/'/g, '\\\'')
@@ -1654,7 +2415,8 @@ namespace P.sb3.compiler {
         .replace(/\n/g, '\\n')
         .replace(/\r/g, '\\r')
         .replace(/\{/g, '\\x7b')
-        .replace(/\}/g, '\\x7d');
+        .replace(/\}/g, '\\x7d')
+        .replace(/\*/g, '\\x2a');
       return `"${string}"`;
     }
 
@@ -1706,6 +2468,16 @@ namespace P.sb3.compiler {
       }
     }
 
+    /**
+     * Gets a key that identifies where a variable is stored.
+     * Variables are stored by name, so IDs that refer to variables with the same name in the same target have the same key.
+     */
+    getVariableKey(id: string): string {
+      const { scope, name } = this.findVariable(id);
+      const owner = scope === 'self' ? this.target.stage : this.target;
+      return JSON.stringify([owner.isStage, owner.name, name]);
+    }
+
     /**
      * Gets the runtime reference to a variable.
      */
@@ -1714,6 +2486,30 @@ namespace P.sb3.compiler {
       return `${scope}.vars[${this.sanitizedString(name)}]`;
     }
 
+    /**
+     * Gets an input that reads the value of a variable.
+     */
+    getVariableInput(id: string): CompiledInput {
+      const reference = this.getVariableReference(id);
+      if (this.numberVariables.has(this.getVariableKey(id))) {
+        // The variable is always a number, but it could be NaN.
+        const input = numberInput(reference);
+        input.enableFlag(InputFlags.NaN);
+        return input;
+      }
+      return anyInput(reference);
+    }
+
+    /**
+     * Gets the runtime reference to a procedure argument.
+     */
+    getArgumentReference(name: string): string {
+      if (this.state.inlinedArguments) {
+        return this.state.inlinedArguments[name];
+      }
+      return `C.args[${this.sanitizedString(name)}]`;
+    }
+
     /**
      * Gets the runtime reference to a list.
      */
@@ -1786,7 +2582,7 @@ namespace P.sb3.compiler {
 
         case NativeTypes.VAR:
           // [type, name, id]
-          return anyInput(this.getVariableReference(native[2]));
+          return this.getVariableInput(native[2]);
 
         case NativeTypes.LIST:
           // [type, name, id]
@@ -1805,7 +2601,7 @@ namespace P.sb3.compiler {
         }
 
         default:
-          this.warn('unknown native', type, native);
+          this.reportProblem('warning', 'unknown native: ' + type, '', null, native);
           return stringInput('""');
       }
     }
@@ -1817,15 +2613,19 @@ namespace P.sb3.compiler {
       // Handling when the block does not contain an input entry.
       if (!parentBlock.inputs[inputName]) {
         // This could be a sign of another issue, so log a warning.
-        this.warn('missing input', inputName);
-        return new CompiledInput(this.getInputFallback(type), type);
+        this.reportProblem('warning', 'missing input: ' + inputName, parentBlock.opcode, this.getBlockId(parentBlock));
+        return this.fallbackInput(type);
       }
 
       const input = parentBlock.inputs[inputName];
 
       if (Array.isArray(input[1])) {
         const native = input[1];
-        return this.convertInputType(this.compileNativeInput(native, type), type);
+        const result = this.compileNativeInput(native, type);
+        if (native[0] !== NativeTypes.VAR && native[0] !== NativeTypes.LIST) {
+          result.constant = true;
+        }
+        return this.convertInputType(result, type);
       }
 
       const inputBlockId = input[1];
@@ -1833,12 +2633,12 @@ namespace P.sb3.compiler {
       // Handling null inputs where the input exists but is just empty.
       // This is normal and happens very often.
       if (!inputBlockId) {
-        return new CompiledInput(this.getInputFallback(type), type);
+        return this.fallbackInput(type);
       }
 
       const inputBlock = this.blocks[inputBlockId];
       if (!inputBlock) {
-        return new CompiledInput(this.getInputFallback(type), type);
+        return this.fallbackInput(type);
       }
 
       const opcode = inputBlock.opcode;
@@ -1846,13 +2646,17 @@ namespace P.sb3.compiler {
 
       // If we don't recognize this block, that's a problem.
       if (!compiler) {
-        this.warn('unknown input', opcode, inputBlock);
-        return new CompiledInput(this.getInputFallback(type), type);
+        this.reportProblem('error', 'unknown input', opcode, inputBlockId, inputBlock);
+        return this.fallbackInput(type);
       }
 
       const util = new InputUtil(this, inputBlock);
       let result = compiler(util);
 
+      if (P.config.optimizeScripts) {
+        result = this.foldConstantInput(result, util);
+      }
+
       if (P.config.debug) {
         result.source = this.sanitizedComment(inputBlock.opcode) + result.source;
       }
@@ -1860,6 +2664,74 @@ namespace P.sb3.compiler {
       return this.convertInputType(result, type);
     }
 
+    /**
+     * Finds the blocks with an opcode in the inputs of a block, not including substacks.
+     * Blocks in the inputs of other blocks are listed before them.
+     */
+    findInputBlocks(block: SB3Block, opcode: string): SB3Block[] {
+      const result: SB3Block[] = [];
+      for (const inputName of Object.keys(block.inputs)) {
+        const inputBlockId = block.inputs[inputName][1];
+        if (typeof inputBlockId !== 'string' || !this.blocks[inputBlockId] || inputName.startsWith('SUBSTACK')) {
+          continue;
+        }
+        const inputBlock = this.blocks[inputBlockId];
+        result.push(...this.findInputBlocks(inputBlock, opcode));
+        if (inputBlock.opcode === opcode) {
+          result.push(inputBlock);
+        }
+      }
+      return result;
+    }
+
+    /**
+     * Finds the translate blocks in the inputs of a statement, which the statement must wait for as reporters cannot wait.
+     * Blocks that the statement evaluates itself are given a key, see getTranslationKey().
+     */
+    findTranslations(block: SB3Block): TranslationRequest[] {
+      const blocks = this.findInputBlocks(block, 'translate_getTranslate');
+      const inner = new Set<SB3Block>();
+      const result = blocks.map((block) => {
+        const innerBlocks = this.findInputBlocks(block, 'translate_getTranslate');
+        for (const innerBlock of innerBlocks) {
+          inner.add(innerBlock);
+        }
+        return { block, key: null as string | null, dependent: innerBlocks.length > 0 };
+      });
+      for (const translation of result) {
+        if (!inner.has(translation.block)) {
+          let key = this.translationKeys.get(translation.block);
+          if (!key) {
+            key = 'translation' + this.translationKeys.size;
+            this.translationKeys.set(translation.block, key);
+          }
+          translation.key = key;
+        }
+      }
+      return result;
+    }
+
+    /**
+     * Gets the key under which the statement that contains a translate block passes on the text and language that it
+     * evaluated, or null if the block evaluates them itself.
+     */
+    getTranslationKey(block: SB3Block): string | null {
+      return this.translationKeys.get(block) || null;
+    }
+
+    /**
+     * Finds the ID of one of the blocks of the target, or null if the block is not one of them.
+     * Blocks do not know their own ID, so this searches all blocks and should only be used to report problems.
+     */
+    getBlockId(block: SB3Block): string | null {
+      for (const id of Object.keys(this.blocks)) {
+        if (this.blocks[id] === block) {
+          return id;
+        }
+      }
+      return null;
+    }
+
     /**
      * Get a field of a block.
      */
@@ -1867,7 +2739,7 @@ namespace P.sb3.compiler {
       const value = block.fields[fieldName];
       if (!value) {
         // This could be a sign of another issue, so log a warning.
-        this.warn('missing field', fieldName);
+        this.reportProblem('warning', 'missing field: ' + fieldName, block.opcode, this.getBlockId(block));
         return '';
       }
       return '' + value[0];
@@ -1881,7 +2753,7 @@ namespace P.sb3.compiler {
       const value = block.fields[fieldName];
       if (!value) {
         // This could be a sign of another issue, so log a warning.
-        this.warn('missing variable field', fieldName);
+        this.reportProblem('warning', 'missing variable field: ' + fieldName, block.opcode, this.getBlockId(block));
         return '';
       }
       return '' + value[1];
@@ -1914,7 +2786,8 @@ namespace P.sb3.compiler {
       return {
         isWarp: false,
         isProcedure: false,
-        argumentNames: []
+        argumentNames: [],
+        inlinedArguments: null,
       };
     }
 
@@ -1923,7 +2796,8 @@ namespace P.sb3.compiler {
      */
     compileStack(startingBlock: string): string {
       let script = '';
-      let block = this.blocks[startingBlock];
+      let blockId = startingBlock;
+      let block = this.blocks[blockId];
 
       while (true) {
         var opcode = block.opcode;
@@ -1933,19 +2807,30 @@ namespace P.sb3.compiler {
           script += this.sanitizedComment(block.opcode);
         }
 
+        // Marks where the code of this block starts, for source maps.
+        script += `/*@${this.blockIds.push(blockId) - 1}*/`;
+
+        if (P.config.enableDebugger) {
+          // Each block gets its own label so that a thread can stop at a breakpoint and later resume from it.
+          const label = this.labelCount++;
+          script += `{{${label}}}if (debugBlock(${this.sanitizedString(blockId)}, ${label})) { return; }\n`;
+        }
+
         if (compiler) {
           const util = new StatementUtil(this, block);
+          util.waitForTranslations();
           compiler(util);
           script += util.content;
         } else {
           script += '/* unknown statement */';
-          this.warn('unknown statement', opcode, block);
+          this.reportProblem('error', 'unknown statement', opcode, blockId, block);
         }
 
         if (!block.next) {
           break;
         }
-        block = this.blocks[block.next];
+        blockId = block.next;
+        block = this.blocks[blockId];
       }
 
       return script;
@@ -1955,26 +2840,57 @@ namespace P.sb3.compiler {
      * Compile a hat block and its children.
      * The hat handler will be used, and the scripts will be installed.
      */
-    compileHat(hat: SB3Block): void {
+    compileHat(hat: SB3Block, hatId: string): void {
       const hatCompiler = this.getHatCompiler(hat.opcode);
       if (!hatCompiler) {
         // If a hat block is otherwise recognized as an input or statement, don't warn.
         // Most projects have at least one of these "dangling" blocks.
         if (!this.getInputCompiler(hat.opcode) && !this.getStatementCompiler(hat.opcode)) {
-          this.warn('unknown hat block', hat.opcode, hat);
+          this.reportProblem('error', 'unknown hat block', hat.opcode, hatId, hat);
         }
         return;
       }
 
-      this.labelCount = this.target.fns.length;
-
-      const startingBlock = hat.next;
       // Empty hats will be ignored
-      if (!startingBlock) {
+      if (!hat.next) {
         return;
       }
 
+      let startingFunction: Fn;
+      if (this.lazy) {
+        this.pendingScripts++;
+        startingFunction = P.runtime.createLazyFunction(this.target.fns, () => {
+          const fn = this.compileScript(hat, hatCompiler);
+          this.pendingScripts--;
+          if (this.pendingScripts === 0) {
+            this.target.sb3data = null as any;
+          }
+          return fn;
+        });
+        // Threads are saved by the index of their functions in fns, and threads of a script start with this function.
+        this.target.fns.push(startingFunction);
+      } else {
+        startingFunction = this.compileScript(hat, hatCompiler);
+      }
+
+      P.runtime.registerScript(startingFunction, {
+        opcode: hat.opcode,
+        blockId: hatId,
+      });
+      const util = new HatUtil(this, hat, startingFunction);
+      hatCompiler.handle(util);
+    }
+
+    /**
+     * Compile the blocks below a hat block.
+     * @returns The function that the script starts with
+     */
+    compileScript(hat: SB3Block, hatCompiler: HatCompiler): Fn {
+      this.labelCount = this.target.fns.length;
+      const startingBlock = hat.next!;
+
       this.state = this.getNewState();
+      this.blockIds = [];
 
       // There is always a label placed at the beginning of the script.
       // If you're clever, you may be able to remove this at some point.
@@ -1997,16 +2913,36 @@ namespace P.sb3.compiler {
 
       const startFn = this.target.fns.length;
       for (let label of Object.keys(parseResult.labels)) {
-        this.target.fns[label] = P.runtime.createContinuation(parsedScript.slice(parseResult.labels[label]));
+        const offset = parseResult.labels[label];
+        const source = P.runtime.transformContinuation(parsedScript.slice(offset));
+        const entries = P.runtime.findBlockPositions(source, {
+          sprite: this.target.name,
+          blockIds: this.blockIds,
+          startBlock: this.findBlockAt(parsedScript, offset),
+        });
+        this.target.fns[label] = P.runtime.evaluateContinuation(source, this.target.name, entries);
+        if (this.functionSources) {
+          this.functionSources[label] = { source, entries };
+        }
       }
 
-      const startingFunction = this.target.fns[startFn];
-      const util = new HatUtil(this, hat, startingFunction);
-      hatCompiler.handle(util);
-
       if (P.config.debug) {
         this.log(`[${this.target.name}] compiled sb3 script "${hat.opcode}"`, script, this.target);
       }
+
+      return this.target.fns[startFn];
+    }
+
+    /**
+     * Find the block whose code contains a position in a generated script.
+     * @returns The index of the block in blockIds, or -1 if the position is before the first block.
+     */
+    findBlockAt(script: string, offset: number): number {
+      const marker = script.lastIndexOf('/*@', offset);
+      if (marker === -1) {
+        return -1;
+      }
+      return +script.substring(marker + 3, script.indexOf('*/', marker));
     }
 
     /**
@@ -2050,6 +2986,159 @@ namespace P.sb3.compiler {
       console.warn.apply(console, args);
     }
 
+    /**
+     * Find the definition of a procedure that scripts of this target will run when calling it.
+     * @returns The ID of the procedures_definition block, or null if there is none.
+     */
+    findProcedureDefinition(proccode: string): string | null {
+      for (const hatId of this.getHatBlocks()) {
+        const hat = this.blocks[hatId];
+        // Empty definitions are not compiled, so the first definition that has blocks is used.
+        if (hat.opcode !== 'procedures_definition' || !hat.next) {
+          continue;
+        }
+        const prototype = this.blocks[hat.inputs.custom_block[1]];
+        if (prototype && prototype.mutation.proccode === proccode) {
+          return hatId;
+        }
+      }
+      return null;
+    }
+
+    /**
+     * Counts the blocks in a stack and everything inside of it.
+     * @returns The number of blocks, or -1 if any block matches the predicate.
+     */
+    countBlocks(startingBlock: string | null, predicate: (block: SB3Block) => boolean): number {
+      let count = 0;
+      let blockId = startingBlock;
+      while (blockId) {
+        const block = this.blocks[blockId];
+        if (!block) {
+          break;
+        }
+        if (predicate(block)) {
+          return -1;
+        }
+        count++;
+        for (const inputName of Object.keys(block.inputs)) {
+          const input = block.inputs[inputName];
+          if (typeof input[1] === 'string') {
+            const inputCount = this.countBlocks(input[1], predicate);
+            if (inputCount === -1) {
+              return -1;
+            }
+            count += inputCount;
+          }
+        }
+        blockId = block.next;
+      }
+      return count;
+    }
+
+    /**
+     * Determines whether calls to a procedure can be replaced with the body of the procedure.
+     * Only small procedures qualify, and they can't call procedures or stop the script as those need a call frame.
+     * The body must also never yield, which is checked when it is compiled.
+     */
+    canInlineProcedure(definitionId: string): boolean {
+      const count = this.countBlocks(this.blocks[definitionId].next, (block) => {
+        return block.opcode === 'procedures_call' ||
+          (block.opcode === 'control_stop' && this.getField(block, 'STOP_OPTION') === 'this script');
+      });
+      return count !== -1 && count <= MAX_INLINED_BLOCKS;
+    }
+
+    /**
+     * Compiles a procedure call by copying the body of the procedure into the calling script.
+     * This avoids the overhead of the call frame and splitting the script into multiple functions.
+     * @returns The source of the inlined procedure, or null if the procedure can't be inlined.
+     */
+    inlineProcedureCall(block: SB3Block): string | null {
+      const proccode = block.mutation.proccode;
+      if (this.inlinableProcedures[proccode] === false) {
+        return null;
+      }
+      const definitionId = this.findProcedureDefinition(proccode);
+      if (!definitionId || !this.canInlineProcedure(definitionId)) {
+        this.inlinableProcedures[proccode] = false;
+        return null;
+      }
+
+      const definition = this.blocks[definitionId];
+      const mutation = this.blocks[definition.inputs.custom_block[1]].mutation;
+      const warp = typeof mutation.warp === 'string' ? mutation.warp === 'true' : mutation.warp;
+      const argumentNames: string[] = JSON.parse(mutation.argumentnames);
+      const inputNames: string[] = JSON.parse(block.mutation.argumentids);
+
+      const state = this.state;
+      const isWarp = warp || state.isWarp;
+      // Whether the body yields can depend on whether the caller is in warp mode.
+      const yieldingProcedures = isWarp ? this.yieldingProcedures.warp : this.yieldingProcedures.normal;
+      if (yieldingProcedures.has(proccode)) {
+        return null;
+      }
+
+      const id = this.inlinedCallCount++;
+      const inlinedArguments: ObjectMap<string> = Object.create(null);
+      for (let i = 0; i < argumentNames.length; i++) {
+        inlinedArguments[argumentNames[i]] = `$${id}_${i}`;
+      }
+
+      const labelsBefore = this.labelCount;
+      const reportProblems = this.reportProblems;
+      this.state = {
+        isWarp,
+        isProcedure: true,
+        argumentNames,
+        inlinedArguments,
+      };
+      // Problems in the procedure are reported when its definition is compiled.
+      this.reportProblems = false;
+      const body = this.compileStack(definition.next!);
+      this.reportProblems = reportProblems;
+      this.state = state;
+
+      if (this.labelCount !== labelsBefore) {
+        // The procedure can yield, which requires a call frame.
+        this.labelCount = labelsBefore;
+        yieldingProcedures.add(proccode);
+        return null;
+      }
+
+      // Arguments are evaluated before the body runs, like in a real call.
+      let source = '{\n';
+      for (let i = 0; i < argumentNames.length; i++) {
+        const value = i < inputNames.length ? this.compileInput(block, inputNames[i], 'any') : 'undefined';
+        source += `const $${id}_${i} = ${value};\n`;
+      }
+      return source + body + '}\n';
+    }
+
+    /**
+     * Log a warning and add it to the stage's compatibility report.
+     * @param severity 'error' if a block is not supported, otherwise 'warning'
+     * @param message Description of the problem
+     * @param opcode The opcode of the block with the problem
+     * @param blockId The ID of the block, if known
+     * @param args Additional values to log
+     */
+    reportProblem(severity: P.compatibility.Severity, message: string, opcode: string, blockId: string | null, ...args: any[]) {
+      if (!this.reportProblems) {
+        return;
+      }
+      if (blockId !== null) {
+        // A block can be compiled more than once, such as when a procedure is inlined or after a lazy script was scanned.
+        const key = blockId + '\n' + message;
+        if (this.reportedProblems.has(key)) {
+          return;
+        }
+        this.reportedProblems.add(key);
+      }
+      this.warn(message, opcode, ...args);
+      this.target.stage.compatibility.add(this.target, severity, message, opcode, blockId);
+    }
+
     /**
      * Log info
      */
@@ -2058,19 +3147,82 @@ namespace P.sb3.compiler {
       console.log.apply(console, args);
     }
 
+    /**
+     * Finds what the blocks of a script need before the script is compiled lazily.
+     * Scripts may not be compiled until long after the project loads, but the soundbank can only be loaded now,
+     * extensions must exist when the project starts, and the compatibility report must be complete after loading.
+     */
+    scanStack(startingBlock: string): void {
+      let blockId: string | null = startingBlock;
+      while (blockId && this.blocks[blockId]) {
+        const block = this.blocks[blockId];
+        if (!this.getStatementCompiler(block.opcode)) {
+          this.reportProblem('error', 'unknown statement', block.opcode, blockId, block);
+        }
+        this.scanBlock(block);
+        blockId = block.next;
+      }
+    }
+
+    /**
+     * Finds what a block and its inputs need.
+     * @see scanStack
+     */
+    scanBlock(block: SB3Block): void {
+      const opcode = block.opcode;
+      if (opcode.startsWith('music_')) {
+        this.needsMusic = true;
+      } else if (opcode.startsWith('videoSensing_')) {
+        this.target.stage.initVideoSensing();
+      } else if (opcode.startsWith('text2speech_')) {
+        this.target.stage.initTextToSpeech();
+      } else if (opcode.startsWith('translate_')) {
+        this.target.stage.initTranslate();
+      } else if (opcode === 'sensing_loud' || opcode === 'sensing_loudness') {
+        this.target.stage.initMicrophone();
+      }
+
+      for (const inputName of Object.keys(block.inputs)) {
+        const inputBlockId = block.inputs[inputName][1];
+        if (typeof inputBlockId !== 'string' || !this.blocks[inputBlockId]) {
+          continue;
+        }
+        if (inputName.startsWith('SUBSTACK')) {
+          this.scanStack(inputBlockId);
+          continue;
+        }
+        const inputBlock = this.blocks[inputBlockId];
+        if (!this.getInputCompiler(inputBlock.opcode)) {
+          this.reportProblem('error', 'unknown input', inputBlock.opcode, inputBlockId, inputBlock);
+        }
+        this.scanBlock(inputBlock);
+      }
+    }
+
     /**
      * Compiles the scripts of the target with the current data.
      */
     compile(): void {
       const hats = this.getHatBlocks();
 
+      if (this.lazy) {
+        for (const hatId of hats) {
+          const hat = this.blocks[hatId];
+          if (hat.next && this.getHatCompiler(hat.opcode)) {
+            this.scanStack(hat.next);
+          }
+        }
+      }
+
       for (const hatId of hats) {
         const hat = this.blocks[hatId];
-        this.compileHat(hat);
+        this.compileHat(hat, hatId);
       }
 
       // Remove data that is now unused
-      this.target.sb3data = null as any;
+      if (this.pendingScripts === 0) {
+        this.target.sb3data = null as any;
+      }
     }
   }
 }
@@ -2130,8 +3282,10 @@ namespace P.sb3.compiler {
   statementLibrary['control_forever'] = function(util) {
     const SUBSTACK = util.getSubstack('SUBSTACK');
     if (util.compiler.state.isWarp && !util.substacksQueue) {
+      const label = util.addLabel();
       util.writeLn('while (true) {');
       util.write(SUBSTACK);
+      util.warpTimerCheck(label);
       util.writeLn('}');
     } else {
       const label = util.addLabel();
@@ -2165,9 +3319,11 @@ namespace P.sb3.compiler {
     if (util.compiler.state.isWarp && !util.substacksQueue) {
       util.writeLn('save();');
       util.writeLn(`R.count = ${TIMES};`);
+      const label = util.addLabel();
       util.writeLn('while (R.count >= 0.5) {');
       util.writeLn('  R.count -= 1;');
       util.write(SUBSTACK);
+      util.warpTimerCheck(label);
       util.writeLn('}');
       util.writeLn('restore();');
     } else {
@@ -2187,8 +3343,10 @@ namespace P.sb3.compiler {
     const CONDITION = util.getInput('CONDITION', 'boolean');
     const SUBSTACK = util.getSubstack('SUBSTACK');
     if (util.compiler.state.isWarp && !util.substacksQueue) {
+      const label = util.addLabel();
       util.writeLn(`while (!${CONDITION}) {`);
       util.write(SUBSTACK);
+      util.warpTimerCheck(label);
       util.writeLn('}');
     } else {
       const label = util.addLabel();
@@ -2243,8 +3401,10 @@ namespace P.sb3.compiler {
     const CONDITION = util.getInput('CONDITION', 'boolean');
     const SUBSTACK = util.getSubstack('SUBSTACK');
     if (util.compiler.state.isWarp && !util.substacksQueue) {
+      const label = util.addLabel();
       util.writeLn(`while (${CONDITION}) {`);
       util.write(SUBSTACK);
+      util.warpTimerCheck(label);
       util.writeLn('}');
     } else {
       const label = util.addLabel();
@@ -2262,7 +3422,8 @@ namespace P.sb3.compiler {
   statementLibrary['data_changevariableby'] = function(util) {
     const VARIABLE = util.getVariableReference('VARIABLE');
     const VALUE = util.getInput('VALUE', 'number');
-    util.writeLn(`${VARIABLE} = (${util.asType(VARIABLE, 'number')} + ${VALUE});`);
+    const CURRENT_VALUE = util.compiler.convertInputType(util.compiler.getVariableInput(util.compiler.getVariableField(util.block, 'VARIABLE')), 'number');
+    util.writeLn(`${VARIABLE} = (${CURRENT_VALUE} + ${VALUE});`);
     if (util.isCloudVariable('VARIABLE')) {
       util.writeLn(`cloudVariableChanged(${util.sanitizedString(util.getField('VARIABLE'))})`);
     }
@@ -2588,9 +3749,12 @@ namespace P.sb3.compiler {
     const TEMPO = util.getInput('TEMPO', 'number');
     util.writeLn(`self.tempoBPM += ${TEMPO};`)
   };
-  statementLibrary['music_playDrumForBeats'] = function(util) {
+  /**
+   * Plays a drum for a number of beats.
+   * @param drum Code that finds the drum, which may be undefined if there is no such drum.
+   */
+  const playDrumForBeats = function(util: P.sb3.compiler.StatementUtil, drum: string) {
     const BEATS = util.getInput('BEATS', 'number');
-    const DRUM = util.getInput('DRUM', 'number');
 
     util.compiler.needsMusic = true;
 
@@ -2600,7 +3764,7 @@ namespace P.sb3.compiler {
     util.writeLn(`var first = true;`);
 
     if (P.audio.context) {
-      util.writeLn(`R.sound = playSpan(DRUMS[Math.round(${DRUM}) - 1] || DRUMS[2], 60, 10);`);
+      util.writeLn(`R.sound = playSpan(${drum} || DRUMS[2], 60, 10);`);
     } else {
       util.writeLn('R.sound = { stopped: false };');
     }
@@ -2614,6 +3778,20 @@ namespace P.sb3.compiler {
     util.writeLn('S.activeSounds.delete(R.sound);');
     util.writeLn('restore();');
   };
+  statementLibrary['music_midiPlayDrumForBeats'] = function(util) {
+    const DRUM = util.getInput('DRUM', 'number');
+    playDrumForBeats(util, `DRUMS[MIDI_DRUMS[Math.round(${DRUM}) - 35]]`);
+  };
+  statementLibrary['music_midiSetInstrument'] = function(util) {
+    const INSTRUMENT = util.getInput('INSTRUMENT', 'number');
+    util.writeLn(`var program = Math.round(${INSTRUMENT}) - 1;`);
+    // Unknown instruments are played with the first instrument.
+    util.writeLn('S.instrument = program >= 0 && program < MIDI_INSTRUMENTS.length ? MIDI_INSTRUMENTS[program] : MIDI_INSTRUMENTS[0];');
+  };
+  statementLibrary['music_playDrumForBeats'] = function(util) {
+    const DRUM = util.getInput('DRUM', 'number');
+    playDrumForBeats(util, `DRUMS[Math.round(${DRUM}) - 1]`);
+  };
   statementLibrary['music_playNoteForBeats'] = function(util) {
     const BEATS = util.getInput('BEATS', 'number');
     const NOTE = util.getInput('NOTE', 'number');
@@ -2743,6 +3921,14 @@ namespace P.sb3.compiler {
       }
     }
 
+    if (P.config.optimizeScripts) {
+      const inlined = util.compiler.inlineProcedureCall(util.block);
+      if (inlined !== null) {
+        util.write(inlined);
+        return;
+      }
+    }
+
     const label = util.claimNextLabel();
     util.write(`call(S.procedures[${util.sanitizedString(name)}], ${label}, [`);
 
@@ -2784,13 +3970,21 @@ namespace P.sb3.compiler {
       util.writeLn(`var sound = S.getSound(${SOUND_MENU});`);
       util.writeLn('if (sound) {');
       util.writeLn('  save();');
-      util.writeLn('  R.sound = playSound(sound);');
-      util.writeLn('  S.activeSounds.add(R.sound);')
+      // Sounds that are decoded in the background are played once they are ready.
+      util.writeLn('  R.loadingSound = sound;');
+      const loadingLabel = util.addLabel();
+      util.writeLn('  if (R.loadingSound.isLoading) {');
+      util.forceQueue(loadingLabel);
+      util.writeLn('  }');
+      util.writeLn('  if (R.loadingSound.buffer) {');
+      util.writeLn('    R.sound = playSound(R.loadingSound);');
+      util.writeLn('    S.activeSounds.add(R.sound);')
       const label = util.addLabel();
-      util.writeLn('  if (!R.sound.node.ended && !R.sound.stopped) {');
+      util.writeLn('    if (!R.sound.stopped && !R.sound.node.ended) {');
       util.forceQueue(label);
+      util.writeLn('    }');
+      util.writeLn('    S.activeSounds.delete(R.sound);');
       util.writeLn('  }');
-      util.writeLn('  S.activeSounds.delete(R.sound);');
       util.writeLn('  restore();');
       util.writeLn('}');
     }
@@ -2857,12 +4051,15 @@ namespace P.sb3.compiler {
     util.stage.initTextToSpeech();
     util.waitUntilSettles(`self.tts.speak(${WORDS})`);
   };
+  statementLibrary['videoSensing_setVideoTransparency'] = function(util) {
+    const TRANSPARENCY = util.getInput('TRANSPARENCY', 'number');
+    util.stage.initVideoSensing();
+    util.writeLn(`self.videoSensing.setTransparency(${TRANSPARENCY});`);
+  };
   statementLibrary['videoSensing_videoToggle'] = function(util) {
     const VIDEO_STATE = util.getInput('VIDEO_STATE', 'string');
-    util.writeLn(`switch (${VIDEO_STATE}) {`);
-    util.writeLn('  case "off": self.showVideo(false); break;');
-    util.writeLn('  case "on": self.showVideo(true); break;');
-    util.writeLn('}');
+    util.stage.initVideoSensing();
+    util.writeLn(`self.videoSensing.setVideoState(${VIDEO_STATE});`);
   };
 
   // Legacy no-ops
@@ -2887,14 +4084,14 @@ namespace P.sb3.compiler {
       // Missing boolean reporters are 0, not false.
       return util.numberInput('0');
     }
-    return util.booleanInput(util.asType(`C.args[${util.sanitizedString(VALUE)}]`, 'boolean'));
+    return util.booleanInput(util.asType(util.compiler.getArgumentReference(VALUE), 'boolean'));
   };
   inputLibrary['argument_reporter_string_number'] = function(util) {
     const VALUE = util.getField('VALUE');
     if (!util.compiler.state.isProcedure || util.compiler.state.argumentNames.indexOf(VALUE) === -1) {
       return util.numberInput('0');
     }
-    return util.anyInput(`C.args[${util.sanitizedString(VALUE)}]`);
+    return util.anyInput(util.compiler.getArgumentReference(VALUE));
   };
   inputLibrary['control_create_clone_of_menu'] = function(util) {
     return util.fieldInput('CLONE_OPTION');
@@ -2921,6 +4118,14 @@ namespace P.sb3.compiler {
     const ITEM = util.getInput('ITEM', 'any');
     return util.booleanInput(`listContains(${LIST}, ${ITEM})`);
   };
+  inputLibrary['data_listcontents'] = function(util) {
+    const LIST = util.getListReference('LIST');
+    // Scratch3List's toString() joins the items like Scratch does.
+    return util.stringInput(`("" + ${LIST})`);
+  };
+  inputLibrary['event_touchingobjectmenu'] = function(util) {
+    return util.fieldInput('TOUCHINGOBJECTMENU');
+  };
   inputLibrary['looks_backdropnumbername'] = function(util) {
     const NUMBER_NAME = util.getField('NUMBER_NAME');
     if (NUMBER_NAME === 'number') {
@@ -3148,18 +4353,18 @@ namespace P.sb3.compiler {
   inputLibrary['sensing_current'] = function(util) {
     const CURRENTMENU = util.getField('CURRENTMENU').toLowerCase();
     switch (CURRENTMENU) {
-      case 'year': return util.numberInput('new Date().getFullYear()');
-      case 'month': return util.numberInput('(new Date().getMonth() + 1)');
-      case 'date': return util.numberInput('new Date().getDate()');
-      case 'dayofweek': return util.numberInput('(new Date().getDay() + 1)');
-      case 'hour': return util.numberInput('new Date().getHours()');
-      case 'minute': return util.numberInput('new Date().getMinutes()');
-      case 'second': return util.numberInput('new Date().getSeconds()');
+      case 'year': return util.numberInput('runtime.currentDate().getFullYear()');
+      case 'month': return util.numberInput('(runtime.currentDate().getMonth() + 1)');
+      case 'date': return util.numberInput('runtime.currentDate().getDate()');
+      case 'dayofweek': return util.numberInput('(runtime.currentDate().getDay() + 1)');
+      case 'hour': return util.numberInput('runtime.currentDate().getHours()');
+      case 'minute': return util.numberInput('runtime.currentDate().getMinutes()');
+      case 'second': return util.numberInput('runtime.currentDate().getSeconds()');
     }
     return util.numberInput('0');
   };
   inputLibrary['sensing_dayssince2000'] = function(util) {
-    return util.numberInput('((Date.now() - epoch) / 86400000)');
+    return util.numberInput('((runtime.currentTime() - epoch) / 86400000)');
   };
   inputLibrary['sensing_distanceto'] = function(util) {
     const DISTANCETOMENU = util.getInput('DISTANCETOMENU', 'any');
@@ -3237,17 +4442,32 @@ namespace P.sb3.compiler {
   inputLibrary['translate_getTranslate'] = function(util) {
     const WORDS = util.getInput('WORDS', 'string');
     const LANGUAGE = util.getInput('LANGUAGE', 'string');
-    // The translation extension is stubbed in forkphorus to only return the supplied input.
-    // Using Scratch' translation API is very questionable, and most projects don't use the API anyways.
-    return WORDS;
+    util.stage.initTranslate();
+    const key = util.compiler.getTranslationKey(util.block);
+    if (key) {
+      return util.stringInput(`(R.${key} ? self.translate.getPreparedTranslate(R, '${key}') : self.translate.getTranslate(${WORDS}, ${LANGUAGE}))`);
+    }
+    return util.stringInput(`self.translate.getTranslate(${WORDS}, ${LANGUAGE})`);
   };
   inputLibrary['translate_getViewerLanguage'] = function(util) {
-    // TODO: return option or user's actual language?
-    return util.sanitizedInput('English');
+    util.stage.initTranslate();
+    return util.stringInput('self.translate.getViewerLanguage()');
+  };
+  inputLibrary['videoSensing_menu_ATTRIBUTE'] = function(util) {
+    return util.fieldInput('ATTRIBUTE');
+  };
+  inputLibrary['videoSensing_menu_SUBJECT'] = function(util) {
+    return util.fieldInput('SUBJECT');
   };
   inputLibrary['videoSensing_menu_VIDEO_STATE'] = function(util) {
     return util.fieldInput('VIDEO_STATE');
   };
+  inputLibrary['videoSensing_videoOn'] = function(util) {
+    const ATTRIBUTE = util.getInput('ATTRIBUTE', 'string');
+    const SUBJECT = util.getInput('SUBJECT', 'string');
+    util.stage.initVideoSensing();
+    return util.numberInput(`self.videoSensing.getMotion(S, ${ATTRIBUTE}, ${SUBJECT})`);
+  };
 
   // Legacy no-ops
   // https://github.com/LLK/scratch-vm/blob/bb42c0019c60f5d1947f3432038aa036a0fddca6/src/blocks/scratch3_sensing.js#L74
@@ -3341,6 +4561,28 @@ namespace P.sb3.compiler {
       util.target.listeners.whenClicked.push(util.startingFunction);
     },
   };
+  hatLibrary['event_whentouchingobject'] = {
+    precompile(compiler, hat) {
+      const TOUCHINGOBJECTMENU = compiler.compileInput(hat, 'TOUCHINGOBJECTMENU', 'string');
+
+      // Edge triggered like event_whengreaterthan, but the condition is only checked once per frame.
+      let source = '';
+      source += 'if (!R.init) { R.init = true; R.stalled = false; }\n';
+      source += `var touching = S.touching(${TOUCHINGOBJECTMENU});\n`;
+      source += 'if (R.stalled && !touching) { R.stalled = false; }\n';
+      source += 'else if (!R.stalled && touching) { R.stalled = true;\n';
+      // if/else will be finished in postcompile
+      return source;
+    },
+    postcompile(compiler, source, hat) {
+      source += '}\n';
+      source += `forceQueue(${compiler.target.fns.length});`;
+      return source;
+    },
+    handle(util) {
+      util.target.listeners.edgeActivated.push(util.startingFunction);
+    },
+  };
   function makeymakeyParseKey(key: string): string {
     key = key.toLowerCase();
     if (key === 'up' || key === 'down' || key === 'left' || key === 'right') {
@@ -3401,6 +4643,28 @@ namespace P.sb3.compiler {
       return '';
     },
   };
+  hatLibrary['videoSensing_whenMotionGreaterThan'] = {
+    precompile(compiler, hat) {
+      const REFERENCE = compiler.compileInput(hat, 'REFERENCE', 'number');
+      compiler.target.stage.initVideoSensing();
+      // Edge triggered like event_whengreaterthan
+      let source = '';
+      source += 'if (!R.init) { R.init = true; R.stalled = false; }\n';
+      source += 'var motion = self.videoSensing.getLocalMotion(S).motionAmount;\n';
+      source += `if (R.stalled && !(motion > ${REFERENCE})) { R.stalled = false; }\n`;
+      source += `else if (!R.stalled && motion > ${REFERENCE}) { R.stalled = true;\n`;
+      // if/else will be finished in postcompile
+      return source;
+    },
+    postcompile(compiler, source, hat) {
+      source += '}\n';
+      source += `forceQueue(${compiler.target.fns.length});`;
+      return source;
+    },
+    handle(util) {
+      util.target.listeners.edgeActivated.push(util.startingFunction);
+    },
+  };
 
   /* Watchers */
   watcherLibrary['data_variable'] = {
@@ -3475,14 +4739,15 @@ namespace P.sb3.compiler {
   watcherLibrary['sensing_current'] = {
     evaluate(watcher) {
       const param = watcher.params.CURRENTMENU.toLowerCase();
+      const date = watcher.stage.runtime.currentDate();
       switch (param) {
-        case 'year': return new Date().getFullYear();
-        case 'month': return new Date().getMonth() + 1;
-        case 'date': return new Date().getDate();
-        case 'dayofweek': return new Date().getDay() + 1;
-        case 'hour': return new Date().getHours();
-        case 'minute': return new Date().getMinutes();
-        case 'second': return new Date().getSeconds();
+        case 'year': return date.getFullYear();
+        case 'month': return date.getMonth() + 1;
+        case 'date': return date.getDate();
+        case 'dayofweek': return date.getDay() + 1;
+        case 'hour': return date.getHours();
+        case 'minute': return date.getMinutes();
+        case 'second': return date.getSeconds();
       }
       return 0;
     },
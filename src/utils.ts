@@ -233,4 +233,81 @@ namespace P.utils {
     }
     return 0;
   };
+
+  const MD5_SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+  ];
+  const MD5_CONSTANTS: number[] = [];
+  for (let i = 0; i < 64; i++) {
+    MD5_CONSTANTS[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0;
+  }
+
+  /**
+   * Computes the MD5 hash of data, as lowercase hexadecimal.
+   * crypto.subtle does not support MD5, which Scratch uses to name assets.
+   */
+  export function md5(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    // The data is followed by a 1 bit, zeros, and the length in bits, filling a whole number of 64 byte blocks.
+    const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true);
+
+    let a0 = 0x67452301;
+    let b0 = 0xefcdab89 | 0;
+    let c0 = 0x98badcfe | 0;
+    let d0 = 0x10325476;
+    const words = new Int32Array(16);
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+      for (let i = 0; i < 16; i++) {
+        words[i] = view.getInt32(offset + i * 4, true);
+      }
+      let a = a0;
+      let b = b0;
+      let c = c0;
+      let d = d0;
+      for (let i = 0; i < 64; i++) {
+        let f: number;
+        let g: number;
+        if (i < 16) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (i < 32) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) & 15;
+        } else if (i < 48) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) & 15;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) & 15;
+        }
+        const sum = (a + f + MD5_CONSTANTS[i] + words[g]) | 0;
+        a = d;
+        d = c;
+        c = b;
+        b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+      }
+      a0 = (a0 + a) | 0;
+      b0 = (b0 + b) | 0;
+      c0 = (c0 + c) | 0;
+      d0 = (d0 + d) | 0;
+    }
+
+    let hex = '';
+    for (const word of [a0, b0, c0, d0]) {
+      for (let i = 0; i < 4; i++) {
+        const byte = (word >>> (i * 8)) & 0xff;
+        hex += (byte < 16 ? '0' : '') + byte.toString(16);
+      }
+    }
+    return hex;
+  }
 }
@@ -0,0 +1,199 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of loading the costumes and sounds of projects, which check the loader instead of what the project does.
+ */
+P.suite.assetTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * @param {string} path
+   * @param {(stage: P.core.Stage) => void} [check] Checks the stage before it is destroyed
+   * @returns {Promise<P.sb3.SB3FileLoader>} A loader that has loaded the project
+   */
+  async function loadProject(path, check) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const loader = new P.sb3.SB3FileLoader(buffer);
+    const stage = await loader.load();
+    try {
+      if (check) {
+        check(stage);
+      }
+    } finally {
+      stage.destroy();
+    }
+    return loader;
+  }
+
+  /**
+   * Runs a function with an audio context, so that scripts are compiled to play sounds.
+   * The context cannot do anything, so no sound must actually be played.
+   * @param {() => Promise<void>} fn
+   */
+  async function withAudioContext(fn) {
+    const context = P.audio.context;
+    P.audio.context = /** @type {AudioContext} */ ({});
+    try {
+      await fn();
+    } finally {
+      P.audio.context = context;
+    }
+  }
+
+  // The costume and sound of asset-integrity.sb3 that are named by the MD5 hash of something else.
+  const MISMATCHED_COSTUME = '1c1658ce922c6ed413d7a311596a7e65.png';
+  const MISMATCHED_SOUND = '1c1658ce922c6ed413d7a311596a7e65.wav';
+
+  // The costumes of repair.sb3 whose file is not a PNG and whose file is not in the project.
+  const CORRUPT_COSTUME = 'ec58a8eb0cd6bfd7397a1a6653009a24.png';
+  const MISSING_COSTUME = 'ff80d38c477b5051869c98b3f3c2156a.png';
+
+  const tests = {
+    async 'asset integrity is not checked by default'() {
+      await withConfig({ assetIntegrity: 'off' }, async () => {
+        const loader = await loadProject('sb3/asset-integrity.sb3');
+        assert(loader.warnings.length === 0, 'unexpected warnings: ' + loader.warnings.join(', '));
+      });
+    },
+
+    async 'assets that do not match their MD5 hash are warned about'() {
+      await withConfig({ assetIntegrity: 'warn' }, async () => {
+        const loader = await loadProject('sb3/asset-integrity.sb3');
+        for (const asset of [MISMATCHED_COSTUME, MISMATCHED_SOUND]) {
+          assert(loader.warnings.some((i) => i.includes(asset)), 'no warning about ' + asset);
+        }
+        assert(loader.warnings.length === 2, 'unexpected warnings: ' + loader.warnings.join(', '));
+        assert(loader.substitutions.length === 0, 'assets were replaced');
+      });
+    },
+
+    async 'assets that do not match their MD5 hash are replaced with placeholders'() {
+      await withConfig({ assetIntegrity: 'placeholder' }, async () => {
+        const loader = await loadProject('sb3/asset-integrity.sb3');
+        const assets = loader.substitutions.map((i) => i.type + ' ' + i.asset).sort();
+        assert(assets.join() === ['costume ' + MISMATCHED_COSTUME, 'sound ' + MISMATCHED_SOUND].join(), 'wrong substitutions: ' + assets.join(', '));
+      });
+    },
+
+    async 'cached sounds are checked'() {
+      await withConfig({ assetIntegrity: 'warn' }, async () => {
+        const buffer = await new P.io.Request('sb3/asset-integrity.sb3').load('arraybuffer');
+        const loader = new P.sb3.SB3FileLoader(buffer);
+        loader.zip = await JSZip.loadAsync(buffer);
+        loader.cache = {
+          getSound: () => 'sound from the cache',
+          addSound: () => {},
+        };
+        const data = { assetId: MISMATCHED_SOUND.split('.')[0], md5ext: MISMATCHED_SOUND };
+        // Sounds cannot be decoded without an audio context, which the tests do not have.
+        const sound = await loader.getAudioBuffer(MISMATCHED_SOUND, data).catch(() => null);
+        assert(sound !== 'sound from the cache', 'the sound was not checked');
+        assert(loader.warnings.some((i) => i.includes(MISMATCHED_SOUND)), 'no warning about ' + MISMATCHED_SOUND);
+      });
+    },
+
+    async 'projects with missing costumes do not load without repair mode'() {
+      await withConfig({ repairProjects: false }, async () => {
+        try {
+          await loadProject('sb3/repair.sb3');
+        } catch (e) {
+          return;
+        }
+        throw new Error('project loaded');
+      });
+    },
+
+    async 'repair mode replaces costumes that cannot be loaded with placeholders'() {
+      await withConfig({ repairProjects: true }, async () => {
+        const loader = await loadProject('sb3/repair.sb3', (stage) => {
+          const costumes = stage.children[0].costumes.map((i) => i.name);
+          assert(costumes.join() === 'costume1,corrupt costume,missing costume', 'wrong costumes: ' + costumes.join(', '));
+        });
+        const costumes = loader.substitutions.filter((i) => i.type === 'costume').map((i) => i.asset).sort();
+        assert(costumes.join() === [CORRUPT_COSTUME, MISSING_COSTUME].join(), 'wrong substitutions: ' + costumes.join(', '));
+        // Without an audio context, no sound can be loaded, so the missing sound is skipped instead.
+        const sounds = loader.substitutions.filter((i) => i.type === 'sound');
+        assert(sounds.length === (P.audio.context ? 1 : 0), 'wrong number of sound substitutions: ' + sounds.length);
+      });
+    },
+
+    async 'sounds that cannot be loaded are kept with and without progressive loading'() {
+      for (const progressiveLoading of [false, true]) {
+        await withConfig({ repairProjects: true, progressiveLoading }, async () => {
+          await loadProject('sb3/repair.sb3', (stage) => {
+            const sounds = stage.children[0].sounds.map((i) => i.name);
+            assert(sounds.join() === 'missing sound', 'wrong sounds with progressiveLoading = ' + progressiveLoading + ': ' + sounds.join(', '));
+          });
+        });
+      }
+    },
+
+    async 'play sound until done waits for sounds that load in the background'() {
+      const buffer = await new P.io.Request('sb3/progressive-sound.sb3').load('arraybuffer');
+      for (const useInterpreter of [false, true]) {
+        let finishLoading;
+        const soundLoaded = new Promise((resolve) => finishLoading = resolve);
+        class SlowSoundLoader extends P.sb3.SB3FileLoader {
+          getAudioBuffer(path, data) {
+            // The sound fails once it has loaded, so that it is skipped instead of played.
+            return soundLoaded.then(() => {
+              throw new Error('sounds are not decoded in the tests');
+            });
+          }
+        }
+
+        await withConfig({ progressiveLoading: true, useInterpreter }, () => withAudioContext(async () => {
+          const stage = await new SlowSoundLoader(buffer).load();
+          const sprite = stage.children[0];
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          try {
+            stage.runtime.start();
+            stage.runtime.triggerGreenFlag();
+            await P.utils.sleep(200);
+            assert(sprite.vars.played === 0, mode + ' did not wait for the sound to load');
+            finishLoading();
+            await P.utils.sleep(200);
+            assert(sprite.vars.played === 1, mode + ' did not continue after the sound loaded');
+          } finally {
+            stage.runtime.pause();
+            stage.runtime.stopAll();
+            stage.destroy();
+          }
+        }));
+      }
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'assets.js: ' + name,
+    test: tests[name],
+  }));
+}());
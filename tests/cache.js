@@ -0,0 +1,138 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of P.cache, which use an in-memory storage instead of IndexedDB.
+ */
+P.suite.cacheTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Stores entries in memory.
+   * @implements {P.cache.CacheStorage}
+   */
+  class MemoryCacheStorage {
+    constructor() {
+      /** @type {Map<string, P.cache.CacheEntry>} */
+      this.entries = new Map();
+    }
+
+    async get(key) {
+      return this.entries.get(key) || null;
+    }
+
+    async put(entry) {
+      this.entries.delete(entry.key);
+      this.entries.set(entry.key, entry);
+    }
+
+    async keys() {
+      return Array.from(this.entries.values())
+        .sort((a, b) => a.savedAt - b.savedAt)
+        .map((i) => i.key);
+    }
+
+    async delete(key) {
+      this.entries.delete(key);
+    }
+
+    async clear() {
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Runs a function with the cache enabled and stored in memory, then changes everything back.
+   * @param {(storage: MemoryCacheStorage) => Promise<void>} fn
+   */
+  async function withMemoryCache(fn) {
+    const enabled = P.config.cacheCompiledProjects;
+    const storage = new MemoryCacheStorage();
+    P.config.cacheCompiledProjects = true;
+    P.cache.setStorage(storage);
+    try {
+      await fn(storage);
+    } finally {
+      P.cache.setStorage(null);
+      P.config.cacheCompiledProjects = enabled;
+    }
+  }
+
+  /**
+   * Creates a project.json that is different for each number.
+   * @param {number} number
+   */
+  function projectData(number) {
+    return { targets: [], meta: { number } };
+  }
+
+  const tests = {
+    async 'saved projects are found again'() {
+      await withMemoryCache(async (storage) => {
+        const first = await P.cache.ProjectCache.open('sb3', projectData(1));
+        assert(first && first.entry === null, 'found a project that was never saved');
+        const scripts = /** @type {any} */ ({ scripts: 'compiled scripts' });
+        await first.save(scripts);
+        assert(storage.entries.size === 1, 'saved ' + storage.entries.size + ' entries');
+
+        const second = await P.cache.ProjectCache.open('sb3', projectData(1));
+        assert(second.entry && JSON.stringify(second.entry.scripts) === JSON.stringify(scripts), 'saved project was not found');
+        const other = await P.cache.ProjectCache.open('sb3', projectData(2));
+        assert(other.entry === null, 'found the entry of another project');
+        const sb2 = await P.cache.ProjectCache.open('sb2', projectData(1));
+        assert(sb2.entry === null, 'found the entry of another format');
+      });
+    },
+
+    async 'entries saved by other compiler versions are not used'() {
+      await withMemoryCache(async (storage) => {
+        const cache = await P.cache.ProjectCache.open('sb3', projectData(1));
+        await cache.save(/** @type {any} */ ({}));
+        for (const entry of storage.entries.values()) {
+          entry.version = P.cache.COMPILER_VERSION - 1;
+        }
+        const reopened = await P.cache.ProjectCache.open('sb3', projectData(1));
+        assert(reopened.entry === null, 'used an entry of another compiler version');
+      });
+    },
+
+    async 'the least recently saved entries are removed'() {
+      await withMemoryCache(async (storage) => {
+        const keys = [];
+        for (let i = 0; i < 25; i++) {
+          const cache = await P.cache.ProjectCache.open('sb3', projectData(i));
+          await cache.save(/** @type {any} */ ({}));
+          keys.push(cache.key);
+          // Saving a project again makes it the most recently saved.
+          if (i === 20) {
+            const first = await P.cache.ProjectCache.open('sb3', projectData(0));
+            await first.save(/** @type {any} */ ({}));
+          }
+        }
+        const remaining = await storage.keys();
+        assert(remaining.length === 20, 'kept ' + remaining.length + ' entries');
+        assert(remaining.indexOf(keys[0]) !== -1, 'removed an entry that was saved again');
+        for (let i = 1; i <= 5; i++) {
+          assert(remaining.indexOf(keys[i]) === -1, 'kept old entry ' + i);
+        }
+        for (let i = 6; i < 25; i++) {
+          assert(remaining.indexOf(keys[i]) !== -1, 'removed new entry ' + i);
+        }
+      });
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'cache.js: ' + name,
+    test: tests[name],
+  }));
+}());
@@ -0,0 +1,227 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of P.offline, which are written in JavaScript as they do not involve a project.
+ */
+P.suite.offlineTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * @param {Promise<unknown>} promise
+   * @param {string} message
+   * @returns {Promise<unknown>} The reason of the rejection
+   */
+  async function assertRejects(promise, message) {
+    try {
+      await promise;
+    } catch (e) {
+      return e;
+    }
+    throw new Error(message);
+  }
+
+  /**
+   * Stores files in memory.
+   * @implements {P.offline.FileStorage}
+   */
+  class MemoryFileStorage {
+    constructor() {
+      /** @type {Map<string, P.offline.CachedFile>} */
+      this.files = new Map();
+    }
+
+    async get(key) {
+      const file = this.files.get(key);
+      if (!file) {
+        return null;
+      }
+      file.usedAt = Date.now();
+      return file;
+    }
+
+    async put(file, maxBytes) {
+      this.files.set(file.key, file);
+    }
+
+    async clear() {
+      this.files.clear();
+    }
+  }
+
+  /**
+   * Storage that never works.
+   * @implements {P.offline.FileStorage}
+   */
+  class BrokenFileStorage {
+    async get(key) {
+      throw new Error('cannot read');
+    }
+
+    async put(file, maxBytes) {
+      throw new Error('cannot write');
+    }
+
+    async clear() {
+      throw new Error('cannot clear');
+    }
+  }
+
+  /**
+   * Serves files from memory and records what was downloaded.
+   * @implements {P.io.AssetManager}
+   */
+  class MemoryAssetManager {
+    /**
+     * @param {Object<string, string>} files The contents of the files by URL
+     */
+    constructor(files) {
+      this.files = files;
+      /** @type {string[]} */
+      this.downloads = [];
+      this.online = true;
+    }
+
+    download(url) {
+      this.downloads.push(url);
+      if (!this.online) {
+        return Promise.reject(new Error('Could not download ' + url));
+      }
+      if (!Object.prototype.hasOwnProperty.call(this.files, url)) {
+        return Promise.reject(new P.io.HTTPError(url, 404));
+      }
+      return Promise.resolve(new Blob([this.files[url]]));
+    }
+
+    loadFont(src) {
+      return this.download(src);
+    }
+
+    loadSoundbankFile(src) {
+      return this.download(src).then((blob) => P.io.readers.toArrayBuffer(blob));
+    }
+
+    loadProject(url, loader) {
+      return this.download(url);
+    }
+
+    loadProjectAsset(md5ext, url, loader) {
+      return this.download(url);
+    }
+  }
+
+  class TestLoader extends P.io.Loader {
+    load() {
+      return Promise.resolve();
+    }
+  }
+
+  /**
+   * @param {Blob} blob
+   * @returns {Promise<string>}
+   */
+  function text(blob) {
+    return P.io.readers.toText(blob);
+  }
+
+  const tests = {
+    async 'project assets are only downloaded once'() {
+      const source = new MemoryAssetManager({ 'asset.svg': '<svg></svg>' });
+      const manager = new P.offline.CachingAssetManager({ storage: new MemoryFileStorage(), source });
+      assert(await text(await manager.loadProjectAsset('a.svg', 'asset.svg')) === '<svg></svg>', 'first load');
+      assert(await text(await manager.loadProjectAsset('a.svg', 'asset.svg')) === '<svg></svg>', 'second load');
+      assert(source.downloads.length === 1, 'downloaded ' + source.downloads.length + ' times');
+    },
+
+    async 'projects are downloaded again and the cached copy is used when that fails'() {
+      const source = new MemoryAssetManager({ 'project': 'old' });
+      const manager = new P.offline.CachingAssetManager({ storage: new MemoryFileStorage(), source });
+      await manager.loadProject('project');
+      source.files['project'] = 'new';
+      assert(await text(await manager.loadProject('project')) === 'new', 'project was not downloaded again');
+      source.online = false;
+      assert(await text(await manager.loadProject('project')) === 'new', 'cached copy was not used');
+      await assertRejects(manager.loadProject('other project'), 'projects that were never downloaded should fail');
+    },
+
+    async 'projects that do not exist are not loaded from the cache'() {
+      const source = new MemoryAssetManager({ 'project': '{}' });
+      const manager = new P.offline.CachingAssetManager({ storage: new MemoryFileStorage(), source });
+      await manager.loadProject('project');
+      delete source.files['project'];
+      const error = await assertRejects(manager.loadProject('project'), 'deleted project was loaded');
+      assert(error instanceof P.io.HTTPError && error.status === 404, 'wrong error: ' + error);
+    },
+
+    async 'offlineFirst uses cached projects without downloading them'() {
+      const source = new MemoryAssetManager({ 'project': 'old' });
+      const manager = new P.offline.CachingAssetManager({ storage: new MemoryFileStorage(), source, offlineFirst: true });
+      await manager.loadProject('project');
+      source.files['project'] = 'new';
+      assert(await text(await manager.loadProject('project')) === 'old', 'project was downloaded again');
+      assert(source.downloads.length === 1, 'downloaded ' + source.downloads.length + ' times');
+      await manager.clear();
+      assert(await text(await manager.loadProject('project')) === 'new', 'clear() did not remove the project');
+    },
+
+    async 'files larger than maxBytes are not cached'() {
+      const storage = new MemoryFileStorage();
+      const source = new MemoryAssetManager({ 'small': '1234', 'large': '123456789' });
+      const manager = new P.offline.CachingAssetManager({ storage, source, maxBytes: 5 });
+      await manager.loadProjectAsset('small', 'small');
+      await manager.loadProjectAsset('large', 'large');
+      assert(storage.files.has('asset:small'), 'small file was not cached');
+      assert(!storage.files.has('asset:large'), 'large file was cached');
+    },
+
+    async 'broken storage does not stop downloads'() {
+      const source = new MemoryAssetManager({ 'asset.wav': 'RIFF' });
+      const manager = new P.offline.CachingAssetManager({ storage: new BrokenFileStorage(), source });
+      assert(await text(await manager.loadProjectAsset('a.wav', 'asset.wav')) === 'RIFF', 'first load');
+      assert(await text(await manager.loadProjectAsset('a.wav', 'asset.wav')) === 'RIFF', 'second load');
+    },
+
+    async 'aborting a loader cancels its downloads'() {
+      const storage = new MemoryFileStorage();
+      const manager = new P.offline.CachingAssetManager({ storage });
+      const loader = new TestLoader();
+      // The project is downloaded right away, the asset only after the cache was checked.
+      const project = manager.loadProject('sb3/sb3-template.sb3', loader);
+      const asset = manager.loadProjectAsset('template.sb3', 'sb3/sb3-template.sb3', loader);
+      loader.abort();
+      await assertRejects(project, 'project was downloaded');
+      await assertRejects(asset, 'asset was downloaded');
+      assert(storage.files.size === 0, 'cancelled downloads were cached');
+    },
+
+    async 'IndexedDBFileStorage removes the least recently used files'() {
+      const storage = new P.offline.IndexedDBFileStorage('forkphorus-assets-test');
+      await storage.clear();
+      const file = (key, usedAt) => ({ key, data: new Blob([key]), size: 3, usedAt });
+      await storage.put(file('aaa', 1), 9);
+      await storage.put(file('bbb', 2), 9);
+      const a = await storage.get('aaa');
+      assert(a && await text(a.data) === 'aaa', 'aaa was not saved');
+      await storage.put(file('ccc', 3), 6);
+      assert(await storage.get('aaa'), 'aaa was used recently and should be kept');
+      assert(await storage.get('ccc'), 'ccc was saved last and should be kept');
+      assert(!await storage.get('bbb'), 'bbb was used least recently and should be removed');
+      await storage.clear();
+      assert(!await storage.get('aaa'), 'clear() did not remove aaa');
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'offline.js: ' + name,
+    test: tests[name],
+  }));
+}());
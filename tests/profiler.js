@@ -0,0 +1,114 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of P.profiler, which check the trace that is exported instead of what the project does.
+ */
+P.suite.profilerTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * Runs a project on a virtual clock while profiling it and returns the exported trace.
+   * @param {string} path
+   * @param {number} frames
+   * @returns {Promise<{traceEvents: any[], displayTimeUnit: string}>}
+   */
+  async function profile(path, frames) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const stage = await new P.sb3.SB3FileLoader(buffer).load();
+    try {
+      const runtime = stage.runtime;
+      runtime.profiler = new P.profiler.Profiler();
+      runtime.useVirtualClock();
+      runtime.warpCheckLimit = 1000;
+      runtime.triggerGreenFlag();
+      runtime.stepFrames(frames);
+      return JSON.parse(runtime.profiler.exportTrace());
+    } finally {
+      stage.runtime.stopAll();
+      stage.destroy();
+    }
+  }
+
+  const tests = {
+    async 'traces contain frames, threads and procedures'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, async () => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const trace = await profile('sb3/warp-timer-loops.sb3', 3);
+          assert(trace.displayTimeUnit === 'ms', mode + ' has the wrong time unit');
+          const events = trace.traceEvents;
+          for (const event of events) {
+            assert(event.pid === 1 && typeof event.ts === 'number' && typeof event.name === 'string', mode + ' has an invalid event: ' + JSON.stringify(event));
+            assert(event.ph === 'M' || event.ph === 'X' && event.dur >= 0, mode + ' has an invalid event: ' + JSON.stringify(event));
+          }
+
+          const frames = events.filter((i) => i.cat === 'frame');
+          assert(frames.map((i) => i.args.frame).join() === '0,1,2', mode + ' has the wrong frames');
+          assert(frames.every((i) => i.tid === 0), mode + ' has frames outside of track 0');
+
+          // Every thread gets a name and its own track.
+          const names = events.filter((i) => i.ph === 'M' && i.name === 'thread_name');
+          assert(names.length === 3, mode + ' named ' + names.length + ' threads');
+          assert(names.every((i) => i.tid > 0 && i.args.name === 'Sprite1: event_whenflagclicked'), mode + ' has the wrong thread names');
+          assert(new Set(names.map((i) => i.tid)).size === 3, mode + ' put threads on the same track');
+
+          const threads = events.filter((i) => i.cat === 'thread');
+          for (const name of ['spin forever', 'spin until']) {
+            const procedures = events.filter((i) => i.cat === 'procedure' && i.name === name);
+            assert(procedures.length === 3, mode + ' has ' + procedures.length + ' slices of ' + name);
+            for (const procedure of procedures) {
+              // Procedures are nested in the slice of the thread that called them.
+              const thread = threads.find((i) => i.tid === procedure.tid && i.ts <= procedure.ts && procedure.ts + procedure.dur <= i.ts + i.dur);
+              assert(thread, mode + ' has a slice of ' + name + ' outside of a thread');
+              assert(thread.args.sprite === 'Sprite1' && typeof thread.args.blockId === 'string', mode + ' has the wrong thread arguments');
+            }
+          }
+        });
+      }
+    },
+
+    async 'profilers can be reset'() {
+      const profiler = new P.profiler.Profiler();
+      profiler.beginFrame();
+      profiler.endFrame();
+      profiler.reset();
+      profiler.beginFrame();
+      profiler.endFrame();
+      const events = JSON.parse(profiler.exportTrace()).traceEvents;
+      assert(events.length === 1 && events[0].args.frame === 0, 'events were not removed: ' + JSON.stringify(events));
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'profiler.js: ' + name,
+    test: tests[name],
+  }));
+}());
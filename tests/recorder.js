@@ -0,0 +1,104 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of P.recorder, which record the input of a project and replay it into another copy of the project.
+ */
+P.suite.recorderTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * Loads a project, runs a function with its stage, then destroys the stage.
+   * @param {string} path
+   * @param {(stage: P.core.Stage) => void | Promise<void>} fn
+   */
+  async function withProject(path, fn) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const stage = await new P.sb3.SB3FileLoader(buffer).load();
+    try {
+      await fn(stage);
+    } finally {
+      stage.runtime.pause();
+      stage.runtime.stopAll();
+      stage.destroy();
+    }
+  }
+
+  const tests = {
+    async 'recorded input replays the same way'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, async () => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          let json;
+          let frames;
+          let recorded;
+          await withProject('sb3/input-replay.sb3', async (stage) => {
+            const runtime = stage.runtime;
+            const recorder = new P.recorder.InputRecorder(stage, 42);
+            recorder.start();
+            assert(runtime.virtualClock, mode + ' did not record on a virtual clock');
+            // The event loop runs in real time, so when the input happens depends on the timing of this test.
+            runtime.start();
+            recorder.record({ type: 'greenflag' });
+            runtime.triggerGreenFlag();
+            for (const x of [10, -20, 30]) {
+              await P.utils.sleep(50);
+              stage.setMousePosition(x, 0);
+              stage.triggerKey(P.runtime.getKeyCode('space'));
+            }
+            await P.utils.sleep(50);
+            runtime.pause();
+            recorder.stop();
+            json = JSON.stringify(recorder.getLog());
+            frames = runtime.frameCount;
+            recorded = Object.assign({}, stage.children[0].vars);
+          });
+          assert(recorded.presses === 3, mode + ' recorded ' + recorded.presses + ' key presses');
+
+          const log = JSON.parse(json);
+          assert(log.seed === 42 && log.framerate === 30 && typeof log.startTime === 'number', mode + ' did not save the clock: ' + json);
+          await withProject('sb3/input-replay.sb3', (stage) => {
+            const replayer = new P.recorder.InputReplayer(stage, log);
+            replayer.run(frames - (log.events[log.events.length - 1].frame + 1));
+            assert(replayer.isFinished(), mode + ' did not replay every event');
+            assert(stage.runtime.frameCount === frames, mode + ' replayed ' + stage.runtime.frameCount + ' of ' + frames + ' frames');
+            const replayed = stage.children[0].vars;
+            assert(JSON.stringify(replayed) === JSON.stringify(recorded), mode + ' replayed ' + JSON.stringify(replayed) + ' instead of ' + JSON.stringify(recorded));
+          });
+        });
+      }
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'recorder.js: ' + name,
+    test: tests[name],
+  }));
+}());
@@ -0,0 +1,277 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of the runtime features that control how projects run, such as the virtual clock.
+ */
+P.suite.runtimeTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * Loads a project, runs a function with its stage, then destroys the stage.
+   * @param {string} path
+   * @param {(stage: P.core.Stage) => void | Promise<void>} fn
+   */
+  async function withProject(path, fn) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const stage = await new P.sb3.SB3FileLoader(buffer).load();
+    try {
+      await fn(stage);
+    } finally {
+      stage.runtime.pause();
+      stage.runtime.stopAll();
+      stage.destroy();
+    }
+  }
+
+  /**
+   * Runs a project on a virtual clock and returns the variables of its first sprite.
+   * @param {string} path
+   * @param {number} seed
+   * @param {number} frames
+   * @returns {Promise<Object<string, any>>}
+   */
+  async function runOnVirtualClock(path, seed, frames) {
+    let vars;
+    await withProject(path, (stage) => {
+      stage.runtime.useVirtualClock(undefined, seed);
+      stage.runtime.triggerGreenFlag();
+      stage.runtime.stepFrames(frames);
+      vars = Object.assign({}, stage.children[0].vars);
+    });
+    return vars;
+  }
+
+  /**
+   * @param {P.runtime.Runtime} runtime
+   * @param {string} hatId
+   * @returns {P.runtime.ThreadInfo}
+   */
+  function findThread(runtime, hatId) {
+    const thread = runtime.getThreads().find((i) => i.hat && i.hat.blockId === hatId);
+    assert(thread, 'no thread started by ' + hatId);
+    return thread;
+  }
+
+  // A block that always throws, for testing errors in scripts.
+  if (!P.ext.custom.registeredExtensions.errortest) {
+    P.ext.custom.register({
+      id: 'errortest',
+      runtime: {
+        fail() {
+          throw new Error('fail block was run');
+        },
+      },
+      statements: {
+        errortest_fail(util) {
+          util.writeLn(`${util.getExtensionRuntime()}.fail();`);
+        },
+      },
+      interpreter: {
+        statements: {
+          errortest_fail(util) {
+            return (thread) => {
+              throw new Error('fail block was run');
+            };
+          },
+        },
+      },
+    });
+  }
+
+  const tests = {
+    async 'projects on a virtual clock run the same way with the same seed'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, async () => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const first = await runOnVirtualClock('sb3/virtual-clock.sb3', 1234, 60);
+          const second = await runOnVirtualClock('sb3/virtual-clock.sb3', 1234, 60);
+          assert(JSON.stringify(first) === JSON.stringify(second), mode + ' results differ: ' + JSON.stringify(first) + ' and ' + JSON.stringify(second));
+          assert(first.waited >= 0.5 && first.waited < 0.6, mode + ' waited for ' + first.waited + ' seconds');
+          assert(first.glided >= 1.5 && first.glided < 1.6, mode + ' glided until ' + first.glided + ' seconds');
+          assert(first['glide x'] > 0 && first['glide x'] < 100, mode + ' was at x = ' + first['glide x'] + ' during the glide');
+          // The virtual clock starts on January 1, 2000.
+          assert(first.days >= 0 && first.days < 1, mode + ' reported ' + first.days + ' days since 2000');
+          assert(first.year === new Date(Date.UTC(2000, 0, 1)).getFullYear(), mode + ' reported the year ' + first.year);
+          const other = await runOnVirtualClock('sb3/virtual-clock.sb3', 5678, 60);
+          assert(other.random !== first.random, mode + ' picked the same random number with another seed');
+        });
+      }
+    },
+
+    async 'warp loops yield within the warp time limit and report that the project runs slowly'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, () => withProject('sb3/warp-timer-loops.sb3', (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const runtime = stage.runtime;
+          const reports = [];
+          runtime.handleRunningSlowly = (isRunningSlowly) => reports.push(isRunningSlowly);
+          runtime.warpTimeLimit = 50;
+          runtime.triggerGreenFlag();
+          const start = Date.now();
+          runtime.step();
+          const time = Date.now() - start;
+          // Both loops never end, so each may use the whole limit once before the frame ends.
+          assert(time < 4 * runtime.warpTimeLimit, mode + ' frame took ' + time + 'ms');
+          assert(runtime.isRunningSlowly, mode + ' is not running slowly');
+          assert(reports.join() === 'true', mode + ' reported ' + reports.join());
+          const vars = stage.children[0].vars;
+          assert(vars['forever count'] > 0 && vars['until count'] > 0, mode + ' loops did not run');
+        }));
+      }
+    },
+
+    async 'warp loops on a virtual clock yield after a number of checks'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, () => withProject('sb3/warp-timer-loops.sb3', (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const runtime = stage.runtime;
+          runtime.useVirtualClock();
+          runtime.warpCheckLimit = 1000;
+          runtime.triggerGreenFlag();
+          runtime.stepFrames(1);
+          const vars = stage.children[0].vars;
+          assert(vars['forever count'] > 0 && vars['forever count'] <= 1000, mode + ' forever loop ran ' + vars['forever count'] + ' times');
+          assert(vars['until count'] > 0 && vars['until count'] <= 1000, mode + ' repeat until loop ran ' + vars['until count'] + ' times');
+          assert(runtime.isRunningSlowly, mode + ' is not running slowly');
+        }));
+      }
+    },
+
+    async 'threads can be listed, paused, resumed and killed'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, () => withProject('sb3/thread-inspector.sb3', (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const runtime = stage.runtime;
+          const vars = stage.children[0].vars;
+          runtime.useVirtualClock();
+          runtime.triggerGreenFlag();
+          runtime.stepFrames(1);
+          const threads = runtime.getThreads();
+          assert(threads.length === 2, mode + ' has ' + threads.length + ' threads');
+          assert(threads.every((i) => i.sprite === stage.children[0] && i.hat.opcode === 'event_whenflagclicked'), mode + ' threads have the wrong sprite or hat');
+
+          runtime.pauseThread(findThread(runtime, 'count a').id);
+          assert(findThread(runtime, 'count a').paused, mode + ' thread was not paused');
+          const a = vars.a;
+          const b = vars.b;
+          runtime.stepFrames(3);
+          assert(vars.a === a, mode + ' paused thread kept running');
+          assert(vars.b === b + 3, mode + ' other thread did not keep running');
+
+          runtime.resumeThread(findThread(runtime, 'count a').id);
+          runtime.stepFrames(1);
+          assert(vars.a === a + 1, mode + ' thread did not resume');
+
+          runtime.killThread(findThread(runtime, 'count b and c').id);
+          runtime.stepFrames(1);
+          assert(runtime.getThreads().length === 1, mode + ' thread was not killed');
+          assert(vars.b === b + 4, mode + ' killed thread kept running');
+          assert(vars.a === a + 2, mode + ' other thread stopped');
+          let error = null;
+          try {
+            runtime.killThread(-1);
+          } catch (e) {
+            error = e;
+          }
+          assert(error, mode + ' killed a thread that does not exist');
+        }));
+      }
+    },
+
+    async 'threads stop at breakpoints and can be resumed'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ enableDebugger: true, useInterpreter }, () => withProject('sb3/thread-inspector.sb3', (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const runtime = stage.runtime;
+          const vars = stage.children[0].vars;
+          const stops = [];
+          runtime.handleBreakpoint = (thread) => stops.push(thread);
+          runtime.addBreakpoint('change c');
+          runtime.useVirtualClock();
+          runtime.triggerGreenFlag();
+          runtime.stepFrames(1);
+          assert(vars.b === 1 && vars.c === 0, mode + ' thread did not stop before the block: b = ' + vars.b + ', c = ' + vars.c);
+          assert(stops.length === 1 && stops[0].breakpoint === 'change c' && stops[0].hat.blockId === 'count b and c', mode + ' breakpoint was not reported');
+          const thread = findThread(runtime, 'count b and c');
+          assert(thread.paused && thread.breakpoint === 'change c', mode + ' thread is not stopped at the breakpoint');
+          assert(vars.a === 1 && !findThread(runtime, 'count a').paused, mode + ' other thread stopped');
+
+          runtime.stepFrames(2);
+          assert(vars.b === 1 && vars.c === 0, mode + ' stopped thread kept running');
+
+          runtime.resumeThread(thread.id);
+          runtime.stepFrames(1);
+          assert(vars.b === 1 && vars.c === 1, mode + ' thread did not resume from the breakpoint: b = ' + vars.b + ', c = ' + vars.c);
+          runtime.stepFrames(1);
+          assert(vars.b === 2 && vars.c === 1 && stops.length === 2, mode + ' thread did not stop at the breakpoint again');
+
+          runtime.removeBreakpoint('change c');
+          runtime.resumeThread(thread.id);
+          runtime.stepFrames(2);
+          assert(vars.b === 3 && vars.c === 3 && stops.length === 2, mode + ' thread stopped at a removed breakpoint');
+        }));
+      }
+    },
+
+    async 'errors only stop the thread that threw and say where they came from'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, () => withProject('sb3/script-errors.sb3', (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const runtime = stage.runtime;
+          const errors = [];
+          runtime.handleError = (error) => errors.push(error);
+          runtime.useVirtualClock();
+          runtime.triggerGreenFlag();
+          runtime.stepFrames(5);
+
+          assert(errors.length === 1, mode + ' reported ' + errors.length + ' errors');
+          const error = errors[0];
+          assert(error instanceof P.runtime.ScriptError, mode + ' reported ' + error);
+          assert(error.error.message === 'fail block was run', mode + ' reported the wrong error: ' + error.error);
+          assert(error.sprite === 'Failing sprite', mode + ' blamed ' + error.sprite);
+          assert(error.opcode === 'event_whenflagclicked' && error.hatBlockId === 'failing script', mode + ' blamed the script ' + error.opcode + ' ' + error.hatBlockId);
+          assert(error.blockId === 'fail block', mode + ' blamed the block ' + error.blockId);
+          assert(error.getLocation().startsWith('Failing sprite \u2192 script starting at block failing script'), mode + ' described the location as ' + error.getLocation());
+
+          const failing = stage.getObject('Failing sprite').vars;
+          assert(failing.before === 1 && failing.after === 0, mode + ' did not stop at the error');
+          assert(stage.children[0].vars.count === 5, mode + ' stopped other threads');
+          assert(runtime.getThreads().length === 1, mode + ' kept the thread that threw');
+        }));
+      }
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'runtime.js: ' + name,
+    test: tests[name],
+  }));
+}());
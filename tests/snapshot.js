@@ -0,0 +1,174 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of saving the state of a project with Stage.snapshot() and loading it into another copy of the project.
+ */
+P.suite.snapshotTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * Loads a project, runs a function with its stage, then destroys the stage.
+   * @param {string} path
+   * @param {(stage: P.core.Stage) => void | Promise<void>} fn
+   */
+  async function withProject(path, fn) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const stage = await new P.sb3.SB3FileLoader(buffer).load();
+    try {
+      await fn(stage);
+    } finally {
+      stage.runtime.pause();
+      stage.runtime.stopAll();
+      stage.destroy();
+    }
+  }
+
+  /**
+   * Describes the parts of a stage that the tests compare.
+   * @param {P.core.Stage} stage
+   */
+  function describe(stage) {
+    const sprite = /** @type {P.core.Sprite} */ (stage.children[0]);
+    return JSON.stringify({
+      vars: sprite.vars,
+      items: sprite.lists.items,
+      x: sprite.scratchX,
+      y: sprite.scratchY,
+    });
+  }
+
+  const ONE_DAY = 24 * 60 * 60 * 1000;
+
+  const tests = {
+    async 'restored projects continue like the original'() {
+      await withProject('sb3/snapshot.sb3', (original) => withProject('sb3/snapshot.sb3', async (copy) => {
+        original.runtime.useVirtualClock();
+        original.runtime.triggerGreenFlag();
+        original.runtime.stepFrames(15);
+        const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+
+        // The copy uses another time, so that times saved as they are would make the wait and glide end too early.
+        copy.runtime.useVirtualClock(Date.UTC(2000, 0, 1) + ONE_DAY);
+        await copy.restore(snapshot);
+        assert(copy.children[0].lists.items.modified, 'list was not marked as modified');
+        assert(describe(copy) === describe(original), 'restored ' + describe(copy) + ' instead of ' + describe(original));
+        for (let i = 0; i < 60; i++) {
+          original.runtime.stepFrames(1);
+          copy.runtime.stepFrames(1);
+          assert(describe(copy) === describe(original), 'frame ' + i + ' after restoring: ' + describe(copy) + ' instead of ' + describe(original));
+        }
+        assert(original.children[0].vars.done === 1, 'the wait did not finish');
+      }));
+    },
+
+    async 'lazily compiled scripts are restored whatever order they were compiled in'() {
+      await withConfig({ lazyCompilation: true }, () => withProject('sb3/snapshot.sb3', (original) => withProject('sb3/snapshot.sb3', async (copy) => {
+        original.runtime.useVirtualClock();
+        original.runtime.triggerGreenFlag();
+        original.runtime.stepFrames(15);
+        const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+
+        // The copy compiles its scripts in the opposite order, so their functions are in different places.
+        const sprite = copy.children[0];
+        copy.runtime.useVirtualClock();
+        for (const fn of sprite.listeners.whenGreenFlag.slice().reverse()) {
+          copy.runtime.startThread(sprite, fn, false);
+        }
+        copy.runtime.stepFrames(1);
+        await copy.restore(snapshot);
+        for (let i = 0; i < 60; i++) {
+          original.runtime.stepFrames(1);
+          copy.runtime.stepFrames(1);
+          assert(describe(copy) === describe(original), 'frame ' + i + ' after restoring: ' + describe(copy) + ' instead of ' + describe(original));
+        }
+        assert(copy.children[0].vars.done === 1, 'the wait did not finish');
+      })));
+    },
+
+    async 'snapshots that refer to unknown functions are not restored'() {
+      await withProject('sb3/snapshot.sb3', (original) => withProject('sb3/snapshot.sb3', async (copy) => {
+        original.runtime.useVirtualClock();
+        original.runtime.triggerGreenFlag();
+        original.runtime.stepFrames(1);
+        const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+        snapshot.threads[0].fn.$fn = 1000;
+        let error = null;
+        try {
+          await copy.restore(snapshot);
+        } catch (e) {
+          error = e;
+        }
+        assert(error && error.message.startsWith('Cannot restore unknown function'), 'restored an unknown function: ' + error);
+      }));
+    },
+
+    async 'scripts run by the interpreter start over when restored'() {
+      await withConfig({ useInterpreter: true }, () => withProject('sb3/snapshot.sb3', (original) => withProject('sb3/snapshot.sb3', async (copy) => {
+        original.runtime.useVirtualClock();
+        original.runtime.triggerGreenFlag();
+        original.runtime.stepFrames(15);
+        const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+        assert(snapshot.threads.length === 2, 'saved ' + snapshot.threads.length + ' threads');
+
+        copy.runtime.useVirtualClock();
+        await copy.restore(snapshot);
+        copy.runtime.stepFrames(1);
+        const vars = copy.children[0].vars;
+        assert(vars.runs === 2, 'script ran ' + vars.runs + ' times');
+        copy.runtime.stepFrames(45);
+        assert(vars.done === 1 && copy.children[0].lists.items.join() === 'first,second', 'restored script did not finish');
+      })));
+    },
+
+    async 'snapshots contain the pen layer'() {
+      await withProject('sb3/snapshot.sb3', (original) => withProject('sb3/snapshot.sb3', async (copy) => {
+        const sprite = /** @type {P.core.Sprite} */ (original.children[0]);
+        sprite.penSize = 20;
+        sprite.dotPen();
+        const snapshot = original.snapshot();
+        if (P.config.headless) {
+          // Nothing is drawn without a browser.
+          assert(snapshot.pen === null, 'headless pen layer was saved');
+          return;
+        }
+        assert(typeof snapshot.pen === 'string' && snapshot.pen.startsWith('data:image/png'), 'pen layer was not saved');
+        assert(copy.renderer.penSave() !== snapshot.pen, 'pen layer of the copy is already the same');
+        await copy.restore(snapshot);
+        assert(copy.renderer.penSave() === snapshot.pen, 'pen layer was not restored');
+      }));
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'snapshot.js: ' + name,
+    test: tests[name],
+  }));
+}());
@@ -7,6 +7,7 @@ var P = P || {};
  * @property {number} timeout The time, in milliseconds, to wait for a project to run.
  * @property {string[]} ignoredFailures Failure messages to ignore, and allow the project to continue.
  * @property {number} repeatCount The total number of times to repeat this test.
+ * @property {() => Promise<void>} [test] A test written in JavaScript to run instead of a project. It fails when it throws.
  */
 
 /**
@@ -49,6 +50,34 @@ P.suite = (function() {
   // Configure IO to fetch files from the right place.
   P.io.config.localPath = '../';
 
+  /**
+   * Feeds video sensing a band of vertical stripes across the middle of the stage that moves right
+   * by 2 pixels every frame. The rest of the frame never changes.
+   */
+  class MovingStripesFrameSource {
+    constructor() {
+      this.frame = 0;
+      this.data = new Uint8ClampedArray(P.ext.video.WIDTH * P.ext.video.HEIGHT * 4);
+    }
+
+    getFrame() {
+      const { WIDTH, HEIGHT } = P.ext.video;
+      const offset = this.frame++ * 2;
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+          const i = (y * WIDTH + x) * 4;
+          const value = y >= 120 && y < 240 ? 128 + 100 * Math.sin((x - offset) * Math.PI / 20) : 128;
+          this.data[i] = this.data[i + 1] = this.data[i + 2] = value;
+          this.data[i + 3] = 255;
+        }
+      }
+      return this.data;
+    }
+  }
+
+  // Tests must not depend on a camera.
+  P.ext.video.setFrameSource(() => new MovingStripesFrameSource());
+
   /**
    * Removes all children of an HTML element
    * @param {HTMLElement} element
@@ -216,6 +245,40 @@ P.suite = (function() {
       });
   }
 
+  /**
+   * Runs a test written in JavaScript.
+   * @param {ProjectMeta} metadata The test's metadata
+   * @returns {Promise<TestResult>}
+   */
+  async function runScriptTest(metadata) {
+    const startTime = performance.now();
+    let timeoutId;
+    const timeout = new Promise((resolve, reject) => {
+      timeoutId = setTimeout(() => reject(new Error('timeout')), metadata.timeout);
+    });
+
+    /** @type {Partial<TestResult>} */
+    let result;
+    try {
+      await Promise.race([metadata.test(), timeout]);
+      result = {
+        success: true,
+        message: '',
+      };
+    } catch (e) {
+      result = {
+        success: false,
+        message: stringifyError(e),
+      };
+    }
+    clearTimeout(timeoutId);
+
+    const endTime = performance.now();
+    result.projectTime = result.totalTime = endTime - startTime;
+    result.path = metadata.path;
+    return /** @type {TestResult} */ (result);
+  }
+
   /**
    * Converts a duration to a human readable string
    * @param {number} time Time, in milliseconds, to format
@@ -307,6 +370,18 @@ P.suite = (function() {
       const path = projectMetadata.path;
       const repeatCount = projectMetadata.repeatCount;
 
+      if (projectMetadata.test) {
+        if (window.startProjectHook) {
+          window.startProjectHook(projectMetadata);
+        }
+        for (let i = 0; i < repeatCount; i++) {
+          const result = await runScriptTest(projectMetadata);
+          allTestResults.push(result);
+          displayResult(projectMetadata, result);
+        }
+        continue;
+      }
+
       const projectType = getProjectType(path);
       const buffer = await fetchAsArrayBuffer(path);
 
@@ -1,4 +1,12 @@
 /// <reference path="suite.js" />
+/// <reference path="offline.js" />
+/// <reference path="assets.js" />
+/// <reference path="runtime.js" />
+/// <reference path="profiler.js" />
+/// <reference path="recorder.js" />
+/// <reference path="snapshot.js" />
+/// <reference path="cache.js" />
+/// <reference path="translate.js" />
 
 (function() {
   'use strict';
@@ -9,6 +17,7 @@
     'sb2/sb2-template.sb2',
     'sb2/non-standard-json.sb2',
     'sb2/color-formats.sb2',
+    'sb2/midi-blocks.sb2',
 
     'sb3/sb3-template.sb3',
     'sb3/quicksort.sb3',
@@ -34,6 +43,22 @@
     'sb3/pen-color-shift.sb3',
     'sb3/384-touching.sb3',
     'sb3/empty-sound-does-not-play-last.sb3',
+    'sb3/when-touching-object.sb3',
+    'sb3/list-contents.sb3',
+    'sb3/video-sensing.sb3',
+    'sb3/midi-blocks.sb3',
+    'sb3/translate.sb3',
+    'sb3/warp-timer-loops.sb3',
+    'sb3/variable-ids-same-name.sb3',
+
+    ...P.suite.offlineTests,
+    ...P.suite.assetTests,
+    ...P.suite.runtimeTests,
+    ...P.suite.profilerTests,
+    ...P.suite.recorderTests,
+    ...P.suite.snapshotTests,
+    ...P.suite.cacheTests,
+    ...P.suite.translateTests,
   ];
 
   /**
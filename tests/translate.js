@@ -0,0 +1,106 @@
+/// <reference path="suite.js" />
+
+/**
+ * Tests of the translate blocks with providers that respond asynchronously.
+ */
+P.suite.translateTests = (function() {
+  'use strict';
+
+  /**
+   * @param {boolean} condition
+   * @param {string} message
+   */
+  function assert(condition, message) {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Runs a function with some options of P.config changed, then changes them back.
+   * @param {Partial<typeof P.config>} options
+   * @param {() => Promise<void>} fn
+   */
+  async function withConfig(options, fn) {
+    const previous = {};
+    for (const key of Object.keys(options)) {
+      previous[key] = P.config[key];
+      P.config[key] = options[key];
+    }
+    try {
+      await fn();
+    } finally {
+      Object.assign(P.config, previous);
+    }
+  }
+
+  /**
+   * Loads a project, runs a function with its stage, then destroys the stage.
+   * @param {string} path
+   * @param {(stage: P.core.Stage) => void | Promise<void>} fn
+   */
+  async function withProject(path, fn) {
+    const buffer = await new P.io.Request(path).load('arraybuffer');
+    const stage = await new P.sb3.SB3FileLoader(buffer).load();
+    try {
+      await fn(stage);
+    } finally {
+      stage.runtime.pause();
+      stage.runtime.stopAll();
+      stage.destroy();
+    }
+  }
+
+  /**
+   * Translates text by putting the language in front of it, and fails to translate "fail".
+   * @implements {P.ext.translate.TranslationProvider}
+   */
+  class AsyncProvider {
+    constructor() {
+      /** @type {string[]} */
+      this.calls = [];
+    }
+
+    translate(text, language) {
+      this.calls.push(text);
+      if (text === 'fail') {
+        return Promise.reject(new Error('translation failed'));
+      }
+      return Promise.resolve(language + ':' + text);
+    }
+  }
+
+  const tests = {
+    async 'translate blocks wait for asynchronous providers'() {
+      for (const useInterpreter of [false, true]) {
+        await withConfig({ useInterpreter }, () => withProject('sb3/translate-async.sb3', async (stage) => {
+          const mode = useInterpreter ? 'interpreter' : 'compiler';
+          const provider = new AsyncProvider();
+          stage.translate.setProvider(provider);
+          stage.runtime.useVirtualClock();
+          stage.runtime.triggerGreenFlag();
+          const vars = stage.children[0].vars;
+          for (let i = 0; i < 30 && vars.done !== 1; i++) {
+            stage.runtime.stepFrames(1);
+            await P.utils.sleep(0);
+          }
+          assert(vars.done === 1, mode + ' script did not finish');
+
+          // Random numbers are picked once, so the number that was translated is the one that is reported.
+          assert(/^es:\d+$/.test(vars['translated random']), mode + ' reported ' + vars['translated random']);
+          const randomCalls = provider.calls.filter((i) => /^\d+$/.test(i));
+          assert(randomCalls.length === 1, mode + ' translated ' + randomCalls.join() + ' instead of one number');
+          assert(vars.nested === 'fr:es:hello', mode + ' translated a translation to ' + vars.nested);
+          // Failed translations report the text as it is, and are not tried again.
+          assert(vars.failed === 'fail', mode + ' reported ' + vars.failed + ' for a failed translation');
+          assert(provider.calls.filter((i) => i === 'fail').length === 1, mode + ' tried a failed translation again');
+        }));
+      }
+    },
+  };
+
+  return Object.keys(tests).map((name) => ({
+    path: 'translate.js: ' + name,
+    test: tests[name],
+  }));
+}());